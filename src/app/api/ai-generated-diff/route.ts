@@ -1,14 +1,61 @@
-import OpenAI from "openai";
+import {
+  audienceField,
+  buildReleaseNotesTool,
+  formatAudiences,
+  normalizeAudiences,
+} from "@/lib/audiences";
+import {
+  detectBreakingChanges,
+  formatBreakingChanges,
+} from "@/lib/breaking-changes";
+import { classifyWithModel } from "@/lib/categories";
+import { planDiff } from "@/lib/chunking";
+import { parseUnifiedDiff } from "@/lib/diff-parser";
+import {
+  LLMConfigError,
+  LLMProvider,
+  LLMRequestError,
+  TokenUsage,
+  createProvider,
+  normalizeProviderSelection,
+  validateToolArguments,
+} from "@/lib/llm";
+import { LinkedIssue, formatLinkedIssues } from "@/lib/github";
+import { createPartialJsonParser } from "@/lib/partial-json";
+import {
+  normalizeRedactionConfig,
+  redactPullRequest,
+} from "@/lib/redaction";
+import {
+  normalizePromptTemplate,
+  renderTemplate,
+} from "@/lib/prompt-templates";
+import {
+  filterDiffNoise,
+  formatExcludedFiles,
+  normalizeNoiseFilter,
+} from "@/lib/noise-filter";
+import {
+  CHUNK_TOKENS,
+  MAX_CHUNKS,
+  SINGLE_PASS_TOKENS,
+  formatChunkSummaries,
+  summarizeChunks,
+} from "@/lib/summarize";
+import {
+  EVENT_STREAM_HEADERS,
+  StreamEvent,
+  encodeStreamEvent,
+} from "@/lib/stream-events";
+import {
+  EMPTY_USAGE,
+  GenerationUsage,
+  addUsage,
+  estimateUsage,
+} from "@/lib/usage";
 
 export async function POST(request: Request) {
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      return new Response(
-        JSON.stringify({ error: "Missing OpenAI API key." }),
-        { status: 500, headers: { "Content-Type": "application/json" } }
-      );
-    }
-
     let body: unknown;
     try {
       body = await request.json();
@@ -19,8 +66,35 @@ export async function POST(request: Request) {
       );
     }
 
-    const { diffItem } = body as {
-      diffItem?: { description: string; diff: string };
+    const {
+      diffItem,
+      repository,
+      noiseFilter,
+      includeNoise,
+      llm,
+      audiences,
+      prompt,
+      classify,
+      redaction,
+    } = body as {
+      diffItem?: {
+        description: string;
+        diff: string;
+        body?: string | null;
+        labels?: string[];
+        author?: string | null;
+        baseBranch?: string | null;
+        linkedIssues?: LinkedIssue[];
+      };
+      repository?: string;
+      noiseFilter?: unknown;
+      includeNoise?: boolean;
+      redaction?: unknown;
+      llm?: unknown;
+      audiences?: unknown;
+      prompt?: unknown;
+      // Also ask the model for the PR's release category
+      classify?: boolean;
     };
     if (!diffItem || !diffItem.description || !diffItem.diff) {
       return new Response(
@@ -31,82 +105,281 @@ export async function POST(request: Request) {
       );
     }
 
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
+    let provider: LLMProvider;
+    try {
+      provider = createProvider(normalizeProviderSelection(llm));
+    } catch (err) {
+      if (!(err instanceof LLMConfigError)) throw err;
+      return new Response(JSON.stringify({ error: err.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Aborted when the browser disconnects or cancels, so the provider stops
+    // generating (and billing) tokens nobody will read
+    const upstream = new AbortController();
+    request.signal.addEventListener("abort", () => upstream.abort(), {
+      once: true,
     });
 
-    const systemPrompt =
-      "You are a helpful assistant. For each software-change description you receive, return exactly two plain-text lines—first a “Developer:” line containing one or two concise, technical sentences that state what changed and why (referencing code entities exactly as given, with no marketing tone or exclamation marks), and second a “Marketing:” line containing one clear, user-centric sentence that highlights the benefit of the same change in simple language with at most one exclamation mark. Both sentences must describe the same change consistently, be strictly grounded in the facts provided, and never invent features, components, or outcomes. When essential details are missing, output “Developer: Details insufficient to generate a developer note.” and “Marketing: Details insufficient to generate a marketing note.”; do not guess, hallucinate, or ask follow-up questions. Refuse only if the request violates explicit policies. Keep the combined length of the two lines within 60 tokens and add no extra text or formatting beyond the two required lines.";
-
-    const userPrompt = `The description of the pull request is ${diffItem.description} and the content of the diff is ${diffItem.diff}. The response format should be a JSON object as follows: {\n  \"developer_notes\": \"string\",\n  \"marketing_notes\": \"string\"\n}`;
-
-    const completionStream = await openai.chat.completions.create({
-      model: "gpt-4.1-nano",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.7,
-      max_tokens: 2000,
-      stream: true,
-      tools: [
-        {
-          type: "function",
-          function: {
-            name: "set_release_notes",
-            description:
-              "Return developer and marketing release notes for the provided diff.",
-            parameters: {
-              type: "object",
-              properties: {
-                developer_notes: {
-                  type: "string",
-                  description:
-                    "Concise, technical summary of what changed and why (1-2 sentences).",
-                },
-                marketing_notes: {
-                  type: "string",
-                  description:
-                    "User-facing description of the benefit of the change (1-2 sentences).",
-                },
-              },
-              required: ["developer_notes", "marketing_notes"],
-            },
-          },
-        },
-      ],
-      tool_choice: {
-        type: "function",
-        function: { name: "set_release_notes" },
+    // One tool field per selected audience: `${id}_notes`
+    const profiles = normalizeAudiences(audiences);
+    const releaseNotesTool = buildReleaseNotesTool(profiles);
+
+    // Lockfiles, build output and similar files are replaced by a one-line
+    // mention unless the caller asked to include everything for this PR.
+    const { diff: unredactedDiff, excluded } = includeNoise
+      ? { diff: diffItem.diff, excluded: [] }
+      : filterDiffNoise(diffItem.diff, normalizeNoiseFilter(noiseFilter));
+
+    // Secrets and personal data are replaced before anything reaches the
+    // provider; blocking rules stop the request instead
+    const redacted = redactPullRequest(
+      {
+        title: diffItem.description,
+        body: diffItem.body,
+        issues: Array.isArray(diffItem.linkedIssues)
+          ? formatLinkedIssues(diffItem.linkedIssues)
+          : "",
+        diff: unredactedDiff,
       },
+      normalizeRedactionConfig(redaction)
+    );
+    if (redacted.blocked.length) {
+      return new Response(
+        JSON.stringify({
+          error: `Not sent to the model: the PR contains ${Array.from(
+            new Set(redacted.blocked.map((f) => f.label.toLowerCase()))
+          ).join(", ")}.`,
+          redaction: redacted.findings,
+        }),
+        { status: 422, headers: { "Content-Type": "application/json" } }
+      );
+    }
+    const diff = redacted.diff;
+    const excludedNote = excluded.length
+      ? `\n\nThese files also changed but were left out of the diff as noise:\n${formatExcludedFiles(excluded)}`
+      : "";
+    // Findings go in next to the diff so the developer note can state the
+    // migration impact, even when the diff itself gets summarized
+    const breakingChanges = detectBreakingChanges(diff);
+    const breakingNote = breakingChanges.length
+      ? `\n\nStatic analysis flagged these likely breaking changes. For each one that affects users, the developer note must say so and explain how to migrate:\n${formatBreakingChanges(breakingChanges)}`
+      : "";
+
+    // Large diffs are summarized chunk by chunk first (map), and the final
+    // notes are generated from those summaries (reduce).
+    const { chunks, coverage } = planDiff(diff, {
+      singlePassTokens: SINGLE_PASS_TOKENS,
+      chunkTokens: CHUNK_TOKENS,
+      maxChunks: MAX_CHUNKS,
     });
 
-    const encoder = new TextEncoder();
+    let diffContext: string;
+    let mapUsage: GenerationUsage = EMPTY_USAGE;
+    if (coverage.strategy === "single") {
+      diffContext = `The content of the diff is:\n${diff}`;
+    } else {
+      const summaries = await summarizeChunks(
+        provider,
+        redacted.title,
+        chunks,
+        upstream.signal
+      );
+      mapUsage = summaries.reduce((sum, s) => addUsage(sum, s.usage), mapUsage);
+      diffContext = `The diff was too large to include, so here are summaries of its parts${
+        coverage.ratio < 1
+          ? ` (covering about ${Math.round(coverage.ratio * 100)}% of the diff)`
+          : ""
+      }:\n\n${formatChunkSummaries(summaries)}\n`;
+    }
+
+    const responseFormat = profiles
+      .map((p) => `  "${audienceField(p.id)}": "string"`)
+      .join(",\n");
+    const template = normalizePromptTemplate(prompt);
+    const variables = {
+      title: redacted.title,
+      body: redacted.body.trim(),
+      repo: typeof repository === "string" ? repository : "",
+      author: diffItem.author ? `@${diffItem.author}` : "unknown",
+      branch: diffItem.baseBranch || "unknown",
+      labels: diffItem.labels?.length ? diffItem.labels.join(", ") : "none",
+      issues: redacted.issues || "none",
+      diff: `${diffContext}${excludedNote}${breakingNote}`,
+      audiences: formatAudiences(profiles),
+    };
+    const systemPrompt = renderTemplate(template.system, variables);
+    // The response format follows the tool schema, so templates cannot change it
+    const userPrompt = `${renderTemplate(template.user, variables)}\n\nThe response format should be a JSON object as follows: {\n${responseFormat}\n}`;
+
+    const completion = provider
+      .streamStructured({
+        system: systemPrompt,
+        user: userPrompt,
+        temperature: 0.7,
+        maxTokens: 2000,
+        tool: releaseNotesTool,
+        signal: upstream.signal,
+      })
+      [Symbol.asyncIterator]();
+    // Waiting for the first chunk lets rate limits and provider outages fail
+    // with their HTTP status (see the catch below) instead of inside the stream.
+    const first = await completion.next();
 
     const stream = new ReadableStream({
       async start(controller) {
+        const send = (event: StreamEvent) => {
+          if (!upstream.signal.aborted) {
+            controller.enqueue(encodeStreamEvent(event));
+          }
+        };
+
+        if (coverage.ratio < 1) {
+          send({
+            type: "warning",
+            message: `The diff is too large to summarize completely; the notes cover about ${Math.round(coverage.ratio * 100)}% of it.`,
+          });
+        }
+
+        const parser = createPartialJsonParser();
+        // Providers report usage at the end of the stream, if at all
+        let reported: TokenUsage | undefined;
+        let output = "";
         try {
-          for await (const chunk of completionStream) {
-            const toolCalls = chunk.choices?.[0]?.delta?.tool_calls;
-            if (toolCalls && toolCalls.length > 0) {
-              const argsPiece = toolCalls[0]?.function?.arguments || "";
-              controller.enqueue(encoder.encode(argsPiece));
+          for (
+            let next = first;
+            !next.done && !upstream.signal.aborted;
+            next = await completion.next()
+          ) {
+            const chunk = next.value;
+            if (chunk.type === "usage") {
+              reported = chunk;
+              continue;
             }
+            output += chunk.text;
+            parser.write(chunk.text).forEach((event) =>
+              send(
+                event.type === "string-delta"
+                  ? { type: "field-delta", field: event.key, text: event.text }
+                  : {
+                      type: "field-complete",
+                      field: event.key,
+                      value: event.value,
+                    }
+              )
+            );
+          }
+
+          const result = parser.end();
+          let usage = addUsage(
+            mapUsage,
+            reported
+              ? {
+                  promptTokens: reported.promptTokens,
+                  completionTokens: reported.completionTokens,
+                  estimated: false,
+                }
+              : estimateUsage(systemPrompt + userPrompt, output)
+          );
+          if (
+            classify === true &&
+            result.complete &&
+            !upstream.signal.aborted
+          ) {
+            try {
+              const classified = await classifyWithModel(
+                provider,
+                {
+                  title: redacted.title,
+                  body: redacted.body,
+                  paths: parseUnifiedDiff(diff).map((f) => f.path),
+                },
+                upstream.signal
+              );
+              usage = addUsage(usage, classified.usage);
+              if (classified.category) {
+                send({ type: "category", category: classified.category });
+              }
+            } catch (classifyErr) {
+              // The notes are fine without a category
+              console.error(
+                "Classification failed:",
+                (classifyErr as Error).message
+              );
+            }
+          }
+          send({ type: "usage", ...usage });
+          if (upstream.signal.aborted) {
+            // Nobody is listening anymore
+            await completion.return?.();
+          } else if (!result.complete) {
+            send({
+              type: "error",
+              message: `The model's response was cut off before the notes were complete (${result.error}).`,
+            });
+          } else {
+            validateToolArguments(
+              result.value,
+              releaseNotesTool.parameters
+            ).forEach((problem) =>
+              send({
+                type: "warning",
+                message: `Unexpected model output: ${problem}`,
+              })
+            );
+            send({ type: "done" });
           }
         } catch (streamErr) {
-          controller.error(streamErr);
+          if (!upstream.signal.aborted) {
+            const message =
+              (streamErr as Error).message || "Error while generating notes.";
+            console.error("AI stream error:", message);
+            send({ type: "error", message });
+          }
         }
-        controller.close();
+        try {
+          controller.close();
+        } catch {
+          // Already cancelled by the client
+        }
+      },
+      cancel() {
+        upstream.abort();
       },
     });
 
     return new Response(stream, {
       headers: {
-        "Content-Type": "application/json; charset=utf-8",
-        "Cache-Control": "no-cache",
+        ...EVENT_STREAM_HEADERS,
+        "X-Diff-Coverage": JSON.stringify(coverage),
+        "X-LLM-Provider": provider.id,
+        "X-LLM-Model": provider.model,
       },
     });
   } catch (err) {
+    if (err instanceof LLMRequestError) {
+      // Rate limits and outages get statuses the client retries with backoff
+      console.error("LLM provider error:", err.status, err.message);
+      return new Response(
+        JSON.stringify({
+          error:
+            err.status === 429
+              ? "The model provider is rate limiting requests."
+              : "The model provider returned an error.",
+          details: err.message,
+        }),
+        {
+          // Only these are retried; other provider errors won't go away
+          status: err.status === 429 ? 429 : err.status >= 500 ? 502 : 500,
+          headers: {
+            "Content-Type": "application/json",
+            ...(err.retryAfter ? { "Retry-After": err.retryAfter } : {}),
+          },
+        }
+      );
+    }
     const message = (err as Error).message || "Unexpected server error.";
     console.error("AI route error:", message);
     return new Response(
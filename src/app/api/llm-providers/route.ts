@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+
+import { defaultProviderId, listProviders } from "@/lib/llm";
+
+// Lets the UI offer only providers the server has credentials for
+export async function GET() {
+  return NextResponse.json({
+    defaultProvider: defaultProviderId(),
+    providers: listProviders(),
+  });
+}
@@ -1,109 +1,127 @@
 import { NextResponse } from "next/server";
-import { Octokit } from "@octokit/rest";
 
-// Initialize Octokit. Use GITHUB_TOKEN environment variable for authentication if available.
-// Unauthenticated requests are subject to stricter rate limits.
-const octokit = new Octokit({
-  auth: process.env.GITHUB_TOKEN,
-});
+import { cacheStoreFromEnv, createConditionalFetch } from "@/lib/github-cache";
+import {
+  LOCAL_OWNER,
+  MergedChange,
+  SOURCE_PROVIDER_LABELS,
+  SourceProvider,
+  createSource,
+  decodeCursor,
+  isRevisionRange,
+  isSourceProvider,
+  normalizeBaseUrl,
+} from "@/lib/sources";
 
-// Default repository details (can be overridden by environment variables)
-const DEFAULT_OWNER = "openai";
-const DEFAULT_REPO = "openai-node";
+// Unchanged lists and diffs are answered with 304s that cost no quota
+const cache = createConditionalFetch(cacheStoreFromEnv());
+
+// Default repository details (can be overridden by environment variables,
+// which in turn are overridden by the `owner`/`repo` query parameters)
+const DEFAULT_OWNER = process.env.GITHUB_OWNER || "openai";
+const DEFAULT_REPO = process.env.GITHUB_REPO || "openai-node";
+
+// Owner and repository names only allow these characters
+const NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+// GitLab projects can be in nested groups, e.g. "group/subgroup"
+const GROUP_PATTERN = /^[A-Za-z0-9_.-]+(?:\/[A-Za-z0-9_.-]+)*$/;
+// Every PR costs a diff request
+const MAX_PER_PAGE = 50;
+
+function toDiffItem({ number, title, ...change }: MergedChange) {
+  return {
+    id: number.toString(), // Use PR number as ID
+    description: title,
+    ...change,
+  };
+}
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
-  const owner =
-    process.env.GITHUB_OWNER || searchParams.get("owner") || DEFAULT_OWNER;
-  const repo =
-    process.env.GITHUB_REPO || searchParams.get("repo") || DEFAULT_REPO;
+  const providerQuery = searchParams.get("provider") ?? "github";
+  const baseUrlQuery = searchParams.get("base_url");
+  const ownerQuery = searchParams.get("owner")?.trim();
+  const repoQuery = searchParams.get("repo")?.trim();
   const perPageQuery = searchParams.get("per_page");
-  const pageQuery = searchParams.get("page");
+  const cursor = searchParams.get("cursor") ?? undefined;
+  const range = searchParams.get("range")?.trim() || undefined;
 
   const per_page = perPageQuery ? parseInt(perPageQuery, 10) : 10;
-  const page = pageQuery ? parseInt(pageQuery, 10) : 1;
 
-  if (isNaN(per_page) || per_page <= 0) {
+  if (!isSourceProvider(providerQuery)) {
+    return NextResponse.json(
+      { error: "Invalid provider parameter" },
+      { status: 400 }
+    );
+  }
+  const provider: SourceProvider = providerQuery;
+  const label = SOURCE_PROVIDER_LABELS[provider];
+  // The environment's default repository is a GitHub one
+  const owner = ownerQuery || (provider === "github" ? DEFAULT_OWNER : "");
+  const repo = repoQuery || (provider === "github" ? DEFAULT_REPO : "");
+  const baseUrl = baseUrlQuery ? normalizeBaseUrl(baseUrlQuery) : undefined;
+
+  if (
+    !(provider === "gitlab" ? GROUP_PATTERN : NAME_PATTERN).test(owner) ||
+    !NAME_PATTERN.test(repo) ||
+    repo === "." ||
+    repo === ".." ||
+    (provider === "local" && owner !== LOCAL_OWNER)
+  ) {
+    return NextResponse.json(
+      { error: "Invalid owner or repo parameter" },
+      { status: 400 }
+    );
+  }
+  if (baseUrl === null) {
+    return NextResponse.json(
+      { error: "Invalid base_url parameter" },
+      { status: 400 }
+    );
+  }
+  // Only local checkouts read ranges
+  if (
+    range !== undefined &&
+    (provider !== "local" || !isRevisionRange(range))
+  ) {
+    return NextResponse.json(
+      { error: "Invalid range parameter" },
+      { status: 400 }
+    );
+  }
+  if (isNaN(per_page) || per_page <= 0 || per_page > MAX_PER_PAGE) {
     return NextResponse.json(
       { error: "Invalid per_page parameter" },
       { status: 400 }
     );
   }
-  if (isNaN(page) || page <= 0) {
+  if (cursor !== undefined && !decodeCursor(cursor)) {
     return NextResponse.json(
-      { error: "Invalid page parameter" },
+      { error: "Invalid cursor parameter" },
       { status: 400 }
     );
   }
 
+  // GitHub's quota is the only one the page shows
+  const rateLimit = () => (provider === "github" ? cache.rateLimit() : null);
+
   try {
-    // Fetch closed pull requests (includes merged)
-    const { data: closedPrs, headers } = await octokit.pulls.list({
+    const source = createSource(provider, baseUrl, cache.fetch);
+    const { changes, nextCursor } = await source.listMergedChanges({
       owner,
       repo,
-      state: "closed",
-      per_page,
-      page,
-      sort: "updated", // Get most recently updated ones first
-      direction: "desc",
-    });
-
-    // Filter for merged PRs
-    const mergedPrs = closedPrs.filter((pr) => pr.merged_at);
-
-    // Fetch diffs for each merged PR in parallel
-    const diffsPromises = mergedPrs.map(async (pr) => {
-      try {
-        const diffResponse = await octokit.pulls.get({
-          owner,
-          repo,
-          pull_number: pr.number,
-          mediaType: {
-            format: "diff", // Request the diff format
-          },
-        });
-
-        // The diff content is directly in the data for this media type
-        const diffText = diffResponse.data as unknown as string; // Octokit types might be slightly off for mediaType requests
-
-        return {
-          id: pr.number.toString(), // Use PR number as ID
-          description: pr.title,
-          diff: diffText,
-          url: pr.html_url, // Add the PR URL for context
-        };
-      } catch (diffError) {
-        let message = "Unknown error fetching diff";
-        if (diffError instanceof Error) {
-          message = diffError.message;
-        }
-        console.error(`Failed to fetch diff for PR #${pr.number}:`, message);
-        // Return null or a specific error object if a single diff fails
-        return null;
-      }
+      perPage: per_page,
+      cursor,
+      range,
     });
 
-    const diffResults = (await Promise.all(diffsPromises)).filter(
-      (d) => d !== null
-    ); // Filter out any nulls from failed diff fetches
-
-    // Basic pagination info based on Link header (if available)
-    const linkHeader = headers.link;
-    let nextPage: number | null = null;
-    if (linkHeader) {
-      const links = linkHeader.split(",").map((a) => a.split(";"));
-      const nextLink = links.find((link) => link[1].includes('rel="next"'));
-      if (nextLink) {
-        const url = new URL(nextLink[0].trim().slice(1, -1)); // Extract URL from <...>
-        nextPage = parseInt(url.searchParams.get("page") || "0", 10);
-      }
-    }
-
     return NextResponse.json({
-      diffs: diffResults,
-      nextPage: nextPage,
-      currentPage: page,
+      repository: { provider, owner, repo },
+      baseUrl: source.baseUrl,
+      diffs: changes.map(toDiffItem),
+      nextCursor,
       perPage: per_page,
+      rateLimit: rateLimit(),
     });
   } catch (error) {
     let errorMessage = "Unknown error fetching pull requests";
@@ -111,21 +129,32 @@ export async function GET(request: Request) {
     if (error instanceof Error) {
       errorMessage = error.message;
     }
+    // Octokit errors and SourceRequestError carry the host's status
     if (typeof error === "object" && error !== null && "status" in error) {
-      errorStatus = error.status as number; // Keep 'any' for status as it comes from Octokit error
+      errorStatus = error.status as number;
     }
 
-    console.error("GitHub API Error:", errorMessage);
+    console.error(`${label} API Error:`, errorMessage);
     // Distinguish rate limit errors if possible
-    if (errorStatus === 403 && errorMessage.includes("rate limit exceeded")) {
+    if (
+      errorStatus === 429 ||
+      (errorStatus === 403 && errorMessage.includes("rate limit exceeded"))
+    ) {
       return NextResponse.json(
         {
           error:
-            "GitHub API rate limit exceeded. Please try again later or provide a GITHUB_TOKEN environment variable.",
+            provider === "github"
+              ? "GitHub API rate limit exceeded. Please try again later or provide a GITHUB_TOKEN environment variable."
+              : `${label} API rate limit exceeded. Please try again later.`,
+          rateLimit: rateLimit(),
         },
         { status: 429 }
       );
     }
+    // Unknown revisions, a missing LOCAL_GIT_ROOT, instances not allowed
+    if (errorStatus === 400) {
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
     if (errorStatus === 404) {
       return NextResponse.json(
         { error: `Repository not found: ${owner}/${repo}` },
@@ -134,10 +163,11 @@ export async function GET(request: Request) {
     }
     return NextResponse.json(
       {
-        error: "Failed to fetch pull requests from GitHub.",
+        error: `Failed to fetch pull requests from ${label}.`,
         details: errorMessage,
       },
-      { status: errorStatus }
+      // Network failures have no status of their own
+      { status: errorStatus >= 400 && errorStatus < 600 ? errorStatus : 500 }
     );
   }
 }
@@ -1,77 +1,477 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect, useMemo, useRef } from "react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
-import { SparklesIcon, Loader2, AlertTriangle } from "lucide-react";
+import {
+  SparklesIcon,
+  HistoryIcon,
+  Loader2,
+  AlertTriangle,
+  FilterIcon,
+  BotIcon,
+  UsersIcon,
+  FileTextIcon,
+  ColumnsIcon,
+  SquareIcon,
+  CoinsIcon,
+  ShieldAlertIcon,
+  FileDiffIcon,
+} from "lucide-react";
 import { ModeToggle } from "@/components/mode-toggle";
+import { PatchImport } from "@/components/patch-import";
+import { RepoPicker } from "@/components/repo-picker";
+import { DiffViewer } from "@/components/diff-viewer";
+import {
+  ExcludedFilesNotice,
+  NoiseFilterSettings,
+} from "@/components/noise-filter";
+import { LLMSettings } from "@/components/llm-settings";
+import { AudienceSettings } from "@/components/audience-settings";
+import { ReleaseNotesTabs } from "@/components/release-notes-tabs";
+import { PromptCompare, PromptSettings } from "@/components/prompt-editor";
+import { RevisionHistory } from "@/components/revision-history";
+import { GenerationProgress } from "@/components/generation-progress";
+import { UsageDashboard } from "@/components/usage-dashboard";
+import { BatchEstimate } from "@/components/batch-estimate";
+import { PullRequestMeta } from "@/components/pull-request-meta";
+import { Highlighted, SearchFilterBar } from "@/components/search-filters";
+import { CategoryBadge, CategorySelect } from "@/components/category-select";
+import {
+  BreakingBadge,
+  BreakingChangeList,
+} from "@/components/breaking-changes";
+import { RedactionReport, RedactionSettings } from "@/components/redaction";
+import {
+  ReviewStatusBadge,
+  ReviewStatusSelect,
+} from "@/components/review-status";
 import {
   Accordion,
   AccordionItem,
   AccordionTrigger,
   AccordionContent,
 } from "@/components/ui/accordion";
-import { db, DiffEntity } from "@/lib/db";
+import {
+  db,
+  PullRequestEntity,
+  RepositoryEntity,
+  ReviewStatus,
+  RevisionEntity,
+  RepositoryRef,
+  DEFAULT_REPOSITORY,
+  clearRepository,
+  getAudiences,
+  getPrices,
+  getPromptVersions,
+  getRepositoryPullRequests,
+  getRepositorySummaries,
+  getRevisions,
+  getUsageRevisions,
+  openingRepository,
+  pullRequestKey,
+  repositoryId,
+  repositoryLabel,
+  touchRepository,
+} from "@/lib/db";
+import {
+  AudienceProfile,
+  DEFAULT_AUDIENCES,
+  audienceField,
+  formatAudiences,
+} from "@/lib/audiences";
+import type { DiffCoverage } from "@/lib/chunking";
+import {
+  NoiseFilterConfig,
+  filterDiffNoise,
+  normalizeNoiseFilter,
+} from "@/lib/noise-filter";
+import {
+  BUILT_IN_PROMPT,
+  BUILT_IN_PROMPT_ID,
+  PromptTemplate,
+  PromptVersionEntity,
+  renderTemplate,
+} from "@/lib/prompt-templates";
+import { readStreamEvents } from "@/lib/stream-events";
+import { cn } from "@/lib/utils";
+import {
+  QueueProgress,
+  RetryableError,
+  createGenerationQueue,
+  parseRetryAfter,
+} from "@/lib/generation-queue";
+import type { ProviderId, ProviderSelection } from "@/lib/llm/types";
+import type { RateLimit } from "@/lib/github-cache";
+import {
+  ChangedFile,
+  PullRequestDetails,
+  detailsFromDiff,
+  formatLinkedIssues,
+} from "@/lib/github";
+import { ParsedPatch, patchNumber } from "@/lib/patches";
+import {
+  CATEGORY_ORDER,
+  CategoryAssignment,
+  RELEASE_CATEGORIES,
+  ReleaseCategory,
+  classifyPullRequest,
+} from "@/lib/categories";
+import { estimateGenerationUsage } from "@/lib/summarize";
+import { detectBreakingChanges } from "@/lib/breaking-changes";
+import {
+  RedactionConfig,
+  normalizeRedactionConfig,
+  redactPullRequest,
+} from "@/lib/redaction";
+import { parseUnifiedDiff } from "@/lib/diff-parser";
+import {
+  EMPTY_FILTERS,
+  PullRequestState,
+  SEARCH_FIELD_LABELS,
+  SearchDocument,
+  SearchFilters,
+  buildSearchIndex,
+  filtersFromQueryString,
+  filtersToQueryString,
+  hasActiveFilters,
+  matchSnippet,
+  matchesFilters,
+  repositoryFromQueryString,
+  repositoryToQueryString,
+  searchIndexes,
+  tokenize,
+} from "@/lib/search";
+import {
+  EMPTY_USAGE,
+  GenerationUsage,
+  ModelPrice,
+  addUsage,
+  findPrice,
+} from "@/lib/usage";
 
-interface DiffItem {
+interface DiffItem extends Partial<PullRequestDetails> {
   id: string;
   description: string;
   diff: string;
   url: string;
+  mergedAt?: string | null;
+  author?: string | null;
+  labels?: string[];
+  // Abbreviated hash of local commits, which have no PR number
+  commit?: string;
+  // Pasted or uploaded rather than fetched
+  manual?: boolean;
+  // Why the source couldn't read the diff; `diff` is empty then
+  diffError?: string;
+}
+
+const DEFAULT_CONCURRENCY = 3;
+const CONCURRENCY_STORAGE_KEY = "diff-digest:generation-concurrency";
+// Rate limits and provider outages; anything else fails right away
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+// PRs cached before their files were fetched fall back to the diff
+const pathsOf = (pr: { files?: ChangedFile[]; diff: string }) =>
+  (pr.files ?? parseUnifiedDiff(pr.diff)).map((f) => f.path);
+
+// Kept as is; anything else is re-derived from the PR on every fetch
+const isSticky = (pr?: PullRequestEntity) =>
+  pr?.categorySource === "manual" || pr?.categorySource === "llm";
+
+// A batch waiting for confirmation of its estimated cost
+interface BatchPlan {
+  jobs: { diff: DiffItem; audienceIds?: string[] }[];
+  usage: GenerationUsage;
+  model: string;
 }
 
 interface ApiResponse {
+  repository: RepositoryRef;
   diffs: DiffItem[];
-  nextPage: number | null;
-  currentPage: number;
+  // Opaque; null once there are no older merged PRs
+  nextCursor: string | null;
   perPage: number;
+  // GitHub's quota after the request; null for other hosts and before GitHub
+  // reported one
+  rateLimit: RateLimit | null;
 }
 
 export default function Home() {
+  const [repository, setRepository] = useState<RepositoryRef | null>(null);
+  const [repositories, setRepositories] = useState<RepositoryEntity[]>([]);
+  const activeRepositoryRef = useRef<string | null>(null);
   const [diffs, setDiffs] = useState<DiffItem[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [currentPage, setCurrentPage] = useState<number>(1);
-  const [nextPage, setNextPage] = useState<number | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [initialFetchDone, setInitialFetchDone] = useState<boolean>(false);
+  // PR id -> audience id -> note
   const [generatedSummaries, setGeneratedSummaries] = useState<
-    Record<
-      string,
-      {
-        developer: string;
-        marketing: string;
-      }
-    >
+    Record<string, Record<string, string>>
   >({});
+  const [audiences, setAudiences] = useState<AudienceProfile[]>([]);
+  const [promptVersions, setPromptVersions] = useState<PromptVersionEntity[]>(
+    []
+  );
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  // Loaded when a PR's history is opened; newest first
+  const [revisions, setRevisions] = useState<
+    Record<string, RevisionEntity[]>
+  >({});
+  const [currentRevisions, setCurrentRevisions] = useState<
+    Record<string, number>
+  >({});
+  // Audience ids edited by hand, per PR
+  const [editedNotes, setEditedNotes] = useState<Record<string, string[]>>(
+    {}
+  );
+  // Audience ids whose generation was stopped part way, per PR
+  const [incompleteNotes, setIncompleteNotes] = useState<
+    Record<string, string[]>
+  >({});
+  const [reviewStatus, setReviewStatus] = useState<
+    Record<string, ReviewStatus>
+  >({});
+  const [forceRegenerate, setForceRegenerate] = useState(false);
+  const [queueProgress, setQueueProgress] = useState<QueueProgress | null>(
+    null
+  );
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [queue] = useState(() =>
+    createGenerationQueue({
+      concurrency: DEFAULT_CONCURRENCY,
+      onChange: setQueueProgress,
+    })
+  );
   const [loadingSummaries, setLoadingSummaries] = useState<
     Record<string, boolean>
   >({});
   const [summaryErrors, setSummaryErrors] = useState<Record<string, string>>(
     {}
   );
+  const [summaryWarnings, setSummaryWarnings] = useState<
+    Record<string, string[]>
+  >({});
+  const [summaryCoverage, setSummaryCoverage] = useState<
+    Record<string, DiffCoverage>
+  >({});
+  const [includeNoise, setIncludeNoise] = useState<Record<string, boolean>>(
+    {}
+  );
+  const [settingsPanel, setSettingsPanel] = useState<
+    | "noise"
+    | "redaction"
+    | "llm"
+    | "audiences"
+    | "prompt"
+    | "usage"
+    | "patch"
+    | null
+  >(null);
+  const [prices, setPrices] = useState<ModelPrice[]>([]);
+  const [usageRevisions, setUsageRevisions] = useState<RevisionEntity[]>([]);
+  const [batchPlan, setBatchPlan] = useState<BatchPlan | null>(null);
+  const [rateLimit, setRateLimit] = useState<RateLimit | null>(null);
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  const [categories, setCategories] = useState<
+    Record<string, CategoryAssignment>
+  >({});
+  const [groupByCategory, setGroupByCategory] = useState(false);
+  // Revision range of a local checkout, e.g. "v1.2.0..HEAD"
+  const [gitRange, setGitRange] = useState("");
+  const filtering = hasActiveFilters(filters);
 
   const [openItems, setOpenItems] = useState<string[]>([]);
 
+  const currentRepositoryEntity = repository
+    ? repositories.find((r) => r.slug === repositoryId(repository))
+    : undefined;
+  const noiseFilter = useMemo(
+    () => normalizeNoiseFilter(currentRepositoryEntity?.noiseFilter),
+    [currentRepositoryEntity]
+  );
+  const redactionConfig = useMemo(
+    () => normalizeRedactionConfig(currentRepositoryEntity?.redaction),
+    [currentRepositoryEntity]
+  );
+
+  const enabledAudiences = useMemo(
+    () => audiences.filter((a) => a.enabled),
+    [audiences]
+  );
+  const activePrompt: PromptTemplate =
+    promptVersions.find(
+      (v) => v.id === currentRepositoryEntity?.promptVersionId
+    ) ?? BUILT_IN_PROMPT;
+  const hasNotes = (id: string) =>
+    enabledAudiences.some((a) => generatedSummaries[id]?.[a.id]);
+
+  const refreshRepositories = async () => {
+    try {
+      setRepositories(
+        await db.repositories.orderBy("lastUsedAt").reverse().toArray()
+      );
+    } catch (err) {
+      console.error("Failed to load repositories", err);
+    }
+  };
+
+  const loadStoredDiffs = async (ref: RepositoryRef) => {
+    try {
+      const [storedDiffs, storedSummaryRows] = await Promise.all([
+        getRepositoryPullRequests(ref),
+        getRepositorySummaries(ref),
+      ]);
+      if (activeRepositoryRef.current !== repositoryId(ref)) return;
+
+      setIncludeNoise(
+        Object.fromEntries(
+          storedDiffs
+            .filter((d) => d.includeNoise)
+            .map((d) => [d.number.toString(), true])
+        )
+      );
+      setReviewStatus(
+        Object.fromEntries(
+          storedDiffs
+            .filter((d) => d.reviewStatus)
+            .map((d) => [d.number.toString(), d.reviewStatus!])
+        )
+      );
+      setCategories(
+        Object.fromEntries(
+          storedDiffs.flatMap((d) => {
+            const assignment: CategoryAssignment | null = d.category
+              ? { category: d.category, source: d.categorySource ?? "manual" }
+              : classifyPullRequest({
+                  title: d.description,
+                  labels: d.labels,
+                  paths: pathsOf(d),
+                });
+            return assignment ? [[d.number.toString(), assignment]] : [];
+          })
+        )
+      );
+      setDiffs(
+        storedDiffs.map((d) => ({
+          id: d.number.toString(),
+          description: d.description,
+          diff: d.diff,
+          url: d.url,
+          mergedAt: d.mergedAt,
+          author: d.author,
+          labels: d.labels,
+          body: d.body,
+          baseBranch: d.baseBranch,
+          additions: d.additions,
+          deletions: d.deletions,
+          files: d.files,
+          linkedIssues: d.linkedIssues,
+          commit: d.commit,
+          manual: d.manual,
+        }))
+      );
+
+      const storedSummaries: Record<string, Record<string, string>> = {};
+      const storedCoverage: Record<string, DiffCoverage> = {};
+      const storedRevisionIds: Record<string, number> = {};
+      const storedEdits: Record<string, string[]> = {};
+      const storedIncomplete: Record<string, string[]> = {};
+      storedSummaryRows.forEach((s) => {
+        storedSummaries[s.number.toString()] = s.notes;
+        if (s.revisionId) storedRevisionIds[s.number.toString()] = s.revisionId;
+        if (s.coverage) storedCoverage[s.number.toString()] = s.coverage;
+        if (s.editedAudiences?.length) {
+          storedEdits[s.number.toString()] = s.editedAudiences;
+        }
+        if (s.incompleteAudiences?.length) {
+          storedIncomplete[s.number.toString()] = s.incompleteAudiences;
+        }
+      });
+      setGeneratedSummaries(storedSummaries);
+      setSummaryCoverage(storedCoverage);
+      setCurrentRevisions(storedRevisionIds);
+      setEditedNotes(storedEdits);
+      setIncompleteNotes(storedIncomplete);
+      if (storedDiffs.length) setInitialFetchDone(true);
+    } catch (err) {
+      console.error("Failed to load stored diffs", err);
+    }
+  };
+
+  const resetWorkspaceState = () => {
+    queue.cancelAll();
+    setDiffs([]);
+    setGeneratedSummaries({});
+    setLoadingSummaries({});
+    setSummaryErrors({});
+    setSummaryCoverage({});
+    setSummaryWarnings({});
+    setIncludeNoise({});
+    setSettingsPanel(null);
+    setBatchPlan(null);
+    setComparingId(null);
+    setHistoryId(null);
+    setRevisions({});
+    setCurrentRevisions({});
+    setEditedNotes({});
+    setIncompleteNotes({});
+    setReviewStatus({});
+    setCategories({});
+    setForceRegenerate(false);
+    setOpenItems([]);
+    setError(null);
+    setNextCursor(null);
+    setInitialFetchDone(false);
+  };
+
   useEffect(() => {
+    const stored = parseInt(
+      localStorage.getItem(CONCURRENCY_STORAGE_KEY) ?? "",
+      10
+    );
+    if (stored > 0) {
+      setConcurrency(stored);
+      queue.setConcurrency(stored);
+    }
+  }, [queue]);
+
+  // Filters and the repository live in the query string so a filtered view
+  // can be bookmarked
+  useEffect(() => {
+    setFilters(filtersFromQueryString(window.location.search));
+  }, []);
+
+  useEffect(() => {
+    getAudiences()
+      .then(setAudiences)
+      .catch((err) => console.error("Failed to load audiences", err));
+    getPromptVersions()
+      .then(setPromptVersions)
+      .catch((err) => console.error("Failed to load prompt versions", err));
+    getPrices()
+      .then(setPrices)
+      .catch((err) => console.error("Failed to load prices", err));
     (async () => {
       try {
-        const storedDiffs = await db.diffs.toArray();
-        if (storedDiffs.length) {
-          setDiffs(storedDiffs as unknown as DiffItem[]);
-
-          const storedSummaries: Record<
-            string,
-            { developer: string; marketing: string }
-          > = {};
-          storedDiffs.forEach((d: DiffEntity) => {
-            if (d.summaryDeveloper || d.summaryMarketing) {
-              storedSummaries[d.id] = {
-                developer: d.summaryDeveloper || "",
-                marketing: d.summaryMarketing || "",
-              };
-            }
-          });
-          setGeneratedSummaries(storedSummaries);
+        // A bookmarked view opens the repository it was made in
+        const initial = await openingRepository(
+          repositoryFromQueryString(window.location.search)
+        );
+        await refreshRepositories();
+        if (initial) {
+          const ref: RepositoryRef = {
+            provider: initial.provider,
+            owner: initial.owner,
+            repo: initial.repo,
+          };
+          activeRepositoryRef.current = initial.slug;
+          setRepository(ref);
+          setGitRange(initial.range ?? "");
+          await loadStoredDiffs(ref);
         }
       } catch (err) {
         console.error("Failed to load stored diffs", err);
@@ -79,6 +479,288 @@ export default function Home() {
     })();
   }, []);
 
+  // The repository goes into the query string next to the filters
+  useEffect(() => {
+    if (!repository) return;
+    const { pathname, search, hash } = window.location;
+    window.history.replaceState(
+      null,
+      "",
+      `${pathname}${repositoryToQueryString(repository, search)}${hash}`
+    );
+  }, [repository]);
+
+  const handleSelectRepository = async (
+    ref: RepositoryRef,
+    baseUrl?: string
+  ) => {
+    const slug = repositoryId(ref);
+    if (repository && slug === repositoryId(repository)) return;
+    activeRepositoryRef.current = slug;
+    setRepository(ref);
+    resetWorkspaceState();
+    try {
+      const entity = await touchRepository(ref, baseUrl);
+      setGitRange(entity.range ?? "");
+    } catch (e) {
+      console.error("Failed to save repository", e);
+    }
+    await refreshRepositories();
+    await loadStoredDiffs(ref);
+  };
+
+  // Pasted patches become entries of the current repository, next to its PRs
+  const handleImportPatches = async (patches: ParsedPatch[]) => {
+    const ref = repository ?? DEFAULT_REPOSITORY;
+    const items: DiffItem[] = patches.map((p) => ({
+      id: patchNumber(p).toString(),
+      description: p.title,
+      diff: p.diff,
+      url: "",
+      mergedAt: p.date,
+      author: p.author,
+      labels: [],
+      manual: true,
+      ...detailsFromDiff(p.diff, { body: p.body || null }, () => ""),
+    }));
+    const ids = new Set(items.map((d) => d.id));
+    setDiffs((prev) => [...items, ...prev.filter((d) => !ids.has(d.id))]);
+    setSettingsPanel(null);
+    try {
+      if (!repository) {
+        activeRepositoryRef.current = repositoryId(ref);
+        setRepository(ref);
+      }
+      await touchRepository(ref);
+      await refreshRepositories();
+      const existing = await db.pullRequests.bulkGet(
+        items.map((d) => pullRequestKey(ref, parseInt(d.id, 10)))
+      );
+      const assignments = items.map((d, i) => {
+        const stored = existing[i];
+        return stored?.category && isSticky(stored)
+          ? { category: stored.category, source: stored.categorySource! }
+          : classifyPullRequest({
+              title: d.description,
+              labels: [],
+              paths: pathsOf(d),
+            });
+      });
+      setCategories((prev) => {
+        const next = { ...prev };
+        items.forEach((d, i) => {
+          const assignment = assignments[i];
+          if (assignment) next[d.id] = assignment;
+          else delete next[d.id];
+        });
+        return next;
+      });
+      const entities: PullRequestEntity[] = items.map((d, i) => ({
+        ...existing[i],
+        ...ref,
+        number: parseInt(d.id, 10),
+        description: d.description,
+        diff: d.diff,
+        url: d.url,
+        mergedAt: d.mergedAt,
+        author: d.author,
+        labels: [],
+        body: d.body,
+        baseBranch: null,
+        additions: d.additions,
+        deletions: d.deletions,
+        files: d.files,
+        linkedIssues: d.linkedIssues,
+        manual: true,
+        category: assignments[i]?.category,
+        categorySource: assignments[i]?.source,
+        fetchedAt: Date.now(),
+      }));
+      await db.pullRequests.bulkPut(entities);
+    } catch (e) {
+      console.error("Failed to save pasted diffs", e);
+    }
+  };
+
+  const handleToggleFavorite = async (slug: string) => {
+    try {
+      const existing = await db.repositories.get(slug);
+      if (!existing) return;
+      await db.repositories.update(slug, { favorite: !existing.favorite });
+      await refreshRepositories();
+    } catch (e) {
+      console.error("Failed to update favorite", e);
+    }
+  };
+
+  const handleSaveNoiseFilter = async (config: NoiseFilterConfig) => {
+    if (!currentRepositoryEntity) return;
+    try {
+      await db.repositories.update(currentRepositoryEntity.slug, {
+        noiseFilter: config,
+      });
+      await refreshRepositories();
+      setSettingsPanel(null);
+    } catch (e) {
+      console.error("Failed to save noise filter", e);
+    }
+  };
+
+  const handleSaveRedaction = async (config: RedactionConfig) => {
+    if (!currentRepositoryEntity) return;
+    try {
+      await db.repositories.update(currentRepositoryEntity.slug, {
+        redaction: config,
+      });
+      await refreshRepositories();
+      setSettingsPanel(null);
+    } catch (e) {
+      console.error("Failed to save redaction rules", e);
+    }
+  };
+
+  const handleSaveLLM = async (selection: ProviderSelection | undefined) => {
+    if (!currentRepositoryEntity) return;
+    try {
+      await db.repositories.update(currentRepositoryEntity.slug, {
+        llm: selection,
+      });
+      await refreshRepositories();
+      setSettingsPanel(null);
+    } catch (e) {
+      console.error("Failed to save model settings", e);
+    }
+  };
+
+  const handleSaveAudiences = async (profiles: AudienceProfile[]) => {
+    try {
+      await db.transaction("rw", db.audiences, async () => {
+        await db.audiences.clear();
+        await db.audiences.bulkPut(profiles);
+      });
+      setAudiences(await getAudiences());
+      setSettingsPanel(null);
+    } catch (e) {
+      console.error("Failed to save audiences", e);
+    }
+  };
+
+  const handleToggleUsage = async () => {
+    if (settingsPanel === "usage") {
+      setSettingsPanel(null);
+      return;
+    }
+    try {
+      setUsageRevisions(await getUsageRevisions());
+      setSettingsPanel("usage");
+    } catch (e) {
+      console.error("Failed to load usage", e);
+    }
+  };
+
+  const handleSavePrices = async (rows: ModelPrice[]) => {
+    try {
+      await db.transaction("rw", db.prices, async () => {
+        await db.prices.clear();
+        await db.prices.bulkPut(rows);
+      });
+      setPrices(await getPrices());
+      setSettingsPanel(null);
+    } catch (e) {
+      console.error("Failed to save prices", e);
+    }
+  };
+
+  const handleSavePromptVersion = async (
+    template: PromptTemplate,
+    note: string
+  ): Promise<number> => {
+    const id = await db.promptVersions.add({
+      ...template,
+      note,
+      createdAt: Date.now(),
+    });
+    setPromptVersions(await getPromptVersions());
+    return id;
+  };
+
+  const handleActivatePrompt = async (id: number | undefined) => {
+    if (!currentRepositoryEntity) return;
+    try {
+      await db.repositories.update(currentRepositoryEntity.slug, {
+        promptVersionId: id,
+      });
+      await refreshRepositories();
+    } catch (e) {
+      console.error("Failed to save prompt version", e);
+    }
+  };
+
+  const handleReviewStatusChange = async (id: string, status: ReviewStatus) => {
+    setReviewStatus((prev) => ({ ...prev, [id]: status }));
+    if (!repository) return;
+    try {
+      await db.pullRequests.update(
+        pullRequestKey(repository, parseInt(id, 10)),
+        { reviewStatus: status }
+      );
+    } catch (e) {
+      console.error("Failed to save review status", e);
+    }
+  };
+
+  const handleCategoryChange = async (id: string, category: ReleaseCategory) => {
+    setCategories((prev) => ({
+      ...prev,
+      [id]: { category, source: "manual" },
+    }));
+    if (!repository) return;
+    try {
+      await db.pullRequests.update(
+        pullRequestKey(repository, parseInt(id, 10)),
+        { category, categorySource: "manual" }
+      );
+    } catch (e) {
+      console.error("Failed to save category", e);
+    }
+  };
+
+  // Keeps a category the user picked while the model was still answering
+  const handleSuggestedCategory = async (
+    id: string,
+    ref: RepositoryRef,
+    category: ReleaseCategory
+  ) => {
+    if (activeRepositoryRef.current === repositoryId(ref)) {
+      setCategories((prev) =>
+        prev[id]?.source === "manual"
+          ? prev
+          : { ...prev, [id]: { category, source: "llm" } }
+      );
+    }
+    try {
+      const key = pullRequestKey(ref, parseInt(id, 10));
+      const stored = await db.pullRequests.get(key);
+      if (!stored || stored.categorySource === "manual") return;
+      await db.pullRequests.update(key, { category, categorySource: "llm" });
+    } catch (e) {
+      console.error("Failed to save category", e);
+    }
+  };
+
+  const handleIncludeNoiseChange = async (id: string, value: boolean) => {
+    setIncludeNoise((prev) => ({ ...prev, [id]: value }));
+    if (!repository) return;
+    try {
+      await db.pullRequests.update(
+        pullRequestKey(repository, parseInt(id, 10)),
+        { includeNoise: value }
+      );
+    } catch (e) {
+      console.error("Failed to save noise override", e);
+    }
+  };
+
   const fetchWithTimeout = async (
     input: RequestInfo | URL,
     init: RequestInit = {},
@@ -86,6 +768,10 @@ export default function Home() {
   ) => {
     const controller = new AbortController();
     const id = setTimeout(() => controller.abort(), timeout);
+    // The caller's signal (e.g. the generation queue's) also aborts
+    init.signal?.addEventListener("abort", () => controller.abort(), {
+      once: true,
+    });
     try {
       const response = await fetch(input, {
         ...init,
@@ -97,12 +783,28 @@ export default function Home() {
     }
   };
 
-  const fetchDiffs = async (page: number) => {
+  // Without a cursor the list starts over with the latest merged PRs
+  const fetchDiffs = async (cursor: string | null) => {
+    const requestedRepository = repository;
     setIsLoading(true);
+    setLoadingMore(cursor !== null);
     setError(null);
     try {
+      const params = new URLSearchParams({ per_page: "10" });
+      if (cursor) params.set("cursor", cursor);
+      if (requestedRepository) {
+        params.set("provider", requestedRepository.provider);
+        params.set("owner", requestedRepository.owner);
+        params.set("repo", requestedRepository.repo);
+      }
+      if (currentRepositoryEntity?.baseUrl) {
+        params.set("base_url", currentRepositoryEntity.baseUrl);
+      }
+      if (requestedRepository?.provider === "local" && gitRange.trim()) {
+        params.set("range", gitRange.trim());
+      }
       const response = await fetchWithTimeout(
-        `/api/sample-diffs?page=${page}&per_page=10`,
+        `/api/sample-diffs?${params}`,
         {},
         30000
       );
@@ -111,6 +813,7 @@ export default function Home() {
         try {
           const errorData = await response.json();
           errorMsg = errorData.error || errorData.details || errorMsg;
+          if (errorData.rateLimit) setRateLimit(errorData.rateLimit);
         } catch {
           console.warn("Failed to parse error response as JSON");
         }
@@ -122,23 +825,89 @@ export default function Home() {
       } catch {
         throw new Error("Malformed JSON received from server");
       }
+      if (data.rateLimit) setRateLimit(data.rateLimit);
 
-      setDiffs((prevDiffs) =>
-        page === 1 ? data.diffs : [...prevDiffs, ...data.diffs]
-      );
+      // Ignore responses for a repository the user has since switched away from
+      if (
+        activeRepositoryRef.current !==
+        (requestedRepository && repositoryId(requestedRepository))
+      )
+        return;
+      const ref = data.repository;
+      if (!requestedRepository) {
+        activeRepositoryRef.current = repositoryId(ref);
+        setRepository(ref);
+      }
+      try {
+        await touchRepository(ref);
+        await refreshRepositories();
+      } catch (e) {
+        console.error("Failed to save repository", e);
+      }
+
+      // PRs updated since the last page moved up the list and can repeat
+      setDiffs((prevDiffs) => {
+        // Pasted diffs stay at the top
+        if (!cursor) {
+          return [...prevDiffs.filter((d) => d.manual), ...data.diffs];
+        }
+        const seen = new Set(prevDiffs.map((d) => d.id));
+        return [...prevDiffs, ...data.diffs.filter((d) => !seen.has(d.id))];
+      });
 
       try {
-        const entities: DiffEntity[] = data.diffs.map((d) => ({
-          ...d,
+        const existing = await db.pullRequests.bulkGet(
+          data.diffs.map((d) => pullRequestKey(ref, parseInt(d.id, 10)))
+        );
+        const assignments = data.diffs.map((d, i) => {
+          const stored = existing[i];
+          return stored?.category && isSticky(stored)
+            ? { category: stored.category, source: stored.categorySource! }
+            : classifyPullRequest({
+                title: d.description,
+                labels: d.labels,
+                paths: pathsOf(d),
+              });
+        });
+        setCategories((prev) => {
+          const next = { ...prev };
+          data.diffs.forEach((d, i) => {
+            const assignment = assignments[i];
+            if (assignment) next[d.id] = assignment;
+            else delete next[d.id];
+          });
+          return next;
+        });
+        const entities: PullRequestEntity[] = data.diffs.map((d, i) => ({
+          ...existing[i],
+          ...ref,
+          number: parseInt(d.id, 10),
+          description: d.description,
+          diff: d.diff,
+          url: d.url,
+          mergedAt: d.mergedAt,
+          author: d.author,
+          labels: d.labels ?? [],
+          body: d.body,
+          baseBranch: d.baseBranch,
+          additions: d.additions,
+          deletions: d.deletions,
+          files: d.files,
+          linkedIssues: d.linkedIssues,
+          commit: d.commit,
+          category: assignments[i]?.category,
+          categorySource: assignments[i]?.source,
           fetchedAt: Date.now(),
         }));
-        await db.diffs.bulkPut(entities);
+        // A diff that couldn't be read doesn't replace the stored one
+        await db.pullRequests.bulkPut(
+          entities.filter((_, i) => !data.diffs[i].diffError)
+        );
       } catch (e) {
         console.error("Failed to persist diffs", e);
       }
 
-      setCurrentPage(data.currentPage);
-      setNextPage(data.nextPage);
+      setNextCursor(data.nextCursor);
       if (!initialFetchDone) setInitialFetchDone(true);
     } catch (err: unknown) {
       setError(
@@ -146,16 +915,97 @@ export default function Home() {
       );
     } finally {
       setIsLoading(false);
+      setLoadingMore(false);
     }
   };
 
-  const fetchAIGeneratedDiff = async (diff: DiffItem) => {
-    setGeneratedSummaries((prev) => ({
+  // Body of /api/ai-generated-diff shared by generation and prompt comparison
+  const buildGenerationRequest = (diff: DiffItem, ref: RepositoryRef) => ({
+    diffItem: diff,
+    repository: repositoryLabel(ref),
+    noiseFilter,
+    includeNoise: includeNoise[diff.id] ?? false,
+    redaction: redactionConfig,
+    llm: currentRepositoryEntity?.llm,
+    audiences: enabledAudiences.length ? enabledAudiences : DEFAULT_AUDIENCES,
+  });
+
+  // Stores a revision and makes it the PR's current notes
+  const commitRevision = async (id: string, revision: RevisionEntity) => {
+    const ref: RepositoryRef = {
+      provider: revision.provider,
+      owner: revision.owner,
+      repo: revision.repo,
+    };
+    const revisionId = await db.transaction(
+      "rw",
+      db.revisions,
+      db.summaries,
+      async () => {
+        const newId = await db.revisions.add(revision);
+        await db.summaries.put({
+          ...ref,
+          number: revision.number,
+          notes: revision.notes,
+          updatedAt: revision.createdAt,
+          coverage: revision.coverage,
+          revisionId: newId,
+          editedAudiences: revision.editedAudiences,
+          incompleteAudiences: revision.incompleteAudiences,
+        });
+        return newId;
+      }
+    );
+    if (activeRepositoryRef.current !== repositoryId(ref)) return;
+    setGeneratedSummaries((prev) => ({ ...prev, [id]: revision.notes }));
+    setEditedNotes((prev) => ({
+      ...prev,
+      [id]: revision.editedAudiences ?? [],
+    }));
+    setIncompleteNotes((prev) => ({
       ...prev,
-      [diff.id]: { developer: "", marketing: "" },
+      [id]: revision.incompleteAudiences ?? [],
     }));
+    setCurrentRevisions((prev) => ({ ...prev, [id]: revisionId }));
+    setRevisions((prev) =>
+      prev[id]
+        ? { ...prev, [id]: [{ ...revision, id: revisionId }, ...prev[id]] }
+        : prev
+    );
+  };
+
+  // `audienceIds` limits the generation to some of the enabled audiences
+  // Throws when the generation failed so the queue can count or retry it
+  const fetchAIGeneratedDiff = async (
+    diff: DiffItem,
+    audienceIds?: string[],
+    signal?: AbortSignal
+  ) => {
+    const ref = repository ?? DEFAULT_REPOSITORY;
+    const slug = repositoryId(ref);
+    const number = parseInt(diff.id, 10);
+    const enabled = enabledAudiences.length
+      ? enabledAudiences
+      : DEFAULT_AUDIENCES;
+    const selectedAudiences = audienceIds
+      ? enabled.filter((a) => audienceIds.includes(a.id))
+      : enabled;
+    // The current notes stay visible until new text streams in, and come back
+    // if the generation fails. Unselected audiences keep their notes.
+    const previous = generatedSummaries[diff.id] ?? {};
+    const prompt = activePrompt;
+    const promptVersionId =
+      currentRepositoryEntity?.promptVersionId ?? BUILT_IN_PROMPT_ID;
+    const values: Record<string, string> = Object.fromEntries(
+      selectedAudiences.map((a) => [a.id, ""])
+    );
+    const restorePrevious = () => {
+      if (activeRepositoryRef.current !== slug) return;
+      setGeneratedSummaries((prev) => ({ ...prev, [diff.id]: previous }));
+    };
     setLoadingSummaries((prev) => ({ ...prev, [diff.id]: true }));
     setSummaryErrors((prev) => ({ ...prev, [diff.id]: "" }));
+    setSummaryWarnings((prev) => ({ ...prev, [diff.id]: [] }));
 
     let response: Response;
     try {
@@ -166,19 +1016,28 @@ export default function Home() {
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({ diffItem: diff }),
+          body: JSON.stringify({
+            ...buildGenerationRequest(diff, ref),
+            audiences: selectedAudiences,
+            prompt: { system: prompt.system, user: prompt.user },
+            // The model only classifies what the heuristics couldn't
+            classify: !categories[diff.id],
+          }),
+          signal,
         },
         60000
       );
     } catch (err) {
+      setLoadingSummaries((prev) => ({ ...prev, [diff.id]: false }));
+      restorePrevious();
+      if (signal?.aborted) throw err;
       const message =
         err instanceof Error && err.name === "AbortError"
           ? "Request timed out. Please try again."
           : (err as Error)?.message || "Failed to fetch AI generated summary.";
       console.error("AI generation error:", message);
       setSummaryErrors((prev) => ({ ...prev, [diff.id]: message }));
-      setLoadingSummaries((prev) => ({ ...prev, [diff.id]: false }));
-      return;
+      throw new Error(message);
     }
 
     if (!response.ok || !response.body) {
@@ -188,137 +1047,584 @@ export default function Home() {
         errorMsg = errJson.error || errJson.details || errorMsg;
       } catch {}
       console.error(errorMsg);
-      setSummaryErrors((prev) => ({ ...prev, [diff.id]: errorMsg }));
       setLoadingSummaries((prev) => ({ ...prev, [diff.id]: false }));
-      return;
+      restorePrevious();
+      setSummaryErrors((prev) => ({ ...prev, [diff.id]: errorMsg }));
+      if (RETRYABLE_STATUSES.includes(response.status)) {
+        throw new RetryableError(
+          errorMsg,
+          parseRetryAfter(response.headers.get("Retry-After"))
+        );
+      }
+      throw new Error(errorMsg);
     }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
+    let coverage: DiffCoverage | undefined;
+    try {
+      const coverageHeader = response.headers.get("X-Diff-Coverage");
+      if (coverageHeader) coverage = JSON.parse(coverageHeader);
+    } catch {
+      console.warn("Failed to parse diff coverage header");
+    }
+    if (coverage && activeRepositoryRef.current === slug) {
+      const covered = coverage;
+      setSummaryCoverage((prev) => ({ ...prev, [diff.id]: covered }));
+    }
 
-    let accumulated = "";
+    // Maps tool fields to the audience ids used in state and Dexie
+    const fieldKeys: Record<string, string> = Object.fromEntries(
+      selectedAudiences.map((a) => [audienceField(a.id), a.id])
+    );
+    // Audience ids whose note the model finished
+    const completed = new Set<string>();
+    let usage: GenerationUsage | undefined;
+    let finished = false;
+    let failed = false;
 
-    let finalDeveloper = "";
-    let finalMarketing = "";
+    // Notes are only stored once the generation completed or was stopped
+    const publish = () => {
+      if (activeRepositoryRef.current !== slug) return;
+      const snapshot = { ...previous };
+      Object.entries(values).forEach(([id, text]) => {
+        if (text) snapshot[id] = text;
+      });
+      setGeneratedSummaries((prev) => ({ ...prev, [diff.id]: snapshot }));
+    };
 
     try {
-      while (true) {
-        const { value, done } = await reader.read();
-        if (done) break;
-        const chunk = decoder.decode(value);
-        accumulated += chunk;
-
-        const devMatch = accumulated.match(/"developer_notes":"([^\"]*)/);
-        const mktMatch = accumulated.match(/"marketing_notes":"([^\"]*)/);
-
-        finalDeveloper = devMatch ? devMatch[1] : finalDeveloper;
-        finalMarketing = mktMatch ? mktMatch[1] : finalMarketing;
-
-        setGeneratedSummaries((prev) => {
-          const updated = {
-            ...prev,
-            [diff.id]: {
-              developer: finalDeveloper || prev[diff.id]?.developer || "",
-              marketing: finalMarketing || prev[diff.id]?.marketing || "",
-            },
-          };
-          db.diffs
-            .update(diff.id, {
-              summaryDeveloper: updated[diff.id].developer,
-              summaryMarketing: updated[diff.id].marketing,
-              summaryUpdatedAt: Date.now(),
-            })
-            .catch((e) => console.warn("Dexie partial save failed", e));
-          return updated;
-        });
+      for await (const event of readStreamEvents(response.body)) {
+        switch (event.type) {
+          case "field-delta":
+            if (fieldKeys[event.field]) {
+              values[fieldKeys[event.field]] += event.text;
+              publish();
+            }
+            break;
+          case "field-complete":
+            if (fieldKeys[event.field]) {
+              values[fieldKeys[event.field]] = event.value;
+              completed.add(fieldKeys[event.field]);
+              publish();
+            }
+            break;
+          case "usage":
+            usage = {
+              promptTokens: event.promptTokens,
+              completionTokens: event.completionTokens,
+              estimated: event.estimated,
+            };
+            break;
+          case "category":
+            handleSuggestedCategory(diff.id, ref, event.category);
+            break;
+          case "warning":
+            setSummaryWarnings((prev) => ({
+              ...prev,
+              [diff.id]: [...(prev[diff.id] ?? []), event.message],
+            }));
+            break;
+          case "error":
+            finished = true;
+            failed = true;
+            setSummaryErrors((prev) => ({ ...prev, [diff.id]: event.message }));
+            break;
+          case "done":
+            finished = true;
+            break;
+        }
+      }
+      if (!finished) {
+        throw new Error("The AI stream ended unexpectedly.");
       }
     } catch (streamErr) {
       const message =
         (streamErr as Error).message || "Error while reading AI stream.";
-      console.error(message);
-      setSummaryErrors((prev) => ({ ...prev, [diff.id]: message }));
+      failed = true;
+      if (!signal?.aborted) {
+        console.error(message);
+        setSummaryErrors((prev) => ({ ...prev, [diff.id]: message }));
+      }
     }
 
+    // A stopped generation keeps the text it got so far
+    const stopped = failed && !!signal?.aborted;
+    const partial = stopped && Object.values(values).some(Boolean);
+    if (failed && !partial) {
+      restorePrevious();
+      setLoadingSummaries((prev) => ({ ...prev, [diff.id]: false }));
+      throw new Error(stopped ? "Generation stopped." : "Generation failed.");
+    }
+
+    // Audiences that got no text before the stop keep their previous note
+    const written = Object.keys(values).filter((id) => !partial || values[id]);
+    const revision: RevisionEntity = {
+      ...ref,
+      number,
+      notes: {
+        ...previous,
+        ...Object.fromEntries(written.map((id) => [id, values[id]])),
+      },
+      llmProvider: response.headers.get("X-LLM-Provider") ?? "unknown",
+      model: response.headers.get("X-LLM-Model") ?? "unknown",
+      promptVersionId,
+      createdAt: Date.now(),
+      coverage,
+      editedAudiences: (editedNotes[diff.id] ?? []).filter(
+        (id) => !written.includes(id)
+      ),
+      incompleteAudiences: [
+        ...(incompleteNotes[diff.id] ?? []).filter(
+          (id) => !written.includes(id)
+        ),
+        ...written.filter((id) => partial && !completed.has(id)),
+      ],
+      usage,
+    };
     try {
-      await db.diffs.update(diff.id, {
-        summaryDeveloper: finalDeveloper,
-        summaryMarketing: finalMarketing,
-        summaryUpdatedAt: Date.now(),
-      });
+      await commitRevision(diff.id, revision);
     } catch (e) {
       console.error("Failed to store summary", e);
     }
+    // Approved text changed, so it needs another look
+    if (reviewStatus[diff.id] === "approved") {
+      handleReviewStatusChange(diff.id, "needs-review");
+    }
 
     setLoadingSummaries((prev) => ({ ...prev, [diff.id]: false }));
   };
 
-  const handleFetchClick = () => {
-    setDiffs([]);
-    fetchDiffs(1);
+  // Jobs run later; the ref gives them the state of the render they run in
+  const generateRef = useRef(fetchAIGeneratedDiff);
+  generateRef.current = fetchAIGeneratedDiff;
+
+  const enqueueGeneration = (
+    diff: DiffItem,
+    options: { audienceIds?: string[]; priority?: boolean } = {}
+  ) =>
+    queue.enqueue(
+      diff.id,
+      (signal) => generateRef.current(diff, options.audienceIds, signal),
+      { priority: options.priority }
+    );
+
+  const isQueued = (id: string) => {
+    const status = queueProgress?.jobs[id]?.status;
+    return status === "queued" || status === "waiting";
   };
 
-  const handleLoadMoreClick = () => {
-    if (nextPage) {
-      fetchDiffs(nextPage);
+  const handleConcurrencyChange = (value: number) => {
+    setConcurrency(value);
+    queue.setConcurrency(value);
+    try {
+      localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(value));
+    } catch {}
+  };
+
+  const handleToggleHistory = async (id: string) => {
+    if (historyId === id) {
+      setHistoryId(null);
+      return;
+    }
+    const ref = repository ?? DEFAULT_REPOSITORY;
+    try {
+      const rows = await getRevisions(ref, parseInt(id, 10));
+      if (activeRepositoryRef.current !== repositoryId(ref)) return;
+      setRevisions((prev) => ({ ...prev, [id]: rows }));
+      setHistoryId(id);
+    } catch (e) {
+      console.error("Failed to load revisions", e);
     }
   };
 
-  const handleGenerateAllClick = () => {
-    const allIds = diffs.map((d) => d.id);
+  const handleRestoreRevision = async (
+    id: string,
+    revision: RevisionEntity
+  ) => {
+    const revisionId = revision.id;
+    if (revisionId === undefined || loadingSummaries[id]) return;
+    const ref = repository ?? DEFAULT_REPOSITORY;
+    try {
+      await db.summaries.put({
+        ...ref,
+        number: revision.number,
+        notes: revision.notes,
+        updatedAt: Date.now(),
+        coverage: revision.coverage,
+        revisionId,
+        editedAudiences: revision.editedAudiences,
+        incompleteAudiences: revision.incompleteAudiences,
+      });
+      setGeneratedSummaries((prev) => ({ ...prev, [id]: revision.notes }));
+      setEditedNotes((prev) => ({
+        ...prev,
+        [id]: revision.editedAudiences ?? [],
+      }));
+      setIncompleteNotes((prev) => ({
+        ...prev,
+        [id]: revision.incompleteAudiences ?? [],
+      }));
+      setCurrentRevisions((prev) => ({ ...prev, [id]: revisionId }));
+      if (revision.coverage) {
+        const covered = revision.coverage;
+        setSummaryCoverage((prev) => ({ ...prev, [id]: covered }));
+      }
+    } catch (e) {
+      console.error("Failed to restore revision", e);
+    }
+  };
 
-    if (allGenerated) {
-      setOpenItems(allIds);
-      diffs.forEach((diff) => {
-        if (!loadingSummaries[diff.id]) {
-          fetchAIGeneratedDiff(diff);
-        }
+  const handleSaveNote = async (
+    id: string,
+    audienceId: string,
+    text: string
+  ) => {
+    const ref = repository ?? DEFAULT_REPOSITORY;
+    const edited = editedNotes[id] ?? [];
+    try {
+      const current =
+        currentRevisions[id] !== undefined
+          ? await db.revisions.get(currentRevisions[id])
+          : undefined;
+      await commitRevision(id, {
+        ...ref,
+        number: parseInt(id, 10),
+        notes: { ...generatedSummaries[id], [audienceId]: text },
+        llmProvider: "manual",
+        model: "hand edit",
+        promptVersionId: current?.promptVersionId ?? BUILT_IN_PROMPT_ID,
+        createdAt: Date.now(),
+        coverage: summaryCoverage[id],
+        editedAudiences: edited.includes(audienceId)
+          ? edited
+          : [...edited, audienceId],
+        incompleteAudiences: (incompleteNotes[id] ?? []).filter(
+          (a) => a !== audienceId
+        ),
       });
-    } else {
-      handleAccordionChange(allIds);
+    } catch (e) {
+      console.error("Failed to save note", e);
+    }
+  };
+
+  const handleFiltersChange = (next: SearchFilters) => {
+    setFilters(next);
+    const { pathname, search, hash } = window.location;
+    window.history.replaceState(
+      null,
+      "",
+      `${pathname}${filtersToQueryString(next, search)}${hash}`
+    );
+  };
+
+  const handleFetchClick = () => {
+    setDiffs((prev) => prev.filter((d) => d.manual));
+    fetchDiffs(null);
+    if (repository?.provider === "local") {
+      db.repositories
+        .update(repositoryId(repository), {
+          range: gitRange.trim() || undefined,
+        })
+        .then(refreshRepositories)
+        .catch((e) => console.error("Failed to save range", e));
+    }
+  };
+
+  // Infinite scroll: the next page loads once the end of the list is near.
+  // After a failed load, only the retry button loads again.
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const loadMoreRef = useRef(() => {});
+  loadMoreRef.current = () => {
+    // Filtered lists can stay short; don't page through the whole history
+    if (nextCursor && !isLoading && !error && !filtering) {
+      fetchDiffs(nextCursor);
     }
   };
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) loadMoreRef.current();
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+    // A new observer reports the sentinel again if it stayed in view
+  }, [nextCursor, isLoading, filtering]);
+
+  // Model the repository generates with, for pricing; "" if unknown
+  const resolveModel = async (): Promise<string> => {
+    const selection = currentRepositoryEntity?.llm;
+    if (selection?.model) return selection.model;
+    try {
+      const response = await fetch("/api/llm-providers");
+      if (!response.ok) return "";
+      const data = (await response.json()) as {
+        defaultProvider: ProviderId;
+        providers: { id: ProviderId; defaultModel: string }[];
+      };
+      const id = selection?.provider ?? data.defaultProvider;
+      return data.providers.find((p) => p.id === id)?.defaultModel ?? "";
+    } catch {
+      return "";
+    }
+  };
+
+  const estimateJob = (diff: DiffItem, audienceIds?: string[]) => {
+    const enabled = enabledAudiences.length
+      ? enabledAudiences
+      : DEFAULT_AUDIENCES;
+    const selected = audienceIds
+      ? enabled.filter((a) => audienceIds.includes(a.id))
+      : enabled;
+    const text = includeNoise[diff.id]
+      ? diff.diff
+      : filterDiffNoise(diff.diff, noiseFilter).diff;
+    const prompt = renderTemplate(
+      `${activePrompt.system}\n${activePrompt.user}`,
+      {
+        title: diff.description,
+        body: diff.body ?? "",
+        repo: repositoryLabel(repository ?? DEFAULT_REPOSITORY),
+        author: diff.author ?? "",
+        branch: diff.baseBranch ?? "",
+        labels: diff.labels?.join(", ") ?? "",
+        issues: formatLinkedIssues(diff.linkedIssues ?? []),
+        diff: "",
+        audiences: formatAudiences(selected),
+      }
+    );
+    return estimateGenerationUsage(
+      text,
+      prompt,
+      selected.map((a) => a.maxWords)
+    );
+  };
+
+  const startBatch = (jobs: BatchPlan["jobs"]) => {
+    setBatchPlan(null);
+    setOpenItems(diffs.map((d) => d.id));
+    jobs.forEach(({ diff, audienceIds }) =>
+      enqueueGeneration(diff, { audienceIds })
+    );
+  };
 
+  // Batches start after their estimated cost was confirmed
+  const handleGenerateAllClick = async () => {
+    const jobs: BatchPlan["jobs"] = [];
+    diffs.forEach((diff) => {
+      if (loadingSummaries[diff.id] || isQueued(diff.id)) return;
+      if (reviewStatus[diff.id] === "excluded") return;
+      // Nothing to summarize until the diff is fetched again
+      if (diff.diffError) return;
+      // The server would refuse them; their report says why
+      if (redactedPullRequests[diff.id]?.blocked.length) return;
+      if (!allGenerated) {
+        if (!hasNotes(diff.id)) jobs.push({ diff });
+        return;
+      }
+      if (forceRegenerate) {
+        jobs.push({ diff });
+        return;
+      }
+      // Approved PRs and hand-edited notes are kept unless forced
+      if (reviewStatus[diff.id] === "approved") return;
+      const edited = editedNotes[diff.id] ?? [];
+      const audienceIds = enabledAudiences
+        .map((a) => a.id)
+        .filter((a) => !edited.includes(a));
+      if (audienceIds.length) jobs.push({ diff, audienceIds });
+    });
+    if (!jobs.length) {
+      startBatch(jobs);
+      return;
+    }
+    setBatchPlan({
+      jobs,
+      usage: jobs.reduce(
+        (total, job) => addUsage(total, estimateJob(job.diff, job.audienceIds)),
+        EMPTY_USAGE
+      ),
+      model: await resolveModel(),
+    });
+  };
+
+  // Excluded PRs don't need notes
+  const releaseDiffs = diffs.filter((d) => reviewStatus[d.id] !== "excluded");
+  const protectedCount = releaseDiffs.filter(
+    (d) => reviewStatus[d.id] === "approved" || editedNotes[d.id]?.length
+  ).length;
   const allGenerated =
-    diffs.length > 0 &&
-    diffs.every(
+    releaseDiffs.length > 0 &&
+    releaseDiffs.every(
       (d) =>
-        generatedSummaries[d.id]?.developer &&
-        generatedSummaries[d.id]?.marketing &&
+        enabledAudiences.every((a) => generatedSummaries[d.id]?.[a.id]) &&
         !loadingSummaries[d.id]
     );
 
+  const changedPaths = useMemo(
+    () => Object.fromEntries(diffs.map((d) => [d.id, pathsOf(d)])),
+    [diffs]
+  );
+  // What the route sends: noise is left out unless the PR includes it, and
+  // secrets are redacted
+  const redactedPullRequests = useMemo(
+    () =>
+      Object.fromEntries(
+        diffs.map((d) => [
+          d.id,
+          redactPullRequest(
+            {
+              title: d.description,
+              body: d.body,
+              issues: formatLinkedIssues(d.linkedIssues ?? []),
+              diff: includeNoise[d.id]
+                ? d.diff
+                : filterDiffNoise(d.diff, noiseFilter).diff,
+            },
+            redactionConfig
+          ),
+        ])
+      ),
+    [diffs, includeNoise, noiseFilter, redactionConfig]
+  );
+  const breakingChanges = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(redactedPullRequests).map(([id, pr]) => [
+          id,
+          detectBreakingChanges(pr.diff),
+        ])
+      ),
+    [redactedPullRequests]
+  );
+  const hasQuery = tokenize(filters.q).length > 0;
+  const pullRequestDocuments = useMemo(
+    () =>
+      Object.fromEntries(
+        diffs.map((d): [string, SearchDocument] => [
+          d.id,
+          {
+            id: d.id,
+            title: d.description,
+            body: d.body ?? "",
+            paths: changedPaths[d.id].join("\n"),
+            diff: d.diff,
+          },
+        ])
+      ),
+    [diffs, changedPaths]
+  );
+  // Notes change while they stream in, so they get their own small index
+  const notesDocuments = useMemo(
+    () =>
+      Object.entries(generatedSummaries).map(([id, notes]) => ({
+        id,
+        notes: Object.values(notes).join("\n"),
+      })),
+    [generatedSummaries]
+  );
+  const pullRequestIndex = useMemo(
+    () =>
+      hasQuery ? buildSearchIndex(Object.values(pullRequestDocuments)) : null,
+    [hasQuery, pullRequestDocuments]
+  );
+  const notesIndex = useMemo(
+    () => (hasQuery ? buildSearchIndex(notesDocuments) : null),
+    [hasQuery, notesDocuments]
+  );
+  const searchScores =
+    pullRequestIndex && notesIndex
+      ? searchIndexes([pullRequestIndex, notesIndex], filters.q)
+      : null;
+
+  const statesOf = (id: string): PullRequestState[] => {
+    const states: PullRequestState[] = [
+      hasNotes(id) ? "summarized" : "not-summarized",
+    ];
+    const review = reviewStatus[id];
+    if (review && review !== "draft") states.push(review);
+    if (summaryErrors[id]) states.push("failed");
+    return states;
+  };
+  // Best matches first while searching
+  const visibleDiffs = filtering
+    ? diffs
+        .filter(
+          (d) =>
+            (!searchScores || searchScores.has(d.id)) &&
+            matchesFilters(
+              { ...d, paths: changedPaths[d.id], states: statesOf(d.id) },
+              filters
+            )
+        )
+        .sort((a, b) =>
+          searchScores
+            ? searchScores.get(b.id)! - searchScores.get(a.id)!
+            : 0
+        )
+    : diffs;
+  const searchSnippets = Object.fromEntries(
+    hasQuery
+      ? visibleDiffs.map((d) => [
+          d.id,
+          matchSnippet(
+            {
+              ...pullRequestDocuments[d.id],
+              notes: Object.values(generatedSummaries[d.id] ?? {}).join("\n"),
+            },
+            filters.q
+          ),
+        ])
+      : []
+  );
+  // Sections in release-notes order, uncategorized PRs last
+  const groupOf = (item?: DiffItem) =>
+    item ? (categories[item.id]?.category ?? null) : undefined;
+  const groupTitle = (group: ReleaseCategory | null | undefined) =>
+    group ? RELEASE_CATEGORIES[group] : "Uncategorized";
+  const rank = (item: DiffItem) => {
+    const group = groupOf(item);
+    return group ? CATEGORY_ORDER.indexOf(group) : CATEGORY_ORDER.length;
+  };
+  const displayedDiffs = groupByCategory
+    ? [...visibleDiffs].sort((a, b) => rank(a) - rank(b))
+    : visibleDiffs;
+  const groupSizes = new Map<ReleaseCategory | null | undefined, number>();
+  displayedDiffs.forEach((d) =>
+    groupSizes.set(groupOf(d), (groupSizes.get(groupOf(d)) ?? 0) + 1)
+  );
+
+  const authors = Array.from(
+    new Set(diffs.flatMap((d) => (d.author ? [d.author] : [])))
+  ).sort();
+  const labels = Array.from(
+    new Set(diffs.flatMap((d) => d.labels ?? []))
+  ).sort();
+
   const handleAccordionChange = (values: string[]) => {
     const newlyOpened = values.filter((v) => !openItems.includes(v));
     newlyOpened.forEach((id) => {
-      if (!loadingSummaries[id]) {
-        const diff = diffs.find((d) => d.id === id);
-        if (
-          diff &&
-          !generatedSummaries[id]?.developer &&
-          !generatedSummaries[id]?.marketing
-        ) {
-          fetchAIGeneratedDiff(diff);
-        }
+      // Already queued by "Generate All": run it next
+      if (queue.prioritize(id) || loadingSummaries[id]) return;
+      const diff = diffs.find((d) => d.id === id);
+      if (diff && !hasNotes(id) && reviewStatus[id] !== "excluded") {
+        enqueueGeneration(diff, { priority: true });
       }
     });
     setOpenItems(values);
   };
 
   const handleClearStorage = async () => {
+    const ref = repository ?? DEFAULT_REPOSITORY;
     const confirmClear = confirm(
-      "This will remove all cached PR data and summaries. Continue?"
+      `This will remove all cached PR data and summaries for ${repositoryLabel(ref)}. Continue?`
     );
     if (!confirmClear) return;
     try {
-      await db.diffs.clear();
-      setDiffs([]);
-      setGeneratedSummaries({});
-      setLoadingSummaries({});
-      setSummaryErrors({});
-      setOpenItems([]);
-      setCurrentPage(1);
-      setNextPage(null);
-      setInitialFetchDone(false);
+      await clearRepository(ref);
+      resetWorkspaceState();
     } catch (e) {
       console.error("Failed to clear storage", e);
     }
@@ -332,13 +1638,173 @@ export default function Home() {
       <h1 className="text-4xl font-bold mb-12">Diff Digest ✍️</h1>
 
       <div className="w-full max-w-4xl">
+        <div className="mb-4 flex flex-wrap items-start justify-between gap-2">
+          <RepoPicker
+            current={repository && repositoryId(repository)}
+            repositories={repositories}
+            disabled={isLoading}
+            onSelect={handleSelectRepository}
+            onToggleFavorite={handleToggleFavorite}
+          />
+          <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              onClick={() =>
+                setSettingsPanel((v) =>
+                  v === "audiences" ? null : "audiences"
+                )
+              }
+            >
+              <UsersIcon className="w-4 h-4" />
+              Audiences
+            </Button>
+            <Button variant="ghost" onClick={handleToggleUsage}>
+              <CoinsIcon className="w-4 h-4" />
+              Usage
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() =>
+                setSettingsPanel((v) => (v === "patch" ? null : "patch"))
+              }
+            >
+              <FileDiffIcon className="w-4 h-4" />
+              Summarize a diff
+            </Button>
+            {currentRepositoryEntity && (
+              <>
+                <Button
+                  variant="ghost"
+                  onClick={() =>
+                    setSettingsPanel((v) => (v === "llm" ? null : "llm"))
+                  }
+                >
+                  <BotIcon className="w-4 h-4" />
+                  {currentRepositoryEntity.llm
+                    ? currentRepositoryEntity.llm.model ||
+                      currentRepositoryEntity.llm.provider
+                    : "Model"}
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() =>
+                    setSettingsPanel((v) => (v === "prompt" ? null : "prompt"))
+                  }
+                >
+                  <FileTextIcon className="w-4 h-4" />
+                  Prompt
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() =>
+                    setSettingsPanel((v) => (v === "noise" ? null : "noise"))
+                  }
+                >
+                  <FilterIcon className="w-4 h-4" />
+                  Noise filter
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() =>
+                    setSettingsPanel((v) =>
+                      v === "redaction" ? null : "redaction"
+                    )
+                  }
+                >
+                  <ShieldAlertIcon className="w-4 h-4" />
+                  Redaction
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+        {settingsPanel === "patch" && (
+          <div className="mb-4">
+            <PatchImport
+              repositoryLabel={repositoryLabel(repository ?? DEFAULT_REPOSITORY)}
+              onImport={handleImportPatches}
+              onClose={() => setSettingsPanel(null)}
+            />
+          </div>
+        )}
+        {settingsPanel === "audiences" && (
+          <div className="mb-4">
+            <AudienceSettings
+              audiences={audiences}
+              onSave={handleSaveAudiences}
+              onClose={() => setSettingsPanel(null)}
+            />
+          </div>
+        )}
+        {settingsPanel === "usage" && (
+          <div className="mb-4">
+            <UsageDashboard
+              revisions={usageRevisions}
+              prices={prices}
+              onSavePrices={handleSavePrices}
+              onClose={() => setSettingsPanel(null)}
+            />
+          </div>
+        )}
+        {settingsPanel === "noise" && currentRepositoryEntity && (
+          <div className="mb-4">
+            <NoiseFilterSettings
+              config={noiseFilter}
+              repositoryLabel={repositoryLabel(currentRepositoryEntity)}
+              onSave={handleSaveNoiseFilter}
+              onClose={() => setSettingsPanel(null)}
+            />
+          </div>
+        )}
+        {settingsPanel === "redaction" && currentRepositoryEntity && (
+          <div className="mb-4">
+            <RedactionSettings
+              config={redactionConfig}
+              repositoryLabel={repositoryLabel(currentRepositoryEntity)}
+              onSave={handleSaveRedaction}
+              onClose={() => setSettingsPanel(null)}
+            />
+          </div>
+        )}
+        {settingsPanel === "prompt" && currentRepositoryEntity && (
+          <div className="mb-4">
+            <PromptSettings
+              versions={promptVersions}
+              activeId={currentRepositoryEntity.promptVersionId}
+              repositoryLabel={repositoryLabel(currentRepositoryEntity)}
+              onSaveVersion={handleSavePromptVersion}
+              onActivate={handleActivatePrompt}
+              onClose={() => setSettingsPanel(null)}
+            />
+          </div>
+        )}
+        {settingsPanel === "llm" && currentRepositoryEntity && (
+          <div className="mb-4">
+            <LLMSettings
+              selection={currentRepositoryEntity.llm}
+              repositoryLabel={repositoryLabel(currentRepositoryEntity)}
+              onSave={handleSaveLLM}
+              onClose={() => setSettingsPanel(null)}
+            />
+          </div>
+        )}
         <div className="mb-8 flex flex-wrap gap-4">
+          {repository?.provider === "local" && (
+            <input
+              value={gitRange}
+              onChange={(e) => setGitRange(e.target.value)}
+              placeholder="Merge commits, or a range like v1.2.0..HEAD"
+              aria-label="Revision range"
+              disabled={isLoading}
+              className="h-10 w-80 rounded border bg-background px-3 font-mono text-sm"
+            />
+          )}
           <button
             className="px-4 py-2 bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors disabled:opacity-50"
             onClick={handleFetchClick}
             disabled={isLoading}
           >
-            {isLoading && currentPage === 1
+            {isLoading && !loadingMore
               ? "Fetching..."
               : "Fetch Latest Diffs"}
           </button>
@@ -355,14 +1821,67 @@ export default function Home() {
             </button>
           )}
 
+          {allGenerated && protectedCount > 0 && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={forceRegenerate}
+                onChange={(e) => setForceRegenerate(e.target.checked)}
+              />
+              Also overwrite {protectedCount} approved or hand-edited{" "}
+              {protectedCount === 1 ? "PR" : "PRs"}
+            </label>
+          )}
+
           <button
             className="px-4 py-2 bg-destructive text-destructive-foreground rounded hover:bg-destructive/90 transition-colors"
             onClick={handleClearStorage}
           >
             Clear Stored Data
           </button>
+
+          {rateLimit && (
+            <span
+              className={cn(
+                "text-sm",
+                rateLimit.remaining < rateLimit.limit / 10
+                  ? "text-destructive"
+                  : "text-muted-foreground"
+              )}
+            >
+              GitHub API: {rateLimit.remaining}/{rateLimit.limit} requests
+              left, resets at{" "}
+              {new Date(rateLimit.reset * 1000).toLocaleTimeString([], {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </span>
+          )}
         </div>
 
+        {batchPlan && (
+          <BatchEstimate
+            count={batchPlan.jobs.length}
+            usage={batchPlan.usage}
+            model={batchPlan.model}
+            price={
+              batchPlan.model ? findPrice(prices, batchPlan.model) : undefined
+            }
+            onStart={() => startBatch(batchPlan.jobs)}
+            onCancel={() => setBatchPlan(null)}
+          />
+        )}
+
+        {diffs.length > 0 && (
+          <GenerationProgress
+            progress={queueProgress}
+            concurrency={concurrency}
+            onConcurrencyChange={handleConcurrencyChange}
+            onCancelAll={() => queue.cancelAll()}
+            onRetryFailed={() => queue.retryFailed()}
+          />
+        )}
+
         <div className="border rounded-lg p-6 min-h-[300px] bg-muted">
           <h2 className="text-2xl font-semibold mb-4">Merged Pull Requests</h2>
 
@@ -375,7 +1894,8 @@ export default function Home() {
           {!initialFetchDone && !isLoading && (
             <p className="text-muted-foreground">
               Click the button above to fetch the latest merged pull requests
-              from the repository.
+              from{" "}
+              {repository ? repositoryLabel(repository) : "the repository"}.
             </p>
           )}
 
@@ -386,105 +1906,324 @@ export default function Home() {
           )}
 
           {diffs.length > 0 && (
+            <SearchFilterBar
+              filters={filters}
+              authors={authors}
+              labels={labels}
+              matchCount={visibleDiffs.length}
+              totalCount={diffs.length}
+              onChange={handleFiltersChange}
+            />
+          )}
+
+          {filtering && diffs.length > 0 && visibleDiffs.length === 0 && (
+            <p className="text-muted-foreground">
+              No cached pull requests match these filters.
+            </p>
+          )}
+
+          {diffs.length > 0 && (
+            <label className="mb-3 flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={groupByCategory}
+                onChange={(e) => setGroupByCategory(e.target.checked)}
+              />
+              Group by release section
+            </label>
+          )}
+
+          {visibleDiffs.length > 0 && (
             <Accordion
               type="multiple"
               value={openItems}
               onValueChange={handleAccordionChange}
               className="space-y-3"
             >
-              {diffs.map((item) => (
-                <AccordionItem key={item.id} value={item.id}>
-                  <AccordionTrigger>
-                    <div className="flex items-center justify-between w-full">
-                      <div>
-                        <Link
-                          href={item.url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-primary hover:underline"
-                        >
-                          PR #{item.id}:
-                        </Link>
-                        <span className="ml-2">{item.description}</span>
+              {displayedDiffs.map((item, i) => (
+                <Fragment key={item.id}>
+                  {groupByCategory &&
+                    groupOf(item) !== groupOf(displayedDiffs[i - 1]) && (
+                      <h3 className="pt-2 text-lg font-semibold">
+                        {groupTitle(groupOf(item))} (
+                        {groupSizes.get(groupOf(item))})
+                      </h3>
+                    )}
+                  <AccordionItem value={item.id}>
+                    <AccordionTrigger>
+                      <div className="flex items-center justify-between w-full">
+                        <div>
+                          {item.manual ? (
+                            <span className="rounded bg-muted px-1.5 py-0.5 text-xs font-medium">
+                              Manual
+                            </span>
+                          ) : item.url ? (
+                            <Link
+                              href={item.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-primary hover:underline"
+                            >
+                              PR #{item.id}:
+                            </Link>
+                          ) : (
+                            <code className="text-primary">
+                              {item.commit ?? `#${item.id}`}:
+                            </code>
+                          )}
+                          <span className="ml-2">
+                            <Highlighted
+                              text={item.description}
+                              query={filters.q}
+                            />
+                          </span>
+                          {searchSnippets[item.id] && (
+                            <div className="mt-1 text-xs font-normal text-muted-foreground">
+                              {`${SEARCH_FIELD_LABELS[searchSnippets[item.id]!.field]}: `}
+                              <Highlighted
+                                text={searchSnippets[item.id]!.text}
+                                query={filters.q}
+                              />
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex shrink-0 items-center gap-1">
+                          {item.diffError && (
+                            <span className="shrink-0 rounded bg-destructive/15 px-1.5 py-0.5 text-xs font-medium text-destructive">
+                              No diff
+                            </span>
+                          )}
+                          {redactedPullRequests[item.id]?.blocked.length > 0 && (
+                            <span className="shrink-0 rounded bg-destructive/15 px-1.5 py-0.5 text-xs font-medium text-destructive">
+                              Blocked
+                            </span>
+                          )}
+                          <BreakingBadge
+                            changes={breakingChanges[item.id] ?? []}
+                          />
+                          <CategoryBadge assignment={categories[item.id]} />
+                          <ReviewStatusBadge
+                            status={reviewStatus[item.id] ?? "draft"}
+                          />
+                        </div>
                       </div>
-                    </div>
-                  </AccordionTrigger>
-                  <AccordionContent>
-                    <div className="flex justify-end mb-2">
-                      <Button
-                        aria-label="Regenerate release notes"
-                        variant="ghost"
-                        size="sm"
-                        className="flex gap-2"
-                        onClick={() => fetchAIGeneratedDiff(item)}
-                        disabled={loadingSummaries[item.id]}
-                      >
-                        {loadingSummaries[item.id] ? (
-                          <Loader2 className="w-4 h-4 animate-spin" />
-                        ) : (
-                          <SparklesIcon className="w-4 h-4" />
+                    </AccordionTrigger>
+                    <AccordionContent>
+                      <PullRequestMeta {...item} />
+                      <RedactionReport
+                        findings={redactedPullRequests[item.id]?.findings ?? []}
+                      />
+                      <BreakingChangeList
+                        changes={breakingChanges[item.id] ?? []}
+                      />
+                      <div className="flex flex-wrap items-center justify-end gap-1 mb-2">
+                        <CategorySelect
+                          assignment={categories[item.id]}
+                          onChange={(category) =>
+                            handleCategoryChange(item.id, category)
+                          }
+                        />
+                        <ReviewStatusSelect
+                          status={reviewStatus[item.id] ?? "draft"}
+                          onChange={(status) =>
+                            handleReviewStatusChange(item.id, status)
+                          }
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="flex gap-2"
+                          disabled={!!item.diffError}
+                          onClick={() =>
+                            setComparingId((v) =>
+                              v === item.id ? null : item.id
+                            )
+                          }
+                        >
+                          <ColumnsIcon className="w-4 h-4" />
+                          <span className="text-sm">Compare prompts</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="flex gap-2"
+                          onClick={() => handleToggleHistory(item.id)}
+                        >
+                          <HistoryIcon className="w-4 h-4" />
+                          <span className="text-sm">History</span>
+                        </Button>
+                        <Button
+                          aria-label="Regenerate release notes"
+                          variant="ghost"
+                          size="sm"
+                          className="flex gap-2"
+                          onClick={() =>
+                            enqueueGeneration(item, { priority: true })
+                          }
+                          disabled={
+                            loadingSummaries[item.id] ||
+                            isQueued(item.id) ||
+                            !!item.diffError
+                          }
+                        >
+                          {loadingSummaries[item.id] ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <SparklesIcon className="w-4 h-4" />
+                          )}
+                          <span className="text-sm">
+                            {loadingSummaries[item.id]
+                              ? "Generating..."
+                              : queueProgress?.jobs[item.id]?.status ===
+                                  "waiting"
+                                ? "Waiting to retry..."
+                                : isQueued(item.id)
+                                  ? "Queued"
+                                  : "Regenerate"}
+                          </span>
+                        </Button>
+                        {(loadingSummaries[item.id] || isQueued(item.id)) && (
+                          <Button
+                            aria-label="Stop generating release notes"
+                            variant="ghost"
+                            size="sm"
+                            className="flex gap-2"
+                            onClick={() => queue.cancel(item.id)}
+                          >
+                            <SquareIcon className="w-4 h-4" />
+                            <span className="text-sm">Stop</span>
+                          </Button>
                         )}
-                        <span className="text-sm">
-                          {loadingSummaries[item.id]
-                            ? "Generating..."
-                            : "Regenerate"}
-                        </span>
-                      </Button>
-                    </div>
-                    {(loadingSummaries[item.id] ||
-                      summaryErrors[item.id] ||
-                      generatedSummaries[item.id]?.developer ||
-                      generatedSummaries[item.id]?.marketing) && (
-                      <div className="mt-2 p-4 bg-secondary/20 border border-secondary rounded">
-                        <h3 className="font-semibold mb-2">
-                          AI Generated Release Notes
-                        </h3>
-                        <div className="whitespace-pre-wrap space-y-2">
-                          {summaryErrors[item.id] && (
-                            <div className="flex items-start gap-2 p-3 mb-2 rounded border border-destructive/50 bg-destructive/10 text-destructive">
-                              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
-                              <span>{summaryErrors[item.id]}</span>
-                            </div>
+                      </div>
+                      {(loadingSummaries[item.id] ||
+                        summaryErrors[item.id] ||
+                        hasNotes(item.id)) && (
+                        <div className="mt-2 p-4 bg-secondary/20 border border-secondary rounded">
+                          <h3 className="font-semibold mb-2">
+                            AI Generated Release Notes
+                          </h3>
+                          <div className="whitespace-pre-wrap space-y-2">
+                            {summaryErrors[item.id] && (
+                              <div className="flex items-start gap-2 p-3 mb-2 rounded border border-destructive/50 bg-destructive/10 text-destructive">
+                                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                                <span>{summaryErrors[item.id]}</span>
+                              </div>
+                            )}
+                            {summaryWarnings[item.id]?.map((warning, i) => (
+                              <div
+                                key={i}
+                                className="flex items-start gap-2 p-3 mb-2 rounded border border-yellow-500/50 bg-yellow-500/10 text-sm"
+                              >
+                                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                                <span>{warning}</span>
+                              </div>
+                            ))}
+                            <ReleaseNotesTabs
+                              audiences={audiences.filter(
+                                (a) =>
+                                  a.enabled || generatedSummaries[item.id]?.[a.id]
+                              )}
+                              notes={generatedSummaries[item.id] ?? {}}
+                              edited={editedNotes[item.id] ?? []}
+                              incomplete={incompleteNotes[item.id] ?? []}
+                              onSaveNote={(audienceId, text) =>
+                                handleSaveNote(item.id, audienceId, text)
+                              }
+                              generating={
+                                !!loadingSummaries[item.id] &&
+                                !summaryErrors[item.id]
+                              }
+                            />
+                            {summaryCoverage[item.id]?.strategy ===
+                              "map-reduce" && (
+                              <p className="text-xs text-muted-foreground">
+                                Large diff: notes are based on{" "}
+                                {summaryCoverage[item.id].chunks} partial
+                                summaries covering{" "}
+                                {Math.round(summaryCoverage[item.id].ratio * 100)}
+                                % of the diff (
+                                {summaryCoverage[item.id].coveredFiles}/
+                                {summaryCoverage[item.id].totalFiles} files).
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      )}
+                      {historyId === item.id && revisions[item.id] && (
+                        <RevisionHistory
+                          key={revisions[item.id].length}
+                          revisions={revisions[item.id]}
+                          currentId={currentRevisions[item.id]}
+                          audiences={audiences}
+                          promptVersions={promptVersions}
+                          onRestore={(revision) =>
+                            handleRestoreRevision(item.id, revision)
+                          }
+                        />
+                      )}
+                      {comparingId === item.id && (
+                        <PromptCompare
+                          versions={promptVersions}
+                          activeId={currentRepositoryEntity?.promptVersionId}
+                          audiences={
+                            enabledAudiences.length
+                              ? enabledAudiences
+                              : DEFAULT_AUDIENCES
+                          }
+                          request={buildGenerationRequest(
+                            item,
+                            repository ?? DEFAULT_REPOSITORY
                           )}
-                          <p>
-                            <strong>Developer Notes:</strong>{" "}
-                            {generatedSummaries[item.id]?.developer ||
-                              (loadingSummaries[item.id] &&
-                              !summaryErrors[item.id]
-                                ? "Generating..."
-                                : "")}
+                        />
+                      )}
+                      <ExcludedFilesNotice
+                        diff={item.diff}
+                        config={noiseFilter}
+                        includeNoise={includeNoise[item.id] ?? false}
+                        onIncludeNoiseChange={(value) =>
+                          handleIncludeNoiseChange(item.id, value)
+                        }
+                      />
+                      <div className="mt-4">
+                        <h3 className="font-semibold mb-2">Changes</h3>
+                        {item.diffError ? (
+                          <p className="text-sm text-destructive">
+                            The diff could not be loaded ({item.diffError}).
+                            Fetch the pull requests again to retry.
                           </p>
-                          <p>
-                            <strong>Marketing Notes:</strong>{" "}
-                            {generatedSummaries[item.id]?.marketing ||
-                              (generatedSummaries[item.id]?.developer &&
-                              loadingSummaries[item.id] &&
-                              !summaryErrors[item.id]
-                                ? "Generating..."
-                                : "")}
-                          </p>
-                        </div>
+                        ) : (
+                          <DiffViewer diff={item.diff} />
+                        )}
                       </div>
-                    )}
-                  </AccordionContent>
-                </AccordionItem>
+                    </AccordionContent>
+                  </AccordionItem>
+                </Fragment>
               ))}
             </Accordion>
           )}
 
-          {isLoading && currentPage > 1 && (
+          {loadingMore && (
             <p className="text-muted-foreground mt-4">Loading more...</p>
           )}
 
-          {nextPage && !isLoading && (
-            <div className="mt-6">
-              <button
-                className="px-4 py-2 bg-secondary text-secondary-foreground rounded hover:bg-secondary/90 transition-colors disabled:opacity-50"
-                onClick={handleLoadMoreClick}
-                disabled={isLoading}
-              >
-                Load More (Page {nextPage})
-              </button>
+          {nextCursor && (
+            <div ref={sentinelRef} className="mt-6">
+              {filtering && !isLoading && !error && (
+                <button
+                  className="px-4 py-2 bg-secondary text-secondary-foreground rounded hover:bg-secondary/90 transition-colors"
+                  onClick={() => fetchDiffs(nextCursor)}
+                >
+                  Load Older Pull Requests
+                </button>
+              )}
+              {error && !isLoading && (
+                <button
+                  className="px-4 py-2 bg-secondary text-secondary-foreground rounded hover:bg-secondary/90 transition-colors"
+                  onClick={() => fetchDiffs(nextCursor)}
+                >
+                  Retry Loading More
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import { PlusIcon, Trash2Icon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { AudienceProfile, MAX_AUDIENCES } from "@/lib/audiences";
+
+interface AudienceSettingsProps {
+  audiences: AudienceProfile[];
+  onSave: (audiences: AudienceProfile[]) => void;
+  onClose: () => void;
+}
+
+export function AudienceSettings({
+  audiences,
+  onSave,
+  onClose,
+}: AudienceSettingsProps) {
+  const [draft, setDraft] = useState<AudienceProfile[]>(audiences);
+
+  const update = (id: string, patch: Partial<AudienceProfile>) =>
+    setDraft((prev) => prev.map((a) => (a.id === id ? { ...a, ...patch } : a)));
+
+  const addAudience = () =>
+    setDraft((prev) => {
+      const taken = new Set(prev.map((a) => a.id));
+      let id = "audience";
+      for (let i = 2; taken.has(id); i++) id = `audience_${i}`;
+      return [
+        ...prev,
+        {
+          id,
+          name: "New audience",
+          instructions: "",
+          tone: "neutral",
+          maxWords: 40,
+          enabled: true,
+          createdAt: Date.now(),
+        },
+      ];
+    });
+
+  const invalid = draft.some((a) => !a.name.trim() || a.maxWords < 1);
+  const enabledCount = draft.filter((a) => a.enabled).length;
+
+  return (
+    <div className="rounded-lg border bg-background p-4 space-y-3 text-sm">
+      <h3 className="font-semibold">Audiences</h3>
+      <p className="text-muted-foreground">
+        Each enabled audience gets its own note. Profiles are shared by all
+        repositories.
+      </p>
+      {draft.map((a) => (
+        <fieldset key={a.id} className="rounded-md border p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              aria-label={`Enable ${a.name}`}
+              checked={a.enabled}
+              onChange={(e) => update(a.id, { enabled: e.target.checked })}
+            />
+            <input
+              value={a.name}
+              onChange={(e) => update(a.id, { name: e.target.value })}
+              className="h-8 flex-1 rounded-md border bg-background px-2 font-medium"
+              placeholder="Name"
+            />
+            <label className="flex items-center gap-1 text-muted-foreground">
+              Max words
+              <input
+                type="number"
+                min={1}
+                max={500}
+                value={a.maxWords}
+                onChange={(e) =>
+                  update(a.id, { maxWords: parseInt(e.target.value, 10) || 0 })
+                }
+                className="h-8 w-20 rounded-md border bg-background px-2"
+              />
+            </label>
+            {!a.builtIn && (
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Delete ${a.name}`}
+                onClick={() =>
+                  setDraft((prev) => prev.filter((p) => p.id !== a.id))
+                }
+              >
+                <Trash2Icon className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+          <textarea
+            value={a.instructions}
+            onChange={(e) => update(a.id, { instructions: e.target.value })}
+            rows={2}
+            className="w-full rounded-md border bg-background p-2 text-xs"
+            placeholder="What this audience needs to know, e.g. migration steps and security impact"
+          />
+          <input
+            value={a.tone}
+            onChange={(e) => update(a.id, { tone: e.target.value })}
+            className="h-8 w-full rounded-md border bg-background px-2 text-xs"
+            placeholder="Tone, e.g. formal and precise"
+          />
+        </fieldset>
+      ))}
+      <div className="flex justify-between gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={addAudience}
+          disabled={draft.length >= MAX_AUDIENCES}
+        >
+          <PlusIcon className="w-4 h-4" />
+          Add audience
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            disabled={invalid || enabledCount === 0}
+            onClick={() =>
+              onSave(draft.map((a) => ({ ...a, name: a.name.trim() })))
+            }
+          >
+            Save audiences
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
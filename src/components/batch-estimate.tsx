@@ -0,0 +1,48 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  GenerationUsage,
+  ModelPrice,
+  formatCost,
+  formatTokens,
+  usageCost,
+} from "@/lib/usage";
+
+interface BatchEstimateProps {
+  count: number;
+  usage: GenerationUsage;
+  // Empty when the server's default model could not be determined
+  model: string;
+  price?: ModelPrice;
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+export function BatchEstimate({
+  count,
+  usage,
+  model,
+  price,
+  onStart,
+  onCancel,
+}: BatchEstimateProps) {
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-3 rounded-lg border bg-background p-3 text-sm">
+      <span className="flex-1">
+        Generating notes for {count} {count === 1 ? "PR" : "PRs"} will use
+        about {formatTokens(usage.promptTokens)} prompt and{" "}
+        {formatTokens(usage.completionTokens)} completion tokens
+        {price
+          ? `, roughly ${formatCost(usageCost(usage, price))} with ${model}.`
+          : `. ${model ? `There is no price for ${model}` : "The model is unknown"}, so the cost can't be estimated.`}
+      </span>
+      <Button variant="ghost" size="sm" onClick={onCancel}>
+        Cancel
+      </Button>
+      <Button size="sm" onClick={onStart}>
+        Start
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { TriangleAlertIcon } from "lucide-react";
+
+import type { BreakingChange } from "@/lib/breaking-changes";
+
+// Findings quote names in backticks
+function Detail({ text }: { text: string }) {
+  return (
+    <>
+      {text.split("`").map((part, i) =>
+        i % 2 ? <code key={i}>{part}</code> : part
+      )}
+    </>
+  );
+}
+
+export function BreakingBadge({ changes }: { changes: BreakingChange[] }) {
+  if (!changes.length) return null;
+  return (
+    <span
+      className="shrink-0 rounded bg-destructive/15 px-1.5 py-0.5 text-xs font-medium text-destructive"
+      title={changes.map((c) => `${c.path}: ${c.detail}`).join("\n")}
+    >
+      Breaking
+    </span>
+  );
+}
+
+export function BreakingChangeList({ changes }: { changes: BreakingChange[] }) {
+  if (!changes.length) return null;
+  return (
+    <div className="mb-3 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm">
+      <p className="flex items-center gap-2 font-medium text-destructive">
+        <TriangleAlertIcon className="w-4 h-4" />
+        Likely breaking changes
+      </p>
+      <ul className="mt-1 list-disc pl-6">
+        {changes.map((c) => (
+          <li key={`${c.kind}:${c.path}:${c.name}`}>
+            <span className="text-muted-foreground">{c.path}:</span>{" "}
+            <Detail text={c.detail} />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
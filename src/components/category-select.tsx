@@ -0,0 +1,62 @@
+"use client";
+
+import {
+  CategoryAssignment,
+  CategorySource,
+  RELEASE_CATEGORIES,
+  ReleaseCategory,
+} from "@/lib/categories";
+
+const SOURCE_LABELS: Record<CategorySource, string> = {
+  title: "from the title",
+  label: "from a label",
+  paths: "from the changed files",
+  llm: "suggested by the model",
+  manual: "set by hand",
+};
+
+export function CategoryBadge({
+  assignment,
+}: {
+  assignment?: CategoryAssignment;
+}) {
+  if (!assignment) return null;
+  return (
+    <span
+      className="shrink-0 rounded bg-primary/10 px-1.5 py-0.5 text-xs font-medium text-primary"
+      title={`Category ${SOURCE_LABELS[assignment.source]}`}
+    >
+      {RELEASE_CATEGORIES[assignment.category]}
+    </span>
+  );
+}
+
+interface CategorySelectProps {
+  assignment?: CategoryAssignment;
+  onChange: (category: ReleaseCategory) => void;
+}
+
+export function CategorySelect({ assignment, onChange }: CategorySelectProps) {
+  return (
+    <select
+      aria-label="Release category"
+      title={
+        assignment ? `Category ${SOURCE_LABELS[assignment.source]}` : undefined
+      }
+      value={assignment?.category ?? ""}
+      onChange={(e) => onChange(e.target.value as ReleaseCategory)}
+      className="h-8 rounded-md border bg-background px-2 text-sm"
+    >
+      {!assignment && (
+        <option value="" disabled>
+          Uncategorized
+        </option>
+      )}
+      {Object.entries(RELEASE_CATEGORIES).map(([value, label]) => (
+        <option key={value} value={value}>
+          {label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,374 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  FileIcon,
+  FolderIcon,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DiffFile,
+  DiffHunk,
+  DiffLine,
+  diffStats,
+  parseUnifiedDiff,
+} from "@/lib/diff-parser";
+import { cn } from "@/lib/utils";
+
+type ViewMode = "unified" | "split";
+
+interface TreeNode {
+  name: string;
+  path: string;
+  children: TreeNode[];
+  file?: DiffFile;
+}
+
+interface SplitRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+function buildFileTree(files: DiffFile[]): TreeNode[] {
+  const root: TreeNode = { name: "", path: "", children: [] };
+  files.forEach((file) => {
+    const parts = file.path.split("/");
+    let node = root;
+    parts.forEach((part, i) => {
+      const path = parts.slice(0, i + 1).join("/");
+      const isLeaf = i === parts.length - 1;
+      let child = node.children.find((c) => c.name === part && !c.file);
+      if (!child || isLeaf) {
+        child = {
+          name: part,
+          path,
+          children: [],
+          file: isLeaf ? file : undefined,
+        };
+        node.children.push(child);
+      }
+      node = child;
+    });
+  });
+  return root.children;
+}
+
+// Pairs runs of removed lines with the added lines that follow them
+function toSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i] ?? null, right: added[i] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+  lines.forEach((line) => {
+    if (line.type === "remove") {
+      if (added.length) flush();
+      removed.push(line);
+    } else if (line.type === "add") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  });
+  flush();
+  return rows;
+}
+
+const lineClass: Record<DiffLine["type"], string> = {
+  add: "bg-green-500/10",
+  remove: "bg-red-500/10",
+  context: "",
+};
+
+const linePrefix: Record<DiffLine["type"], string> = {
+  add: "+",
+  remove: "-",
+  context: " ",
+};
+
+function LineNumber({ value }: { value: number | null }) {
+  return (
+    <td className="w-10 select-none px-2 text-right align-top text-muted-foreground">
+      {value ?? ""}
+    </td>
+  );
+}
+
+function UnifiedHunk({ hunk }: { hunk: DiffHunk }) {
+  return (
+    <>
+      {hunk.lines.map((line, i) => (
+        <tr key={i} className={lineClass[line.type]}>
+          <LineNumber value={line.oldNumber} />
+          <LineNumber value={line.newNumber} />
+          <td className="whitespace-pre px-2">
+            {linePrefix[line.type]}
+            {line.content}
+          </td>
+        </tr>
+      ))}
+    </>
+  );
+}
+
+function SplitCell({
+  line,
+  side,
+}: {
+  line: DiffLine | null;
+  side: "old" | "new";
+}) {
+  return (
+    <>
+      <LineNumber
+        value={line && (side === "old" ? line.oldNumber : line.newNumber)}
+      />
+      <td
+        className={cn(
+          "w-1/2 whitespace-pre px-2",
+          line ? lineClass[line.type] : "bg-muted/40"
+        )}
+      >
+        {line ? `${linePrefix[line.type]}${line.content}` : ""}
+      </td>
+    </>
+  );
+}
+
+function SplitHunk({ hunk }: { hunk: DiffHunk }) {
+  const rows = useMemo(() => toSplitRows(hunk.lines), [hunk]);
+  return (
+    <>
+      {rows.map((row, i) => (
+        <tr key={i}>
+          <SplitCell line={row.left} side="old" />
+          <SplitCell line={row.right} side="new" />
+        </tr>
+      ))}
+    </>
+  );
+}
+
+function FileCounts({ file }: { file: DiffFile }) {
+  return (
+    <span className="shrink-0 font-mono text-xs">
+      <span className="text-green-600">+{file.additions}</span>{" "}
+      <span className="text-red-600">-{file.deletions}</span>
+    </span>
+  );
+}
+
+function FileTree({
+  nodes,
+  selected,
+  onSelect,
+  depth = 0,
+}: {
+  nodes: TreeNode[];
+  selected: string | null;
+  onSelect: (path: string) => void;
+  depth?: number;
+}) {
+  return (
+    <ul>
+      {nodes.map((node) => (
+        <li key={`${node.path}:${node.file ? "f" : "d"}`}>
+          {node.file ? (
+            <button
+              type="button"
+              onClick={() => onSelect(node.path)}
+              className={cn(
+                "flex w-full items-center justify-between gap-2 rounded px-1 py-0.5 text-left hover:bg-accent",
+                selected === node.path && "bg-accent"
+              )}
+              style={{ paddingLeft: `${depth * 12 + 4}px` }}
+            >
+              <span className="flex min-w-0 items-center gap-1">
+                <FileIcon className="w-3 h-3 shrink-0" />
+                <span className="truncate">{node.name}</span>
+              </span>
+              <FileCounts file={node.file} />
+            </button>
+          ) : (
+            <>
+              <div
+                className="flex items-center gap-1 px-1 py-0.5 text-muted-foreground"
+                style={{ paddingLeft: `${depth * 12 + 4}px` }}
+              >
+                <FolderIcon className="w-3 h-3 shrink-0" />
+                <span className="truncate">{node.name}</span>
+              </div>
+              <FileTree
+                nodes={node.children}
+                selected={selected}
+                onSelect={onSelect}
+                depth={depth + 1}
+              />
+            </>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function FileDiff({
+  file,
+  mode,
+  collapsed,
+  onToggleHunk,
+}: {
+  file: DiffFile;
+  mode: ViewMode;
+  collapsed: Record<number, boolean>;
+  onToggleHunk: (index: number) => void;
+}) {
+  const title =
+    file.status === "renamed" || file.status === "copied"
+      ? `${file.oldPath} → ${file.newPath}`
+      : file.path;
+
+  return (
+    <div className="overflow-hidden rounded border bg-background">
+      <div className="flex items-center justify-between gap-2 border-b bg-muted px-3 py-2">
+        <span className="truncate font-mono text-xs">{title}</span>
+        <span className="flex shrink-0 items-center gap-2 text-xs">
+          {file.status !== "modified" && (
+            <span className="rounded bg-secondary px-1.5 py-0.5">
+              {file.status}
+            </span>
+          )}
+          <FileCounts file={file} />
+        </span>
+      </div>
+      {file.binary && (
+        <p className="px-3 py-2 text-xs text-muted-foreground">
+          Binary file not shown.
+        </p>
+      )}
+      {!file.binary && file.hunks.length === 0 && (
+        <p className="px-3 py-2 text-xs text-muted-foreground">
+          No content changes.
+        </p>
+      )}
+      {file.hunks.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse font-mono text-xs">
+            {file.hunks.map((hunk, i) => (
+              <tbody key={i}>
+                <tr className="bg-blue-500/10 text-muted-foreground">
+                  <td colSpan={mode === "split" ? 4 : 3} className="px-2 py-1">
+                    <button
+                      type="button"
+                      onClick={() => onToggleHunk(i)}
+                      className="flex items-center gap-1"
+                      aria-expanded={!collapsed[i]}
+                    >
+                      {collapsed[i] ? (
+                        <ChevronRightIcon className="w-3 h-3" />
+                      ) : (
+                        <ChevronDownIcon className="w-3 h-3" />
+                      )}
+                      {hunk.header}
+                    </button>
+                  </td>
+                </tr>
+                {!collapsed[i] &&
+                  (mode === "split" ? (
+                    <SplitHunk hunk={hunk} />
+                  ) : (
+                    <UnifiedHunk hunk={hunk} />
+                  ))}
+              </tbody>
+            ))}
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function DiffViewer({ diff }: { diff: string }) {
+  const files = useMemo(() => parseUnifiedDiff(diff), [diff]);
+  const tree = useMemo(() => buildFileTree(files), [files]);
+  const stats = useMemo(() => diffStats(files), [files]);
+  const [mode, setMode] = useState<ViewMode>("unified");
+  const [selected, setSelected] = useState<string | null>(null);
+  // Keyed by file path, then hunk index
+  const [collapsed, setCollapsed] = useState<
+    Record<string, Record<number, boolean>>
+  >({});
+
+  if (files.length === 0) {
+    return <p className="text-muted-foreground">No diff content available.</p>;
+  }
+
+  const visibleFiles = selected
+    ? files.filter((f) => f.path === selected)
+    : files;
+
+  const toggleHunk = (path: string, index: number) =>
+    setCollapsed((prev) => ({
+      ...prev,
+      [path]: { ...prev[path], [index]: !prev[path]?.[index] },
+    }));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">
+          {stats.files} {stats.files === 1 ? "file" : "files"} changed,{" "}
+          <span className="text-green-600">+{stats.additions}</span>{" "}
+          <span className="text-red-600">-{stats.deletions}</span>
+        </span>
+        <div className="flex gap-1">
+          {(["unified", "split"] as const).map((m) => (
+            <Button
+              key={m}
+              size="sm"
+              variant={mode === m ? "secondary" : "ghost"}
+              onClick={() => setMode(m)}
+            >
+              {m === "unified" ? "Unified" : "Split"}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-col gap-2 md:flex-row">
+        <nav className="max-h-96 shrink-0 overflow-y-auto rounded border bg-background p-1 text-xs md:w-56">
+          <button
+            type="button"
+            onClick={() => setSelected(null)}
+            className={cn(
+              "w-full rounded px-1 py-0.5 text-left hover:bg-accent",
+              selected === null && "bg-accent"
+            )}
+          >
+            All files
+          </button>
+          <FileTree nodes={tree} selected={selected} onSelect={setSelected} />
+        </nav>
+        <div className="min-w-0 flex-1 space-y-3">
+          {visibleFiles.map((file) => (
+            <FileDiff
+              key={file.path}
+              file={file}
+              mode={mode}
+              collapsed={collapsed[file.path] ?? {}}
+              onToggleHunk={(index) => toggleHunk(file.path, index)}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { Loader2, RotateCcwIcon, XIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import type { QueueProgress } from "@/lib/generation-queue";
+
+export const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8];
+
+interface GenerationProgressProps {
+  progress: QueueProgress | null;
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onCancelAll: () => void;
+  onRetryFailed: () => void;
+}
+
+export function GenerationProgress({
+  progress,
+  concurrency,
+  onConcurrencyChange,
+  onCancelAll,
+  onRetryFailed,
+}: GenerationProgressProps) {
+  const active = progress ? progress.running + progress.pending : 0;
+  const waiting = progress
+    ? Object.values(progress.jobs).filter((j) => j.status === "waiting").length
+    : 0;
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-3 text-sm">
+      {progress && progress.total > 0 && (
+        <span className="flex items-center gap-2">
+          {active > 0 && <Loader2 className="w-4 h-4 animate-spin" />}
+          {progress.done}/{progress.total} done
+          {progress.failed > 0 && `, ${progress.failed} failed`}
+          {progress.cancelled > 0 && `, ${progress.cancelled} cancelled`}
+          {waiting > 0 && ` (${waiting} waiting to retry)`}
+        </span>
+      )}
+      {active > 0 && (
+        <Button variant="ghost" size="sm" onClick={onCancelAll}>
+          <XIcon className="w-4 h-4" />
+          Cancel all
+        </Button>
+      )}
+      {progress && progress.failed > 0 && (
+        <Button variant="ghost" size="sm" onClick={onRetryFailed}>
+          <RotateCcwIcon className="w-4 h-4" />
+          Retry failed
+        </Button>
+      )}
+      <label className="ml-auto flex items-center gap-2 text-muted-foreground">
+        Parallel requests
+        <select
+          value={concurrency}
+          onChange={(e) => onConcurrencyChange(parseInt(e.target.value, 10))}
+          className="h-8 rounded-md border bg-background px-2"
+        >
+          {CONCURRENCY_OPTIONS.map((n) => (
+            <option key={n} value={n}>
+              {n}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import type { ProviderId, ProviderSelection } from "@/lib/llm/types";
+
+interface ProviderInfo {
+  id: ProviderId;
+  label: string;
+  configured: boolean;
+  defaultModel: string;
+}
+
+interface LLMSettingsProps {
+  selection: ProviderSelection | undefined;
+  repositoryLabel: string;
+  onSave: (selection: ProviderSelection | undefined) => void;
+  onClose: () => void;
+}
+
+export function LLMSettings({
+  selection,
+  repositoryLabel,
+  onSave,
+  onClose,
+}: LLMSettingsProps) {
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [defaultProvider, setDefaultProvider] = useState<ProviderId | null>(
+    null
+  );
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [provider, setProvider] = useState<ProviderId | "">(
+    selection?.provider ?? ""
+  );
+  const [model, setModel] = useState(selection?.model ?? "");
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const response = await fetch("/api/llm-providers");
+        if (!response.ok) throw new Error(`status ${response.status}`);
+        const data = await response.json();
+        setProviders(data.providers);
+        setDefaultProvider(data.defaultProvider);
+      } catch (err) {
+        setLoadError(
+          `Failed to load providers: ${(err as Error).message || "unknown"}`
+        );
+      }
+    })();
+  }, []);
+
+  const selected = providers.find(
+    (p) => p.id === (provider || defaultProvider)
+  );
+
+  return (
+    <div className="rounded-lg border bg-background p-4 space-y-3 text-sm">
+      <h3 className="font-semibold">Model for {repositoryLabel}</h3>
+      {loadError && <p className="text-destructive">{loadError}</p>}
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="flex flex-col gap-1">
+          Provider
+          <select
+            value={provider}
+            onChange={(e) => setProvider(e.target.value as ProviderId | "")}
+            className="h-9 rounded-md border bg-background px-2"
+          >
+            <option value="">
+              Server default
+              {defaultProvider ? ` (${defaultProvider})` : ""}
+            </option>
+            {providers.map((p) => (
+              <option key={p.id} value={p.id} disabled={!p.configured}>
+                {p.label}
+                {p.configured ? "" : " (not configured)"}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Model{provider === "azure" ? " / deployment" : ""}
+          <input
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            placeholder={selected?.defaultModel || "Provider default"}
+            className="h-9 rounded-md border bg-background px-3"
+          />
+        </label>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={() =>
+            onSave(
+              provider
+                ? { provider, model: model.trim() || undefined }
+                : undefined
+            )
+          }
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
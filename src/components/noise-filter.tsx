@@ -0,0 +1,169 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { FilterIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DEFAULT_NOISE_RULES,
+  NoiseFilterConfig,
+  filterDiffNoise,
+  globError,
+} from "@/lib/noise-filter";
+
+const toLines = (value: string) =>
+  value
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+
+interface NoiseFilterSettingsProps {
+  config: NoiseFilterConfig;
+  repositoryLabel: string;
+  onSave: (config: NoiseFilterConfig) => void;
+  onClose: () => void;
+}
+
+export function NoiseFilterSettings({
+  config,
+  repositoryLabel,
+  onSave,
+  onClose,
+}: NoiseFilterSettingsProps) {
+  const [useDefaults, setUseDefaults] = useState(config.useDefaults);
+  const [exclude, setExclude] = useState(config.exclude.join("\n"));
+  const [include, setInclude] = useState(config.include.join("\n"));
+  const invalid = [...toLines(exclude), ...toLines(include)]
+    .map((p) => ({ pattern: p, error: globError(p) }))
+    .filter((p) => p.error);
+
+  return (
+    <div className="rounded-lg border bg-background p-4 space-y-3 text-sm">
+      <h3 className="font-semibold">Noise filter for {repositoryLabel}</h3>
+      <p className="text-muted-foreground">
+        Matching files are left out of the prompt and mentioned in one line
+        instead. Globs follow .gitignore rules: <code>dist/</code> matches a
+        directory anywhere, <code>*.min.js</code> a file name anywhere,{" "}
+        <code>src/**/gen/*.ts</code> a path from the repository root.
+      </p>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={useDefaults}
+          onChange={(e) => setUseDefaults(e.target.checked)}
+        />
+        Use built-in rules (lockfiles, build output, minified and generated
+        files, snapshots, vendored code, binaries)
+      </label>
+      {useDefaults && (
+        <details className="text-xs text-muted-foreground">
+          <summary className="cursor-pointer">Show built-in rules</summary>
+          <ul className="mt-1 columns-2 font-mono">
+            {DEFAULT_NOISE_RULES.map((r) => (
+              <li key={r.pattern}>{r.pattern}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="flex flex-col gap-1">
+          Exclude (one glob per line)
+          <textarea
+            value={exclude}
+            onChange={(e) => setExclude(e.target.value)}
+            rows={4}
+            className="rounded-md border bg-background p-2 font-mono text-xs"
+            placeholder={"src/generated/\n*.pb.ts"}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Always include (overrides exclusions)
+          <textarea
+            value={include}
+            onChange={(e) => setInclude(e.target.value)}
+            rows={4}
+            className="rounded-md border bg-background p-2 font-mono text-xs"
+            placeholder="packages/cli/dist/"
+          />
+        </label>
+      </div>
+      {invalid.length > 0 && (
+        <ul className="text-destructive">
+          {invalid.map((p) => (
+            <li key={p.pattern}>
+              <code>{p.pattern}</code>: {p.error}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          disabled={invalid.length > 0}
+          onClick={() =>
+            onSave({
+              useDefaults,
+              exclude: toLines(exclude),
+              include: toLines(include),
+            })
+          }
+        >
+          Save rules
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface ExcludedFilesNoticeProps {
+  diff: string;
+  config: NoiseFilterConfig;
+  includeNoise: boolean;
+  onIncludeNoiseChange: (includeNoise: boolean) => void;
+}
+
+export function ExcludedFilesNotice({
+  diff,
+  config,
+  includeNoise,
+  onIncludeNoiseChange,
+}: ExcludedFilesNoticeProps) {
+  const excluded = useMemo(
+    () => filterDiffNoise(diff, config).excluded,
+    [diff, config]
+  );
+  if (!excluded.length) return null;
+
+  return (
+    <div className="mt-2 rounded border p-3 text-xs text-muted-foreground">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="flex items-center gap-1">
+          <FilterIcon className="w-3 h-3" />
+          {includeNoise
+            ? `${excluded.length} noise ${excluded.length === 1 ? "file is" : "files are"} included for this PR`
+            : `${excluded.length} ${excluded.length === 1 ? "file" : "files"} left out of the prompt`}
+        </span>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={includeNoise}
+            onChange={(e) => onIncludeNoiseChange(e.target.checked)}
+          />
+          Include all files for this PR
+        </label>
+      </div>
+      {!includeNoise && (
+        <ul className="mt-1 font-mono">
+          {excluded.map((f) => (
+            <li key={f.path}>
+              {f.path} <span className="font-sans">({f.reason})</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { parseUnifiedDiff } from "@/lib/diff-parser";
+import { combinePatches, ParsedPatch, parsePatches } from "@/lib/patches";
+import { cn } from "@/lib/utils";
+
+interface PatchImportProps {
+  repositoryLabel: string;
+  onImport: (patches: ParsedPatch[]) => void;
+  onClose: () => void;
+}
+
+export function PatchImport({
+  repositoryLabel,
+  onImport,
+  onClose,
+}: PatchImportProps) {
+  const [text, setText] = useState("");
+  const [files, setFiles] = useState<
+    { name: string; patches: ParsedPatch[] }[]
+  >([]);
+  const [combine, setCombine] = useState(false);
+  const [dragging, setDragging] = useState(false);
+
+  const pasted = useMemo(
+    () => (text.trim() ? parsePatches(text) : []),
+    [text]
+  );
+  const patches = [...pasted, ...files.flatMap((f) => f.patches)];
+  const changes = patches.filter((p) => p.diff);
+  const entries =
+    combine && changes.length > 1 ? [combinePatches(patches)] : changes;
+
+  const addFiles = async (list: FileList | null) => {
+    if (!list) return;
+    const read = await Promise.all(
+      Array.from(list).map(async (file) => ({
+        name: file.name,
+        patches: parsePatches(await file.text(), file.name),
+      }))
+    );
+    setFiles((prev) => [...prev, ...read]);
+  };
+
+  return (
+    <div className="rounded-lg border bg-background p-4 space-y-3 text-sm">
+      <h3 className="font-semibold">Summarize a diff in {repositoryLabel}</h3>
+      <p className="text-muted-foreground">
+        Paste a diff or drop <code>.diff</code>, <code>.patch</code> or mbox
+        files, e.g. from <code>git format-patch</code>. Subjects and authors
+        are read from the patch headers; the entries are stored with this
+        repository and marked as manual.
+      </p>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={8}
+        placeholder="diff --git a/... b/..."
+        aria-label="Diff or patch"
+        className="w-full rounded-md border bg-background p-2 font-mono text-xs"
+      />
+      <label
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          addFiles(e.dataTransfer.files);
+        }}
+        className={cn(
+          "flex cursor-pointer flex-col items-center rounded-md border border-dashed p-4 text-muted-foreground",
+          dragging && "border-primary bg-primary/5"
+        )}
+      >
+        Drop files here or click to choose
+        <input
+          type="file"
+          multiple
+          accept=".diff,.patch,.mbox,.eml,.txt,text/plain,text/x-diff,text/x-patch,application/mbox"
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = "";
+          }}
+          className="sr-only"
+        />
+      </label>
+      {files.length > 0 && (
+        <p className="text-muted-foreground">
+          {files.map((f) => f.name).join(", ")}{" "}
+          <button
+            type="button"
+            className="underline"
+            onClick={() => setFiles([])}
+          >
+            Remove files
+          </button>
+        </p>
+      )}
+      {(text.trim() || files.length > 0) && changes.length === 0 && (
+        <p className="text-destructive">No diff found in the input.</p>
+      )}
+      {changes.length > 1 && (
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={combine}
+            onChange={(e) => setCombine(e.target.checked)}
+          />
+          Combine the {changes.length} patches into one entry
+        </label>
+      )}
+      {entries.length > 0 && (
+        <ul className="space-y-1">
+          {entries.map((p, i) => {
+            const count = parseUnifiedDiff(p.diff).length;
+            return (
+              <li key={i}>
+                <span className="font-medium">{p.title}</span>
+                <span className="text-muted-foreground">
+                  {" "}
+                  ({p.author && `${p.author}, `}
+                  {count} {count === 1 ? "file" : "files"})
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => onImport(entries)}
+          disabled={entries.length === 0}
+        >
+          {entries.length > 1 ? `Add ${entries.length} entries` : "Add entry"}
+        </Button>
+      </div>
+    </div>
+  );
+}
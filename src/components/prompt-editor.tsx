@@ -0,0 +1,324 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Loader2, PlayIcon, SquareIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { AudienceProfile, audienceField } from "@/lib/audiences";
+import {
+  BUILT_IN_PROMPT,
+  BUILT_IN_PROMPT_ID,
+  PROMPT_VARIABLES,
+  PromptTemplate,
+  PromptVersionEntity,
+  promptVersionLabel,
+  unknownVariables,
+} from "@/lib/prompt-templates";
+import { readStreamEvents } from "@/lib/stream-events";
+
+interface PromptSettingsProps {
+  // Saved versions; the built-in template is added here
+  versions: PromptVersionEntity[];
+  activeId: number | undefined;
+  repositoryLabel: string;
+  onSaveVersion: (template: PromptTemplate, note: string) => Promise<number>;
+  onActivate: (id: number | undefined) => void;
+  onClose: () => void;
+}
+
+export function PromptSettings({
+  versions,
+  activeId,
+  repositoryLabel,
+  onSaveVersion,
+  onActivate,
+  onClose,
+}: PromptSettingsProps) {
+  const all = [BUILT_IN_PROMPT, ...versions];
+  const find = (id: number) => all.find((v) => v.id === id) ?? BUILT_IN_PROMPT;
+
+  const [selectedId, setSelectedId] = useState(activeId ?? BUILT_IN_PROMPT_ID);
+  const [system, setSystem] = useState(find(selectedId).system);
+  const [user, setUser] = useState(find(selectedId).user);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const selected = find(selectedId);
+  const dirty = system !== selected.system || user !== selected.user;
+  const unknown = unknownVariables(`${system}\n${user}`);
+
+  const select = (id: number) => {
+    const version = find(id);
+    setSelectedId(id);
+    setSystem(version.system);
+    setUser(version.user);
+    setNote("");
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const id = await onSaveVersion({ system, user }, note.trim());
+      setSelectedId(id);
+      setNote("");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-background p-4 space-y-3 text-sm">
+      <h3 className="font-semibold">Prompt for {repositoryLabel}</h3>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selectedId}
+          onChange={(e) => select(parseInt(e.target.value, 10))}
+          className="h-9 rounded-md border bg-background px-2"
+        >
+          {all.map((v) => (
+            <option key={v.id} value={v.id}>
+              {promptVersionLabel(v)}
+              {v.id === (activeId ?? BUILT_IN_PROMPT_ID) ? " (active)" : ""}
+            </option>
+          ))}
+        </select>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={dirty || selectedId === (activeId ?? BUILT_IN_PROMPT_ID)}
+          onClick={() =>
+            onActivate(
+              selectedId === BUILT_IN_PROMPT_ID ? undefined : selectedId
+            )
+          }
+        >
+          Use for this repository
+        </Button>
+      </div>
+      <label className="flex flex-col gap-1">
+        System prompt
+        <textarea
+          value={system}
+          onChange={(e) => setSystem(e.target.value)}
+          rows={6}
+          className="rounded-md border bg-background p-2 font-mono text-xs"
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        User prompt
+        <textarea
+          value={user}
+          onChange={(e) => setUser(e.target.value)}
+          rows={4}
+          className="rounded-md border bg-background p-2 font-mono text-xs"
+        />
+      </label>
+      <details className="text-xs text-muted-foreground">
+        <summary className="cursor-pointer">Variables</summary>
+        <ul className="mt-1 space-y-0.5">
+          {Object.entries(PROMPT_VARIABLES).map(([name, description]) => (
+            <li key={name}>
+              <code>{`{{${name}}}`}</code> {description}
+            </li>
+          ))}
+        </ul>
+        <p className="mt-1">
+          The JSON response format is appended to the user prompt
+          automatically.
+        </p>
+      </details>
+      {unknown.length > 0 && (
+        <p className="text-xs text-destructive">
+          Unknown variables are sent as written:{" "}
+          {unknown.map((n) => `{{${n}}}`).join(", ")}
+        </p>
+      )}
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="What changed in this version?"
+          className="h-9 flex-1 min-w-48 rounded-md border bg-background px-3"
+        />
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          Close
+        </Button>
+        <Button
+          size="sm"
+          disabled={!dirty || !note.trim() || !system.trim() || saving}
+          onClick={save}
+        >
+          Save as new version
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface CompareOutput {
+  notes: Record<string, string>;
+  error?: string;
+  running: boolean;
+}
+
+interface PromptCompareProps {
+  versions: PromptVersionEntity[];
+  activeId: number | undefined;
+  audiences: AudienceProfile[];
+  // Body of /api/ai-generated-diff without the prompt
+  request: Record<string, unknown>;
+}
+
+async function runVersion(
+  request: Record<string, unknown>,
+  version: PromptVersionEntity,
+  signal: AbortSignal,
+  update: (output: CompareOutput) => void
+) {
+  const output: CompareOutput = { notes: {}, running: true };
+  update({ ...output });
+  try {
+    const response = await fetch("/api/ai-generated-diff", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...request,
+        prompt: { system: version.system, user: version.user },
+      }),
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      let message = `Request failed (status ${response.status})`;
+      try {
+        const data = await response.json();
+        message = data.error || data.details || message;
+      } catch {}
+      throw new Error(message);
+    }
+    for await (const event of readStreamEvents(response.body)) {
+      if (event.type === "field-delta") {
+        output.notes[event.field] =
+          (output.notes[event.field] ?? "") + event.text;
+      } else if (event.type === "field-complete") {
+        output.notes[event.field] = event.value;
+      } else if (event.type === "error") {
+        output.error = event.message;
+      } else {
+        continue;
+      }
+      update({ ...output, notes: { ...output.notes } });
+    }
+  } catch (err) {
+    output.error = signal.aborted
+      ? "Stopped."
+      : (err as Error).message || "Comparison failed.";
+  }
+  update({ ...output, notes: { ...output.notes }, running: false });
+}
+
+/**
+ * Runs two prompt versions on the same PR; nothing is saved. Closing the
+ * panel stops both generations upstream.
+ */
+export function PromptCompare({
+  versions,
+  activeId,
+  audiences,
+  request,
+}: PromptCompareProps) {
+  const all = [BUILT_IN_PROMPT, ...versions];
+  const find = (id: number) => all.find((v) => v.id === id) ?? BUILT_IN_PROMPT;
+
+  const initialLeft = activeId ?? BUILT_IN_PROMPT_ID;
+  const [ids, setIds] = useState<[number, number]>([
+    initialLeft,
+    all.find((v) => v.id !== initialLeft)?.id ?? initialLeft,
+  ]);
+  const [outputs, setOutputs] = useState<(CompareOutput | null)[]>([
+    null,
+    null,
+  ]);
+  const running = outputs.some((o) => o?.running);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const run = () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    ids.forEach((id, side) =>
+      runVersion(request, find(id), controller.signal, (output) =>
+        setOutputs((prev) => prev.map((o, i) => (i === side ? output : o)))
+      )
+    );
+  };
+
+  return (
+    <div className="mt-2 rounded border p-3 text-sm space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold">Compare prompt versions</h3>
+        <div className="flex gap-2">
+          {running && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => controllerRef.current?.abort()}
+            >
+              <SquareIcon className="w-4 h-4" />
+              Stop
+            </Button>
+          )}
+          <Button size="sm" onClick={run} disabled={running}>
+            {running ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <PlayIcon className="w-4 h-4" />
+            )}
+            Run both
+          </Button>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Comparison runs are not saved, and their tokens are not counted under
+        &quot;Usage&quot;.
+      </p>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {ids.map((id, side) => (
+          <div key={side} className="space-y-2 min-w-0">
+            <select
+              value={id}
+              disabled={running}
+              onChange={(e) => {
+                const next = parseInt(e.target.value, 10);
+                setIds((prev) =>
+                  side === 0 ? [next, prev[1]] : [prev[0], next]
+                );
+                setOutputs((prev) =>
+                  prev.map((o, i) => (i === side ? null : o))
+                );
+              }}
+              className="h-9 w-full rounded-md border bg-background px-2"
+            >
+              {all.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {promptVersionLabel(v)}
+                </option>
+              ))}
+            </select>
+            {outputs[side]?.error && (
+              <p className="text-destructive">{outputs[side]?.error}</p>
+            )}
+            {outputs[side] &&
+              audiences.map((a) => (
+                <p key={a.id} className="whitespace-pre-wrap">
+                  <strong>{a.name}:</strong>{" "}
+                  {outputs[side]?.notes[audienceField(a.id)] ||
+                    (outputs[side]?.running ? "Generating..." : "")}
+                </p>
+              ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
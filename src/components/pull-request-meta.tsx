@@ -0,0 +1,93 @@
+"use client";
+
+import { GitMergeIcon } from "lucide-react";
+
+import type { ChangedFile, LinkedIssue } from "@/lib/github";
+
+interface PullRequestMetaProps {
+  author?: string | null;
+  mergedAt?: string | null;
+  baseBranch?: string | null;
+  labels?: string[];
+  additions?: number;
+  deletions?: number;
+  files?: ChangedFile[];
+  linkedIssues?: LinkedIssue[];
+  body?: string | null;
+}
+
+// Fields are missing for PRs cached before they were fetched
+export function PullRequestMeta({
+  author,
+  mergedAt,
+  baseBranch,
+  labels = [],
+  additions,
+  deletions,
+  files,
+  linkedIssues = [],
+  body,
+}: PullRequestMetaProps) {
+  return (
+    <div className="mb-3 space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-muted-foreground">
+        {author && <span>@{author}</span>}
+        {(baseBranch || mergedAt) && (
+          <span className="flex items-center gap-1">
+            <GitMergeIcon className="w-4 h-4" />
+            {baseBranch && <code>{baseBranch}</code>}
+            {mergedAt && new Date(mergedAt).toLocaleDateString()}
+          </span>
+        )}
+        {additions !== undefined && deletions !== undefined && (
+          <span>
+            <span className="text-green-700 dark:text-green-400">
+              +{additions}
+            </span>{" "}
+            <span className="text-destructive">−{deletions}</span>
+            {files &&
+              ` in ${files.length} ${files.length === 1 ? "file" : "files"}`}
+          </span>
+        )}
+        {labels.map((label) => (
+          <span
+            key={label}
+            className="rounded bg-muted px-1.5 py-0.5 text-xs"
+          >
+            {label}
+          </span>
+        ))}
+      </div>
+      {linkedIssues.length > 0 && (
+        <div className="flex flex-wrap gap-x-3">
+          <span className="text-muted-foreground">Closes</span>
+          {linkedIssues.map((issue) =>
+            // Local commits have no issue tracker to link to
+            issue.url ? (
+              <a
+                key={issue.number}
+                href={issue.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary hover:underline"
+              >
+                #{issue.number}
+                {issue.title && ` ${issue.title}`}
+              </a>
+            ) : (
+              <span key={issue.number}>#{issue.number}</span>
+            )
+          )}
+        </div>
+      )}
+      {body?.trim() && (
+        <details>
+          <summary className="cursor-pointer text-muted-foreground">
+            Description
+          </summary>
+          <p className="mt-1 whitespace-pre-wrap break-words">{body}</p>
+        </details>
+      )}
+    </div>
+  );
+}
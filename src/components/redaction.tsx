@@ -0,0 +1,198 @@
+"use client";
+
+import { useState } from "react";
+import { ShieldAlertIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DEFAULT_REDACTION_RULES,
+  RedactionAction,
+  RedactionConfig,
+  RedactionFinding,
+  patternError,
+} from "@/lib/redaction";
+import { cn } from "@/lib/utils";
+
+const toLines = (value: string) =>
+  value
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+
+type RuleSetting = RedactionAction | "off";
+
+interface RedactionSettingsProps {
+  config: RedactionConfig;
+  repositoryLabel: string;
+  onSave: (config: RedactionConfig) => void;
+  onClose: () => void;
+}
+
+export function RedactionSettings({
+  config,
+  repositoryLabel,
+  onSave,
+  onClose,
+}: RedactionSettingsProps) {
+  const [settings, setSettings] = useState<Record<string, RuleSetting>>(() =>
+    Object.fromEntries(
+      DEFAULT_REDACTION_RULES.map((r) => [
+        r.id,
+        config.disabled.includes(r.id)
+          ? "off"
+          : (config.actions[r.id] ?? r.action),
+      ])
+    )
+  );
+  const [redact, setRedact] = useState(config.redact.join("\n"));
+  const [block, setBlock] = useState(config.block.join("\n"));
+  const [allow, setAllow] = useState(config.allow.join("\n"));
+  const invalid = [...toLines(redact), ...toLines(block)]
+    .map((p) => ({ pattern: p, error: patternError(p) }))
+    .filter((p) => p.error);
+
+  const save = () => {
+    const actions: Record<string, RedactionAction> = {};
+    DEFAULT_REDACTION_RULES.forEach((r) => {
+      const setting = settings[r.id];
+      if (setting !== "off" && setting !== r.action) actions[r.id] = setting;
+    });
+    onSave({
+      disabled: DEFAULT_REDACTION_RULES.filter(
+        (r) => settings[r.id] === "off"
+      ).map((r) => r.id),
+      actions,
+      redact: toLines(redact),
+      block: toLines(block),
+      allow: toLines(allow),
+    });
+  };
+
+  return (
+    <div className="rounded-lg border bg-background p-4 space-y-3 text-sm">
+      <h3 className="font-semibold">Redaction for {repositoryLabel}</h3>
+      <p className="text-muted-foreground">
+        Titles, descriptions and diffs are checked before they are sent to the
+        model. Matches are replaced with placeholders such as{" "}
+        <code>[REDACTED_EMAIL_1]</code>; a blocking match stops the PR from
+        being sent at all.
+      </p>
+      <div className="grid gap-x-4 gap-y-1 sm:grid-cols-2">
+        {DEFAULT_REDACTION_RULES.map((rule) => (
+          <label
+            key={rule.id}
+            className="flex items-center justify-between gap-2"
+          >
+            {rule.label}
+            <select
+              value={settings[rule.id]}
+              onChange={(e) =>
+                setSettings((prev) => ({
+                  ...prev,
+                  [rule.id]: e.target.value as RuleSetting,
+                }))
+              }
+              className="h-8 rounded-md border bg-background px-2"
+            >
+              <option value="redact">Redact</option>
+              <option value="block">Block sending</option>
+              <option value="off">Off</option>
+            </select>
+          </label>
+        ))}
+      </div>
+      <div className="grid gap-3 sm:grid-cols-3">
+        <label className="flex flex-col gap-1">
+          Also redact (one regular expression per line)
+          <textarea
+            value={redact}
+            onChange={(e) => setRedact(e.target.value)}
+            rows={3}
+            className="rounded-md border bg-background p-2 font-mono text-xs"
+            placeholder="CUST-\d{6}"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Block sending when matching
+          <textarea
+            value={block}
+            onChange={(e) => setBlock(e.target.value)}
+            rows={3}
+            className="rounded-md border bg-background p-2 font-mono text-xs"
+            placeholder="INTERNAL ONLY"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Never redact values containing
+          <textarea
+            value={allow}
+            onChange={(e) => setAllow(e.target.value)}
+            rows={3}
+            className="rounded-md border bg-background p-2 font-mono text-xs"
+            placeholder="example.com"
+          />
+        </label>
+      </div>
+      {invalid.length > 0 && (
+        <ul className="text-destructive">
+          {invalid.map((p) => (
+            <li key={p.pattern}>
+              <code>{p.pattern}</code>: {p.error}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={save} disabled={invalid.length > 0}>
+          Save rules
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function RedactionReport({
+  findings,
+}: {
+  findings: RedactionFinding[];
+}) {
+  if (!findings.length) return null;
+  const blocked = findings.some((f) => f.action === "block");
+  return (
+    <details
+      className={cn(
+        "mb-3 rounded-md border p-3 text-sm",
+        blocked && "border-destructive/50 bg-destructive/10"
+      )}
+      open={blocked}
+    >
+      <summary className="flex cursor-pointer items-center gap-2">
+        <ShieldAlertIcon className="w-4 h-4" />
+        {blocked
+          ? "Not sent to the model: a blocking rule matched"
+          : `${findings.length} ${
+              findings.length === 1 ? "value is" : "values are"
+            } redacted before sending`}
+      </summary>
+      <ul className="mt-2 space-y-1">
+        {findings.map((f) => (
+          <li key={f.placeholder}>
+            <code>{f.placeholder}</code>{" "}
+            <span className={f.action === "block" ? "text-destructive" : ""}>
+              {f.label}
+              {f.action === "block" && " (blocks sending)"}
+            </span>
+            <span className="text-muted-foreground">
+              {" "}
+              in {f.paths.join(", ")}
+              {f.count > 1 && `, ${f.count} times`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
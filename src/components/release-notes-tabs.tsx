@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { PencilIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import type { AudienceProfile } from "@/lib/audiences";
+import { cn } from "@/lib/utils";
+
+interface ReleaseNotesTabsProps {
+  // Enabled audiences, plus disabled ones that still have a stored note
+  audiences: AudienceProfile[];
+  notes: Record<string, string>;
+  edited: string[];
+  // Stopped before the model finished the note
+  incomplete: string[];
+  generating: boolean;
+  onSaveNote: (audienceId: string, text: string) => void;
+}
+
+export function ReleaseNotesTabs({
+  audiences,
+  notes,
+  edited,
+  incomplete,
+  generating,
+  onSaveNote,
+}: ReleaseNotesTabsProps) {
+  const [selected, setSelected] = useState<string | null>(null);
+  // Text being edited for the active tab, null when not editing
+  const [draft, setDraft] = useState<string | null>(null);
+  if (!audiences.length) return null;
+  const active = audiences.find((a) => a.id === selected) ?? audiences[0];
+
+  const select = (id: string) => {
+    setSelected(id);
+    setDraft(null);
+  };
+
+  return (
+    <div>
+      <div role="tablist" className="flex flex-wrap gap-1 border-b mb-2">
+        {audiences.map((a) => (
+          <button
+            key={a.id}
+            role="tab"
+            aria-selected={a.id === active.id}
+            onClick={() => select(a.id)}
+            className={cn(
+              "px-3 py-1 text-sm -mb-px border-b-2 transition-colors",
+              a.id === active.id
+                ? "border-primary font-medium"
+                : "border-transparent text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {a.name}
+            {edited.includes(a.id) && (
+              <span className="ml-1 text-xs text-muted-foreground">
+                (edited)
+              </span>
+            )}
+            {incomplete.includes(a.id) && (
+              <span className="ml-1 text-xs text-yellow-700 dark:text-yellow-400">
+                (incomplete)
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+      <div role="tabpanel">
+        {draft === null ? (
+          <div className="flex items-start justify-between gap-2">
+            <p>{notes[active.id] || (generating ? "Generating..." : "")}</p>
+            {!generating && (
+              <Button
+                variant="ghost"
+                size="sm"
+                aria-label={`Edit ${active.name} note`}
+                onClick={() => setDraft(notes[active.id] ?? "")}
+              >
+                <PencilIcon className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={3}
+              autoFocus
+              className="w-full rounded-md border bg-background p-2"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                disabled={draft.trim() === (notes[active.id] ?? "").trim()}
+                onClick={() => {
+                  onSaveNote(active.id, draft.trim());
+                  setDraft(null);
+                }}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
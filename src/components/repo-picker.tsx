@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDownIcon, GitBranch, Star } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  parseRepositoryInput,
+  RepositoryEntity,
+  RepositoryRef,
+  repositoryLabel,
+} from "@/lib/db";
+import {
+  SOURCE_PROVIDER_LABELS,
+  SOURCE_PROVIDERS,
+  SourceProvider,
+} from "@/lib/sources/types";
+import { cn } from "@/lib/utils";
+
+interface RepoPickerProps {
+  current: string | null;
+  repositories: RepositoryEntity[];
+  disabled?: boolean;
+  // `baseUrl` is set for repositories on a self-hosted instance
+  onSelect: (ref: RepositoryRef, baseUrl?: string) => void;
+  onToggleFavorite: (slug: string) => void;
+}
+
+export function RepoPicker({
+  current,
+  repositories,
+  disabled,
+  onSelect,
+  onToggleFavorite,
+}: RepoPickerProps) {
+  const [input, setInput] = useState("");
+  const [provider, setProvider] = useState<SourceProvider>("github");
+  const [inputError, setInputError] = useState<string | null>(null);
+
+  const currentRepository = repositories.find((r) => r.slug === current);
+  const favorites = repositories.filter((r) => r.favorite);
+  const recent = repositories
+    .filter((r) => !r.favorite)
+    .sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+    .slice(0, 8);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = parseRepositoryInput(input, provider);
+    if (!parsed) {
+      setInputError(
+        provider === "local"
+          ? "Use the name of a checkout in LOCAL_GIT_ROOT"
+          : "Use the form owner/repo or paste the repository's URL"
+      );
+      return;
+    }
+    setInputError(null);
+    setInput("");
+    const { baseUrl, ...ref } = parsed;
+    onSelect(ref, baseUrl);
+  };
+
+  const renderItem = (r: RepositoryEntity) => (
+    <DropdownMenuItem
+      key={r.slug}
+      onSelect={() =>
+        onSelect({ provider: r.provider, owner: r.owner, repo: r.repo })
+      }
+      className="flex justify-between gap-4"
+    >
+      <span className={cn(r.slug === current && "font-semibold")}>
+        {repositoryLabel(r)}
+        {(r.provider !== "github" || r.baseUrl) && (
+          <span
+            className="ml-2 text-xs text-muted-foreground"
+            title={r.baseUrl}
+          >
+            {SOURCE_PROVIDER_LABELS[r.provider]}
+          </span>
+        )}
+      </span>
+      <button
+        type="button"
+        aria-label={r.favorite ? "Remove from favorites" : "Add to favorites"}
+        onClick={(e) => {
+          e.stopPropagation();
+          e.preventDefault();
+          onToggleFavorite(r.slug);
+        }}
+      >
+        <Star
+          className={cn(
+            "w-4 h-4",
+            r.favorite ? "fill-current text-yellow-500" : "text-muted-foreground"
+          )}
+        />
+      </button>
+    </DropdownMenuItem>
+  );
+
+  return (
+    <div className="flex flex-wrap items-start gap-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" disabled={disabled}>
+            <GitBranch className="w-4 h-4" />
+            {(currentRepository && repositoryLabel(currentRepository)) ??
+              "Default repository"}
+            <ChevronDownIcon className="w-4 h-4 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="min-w-64">
+          {favorites.length > 0 && (
+            <>
+              <DropdownMenuLabel>Favorites</DropdownMenuLabel>
+              {favorites.map(renderItem)}
+            </>
+          )}
+          {favorites.length > 0 && recent.length > 0 && (
+            <DropdownMenuSeparator />
+          )}
+          {recent.length > 0 && (
+            <>
+              <DropdownMenuLabel>Recent</DropdownMenuLabel>
+              {recent.map(renderItem)}
+            </>
+          )}
+          {repositories.length === 0 && (
+            <DropdownMenuLabel className="text-muted-foreground font-normal">
+              No repositories yet
+            </DropdownMenuLabel>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <form onSubmit={handleSubmit} className="flex flex-col gap-1">
+        <div className="flex gap-2">
+          <select
+            value={provider}
+            onChange={(e) => setProvider(e.target.value as SourceProvider)}
+            aria-label="Host"
+            disabled={disabled}
+            className="h-9 rounded-md border bg-background px-2 text-sm"
+          >
+            {SOURCE_PROVIDERS.map((id) => (
+              <option key={id} value={id}>
+                {SOURCE_PROVIDER_LABELS[id]}
+              </option>
+            ))}
+          </select>
+          <input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={
+              provider === "local" ? "checkout name" : "owner/repo or URL"
+            }
+            aria-label="Repository"
+            disabled={disabled}
+            className="h-9 rounded-md border bg-background px-3 text-sm"
+          />
+          <Button type="submit" variant="secondary" disabled={disabled}>
+            Open
+          </Button>
+        </div>
+        {inputError && (
+          <span className="text-xs text-destructive">{inputError}</span>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import type { ReviewStatus } from "@/lib/db";
+import { cn } from "@/lib/utils";
+
+export const REVIEW_STATUSES: Record<
+  ReviewStatus,
+  { label: string; className: string }
+> = {
+  draft: { label: "Draft", className: "bg-muted text-muted-foreground" },
+  "needs-review": {
+    label: "Needs review",
+    className: "bg-yellow-500/15 text-yellow-700 dark:text-yellow-400",
+  },
+  approved: {
+    label: "Approved",
+    className: "bg-green-500/15 text-green-700 dark:text-green-400",
+  },
+  excluded: {
+    label: "Excluded from release",
+    className: "bg-destructive/15 text-destructive line-through",
+  },
+};
+
+export function ReviewStatusBadge({ status }: { status: ReviewStatus }) {
+  if (status === "draft") return null;
+  const { label, className } = REVIEW_STATUSES[status];
+  return (
+    <span
+      className={cn(
+        "shrink-0 rounded px-1.5 py-0.5 text-xs font-medium",
+        className
+      )}
+    >
+      {label}
+    </span>
+  );
+}
+
+interface ReviewStatusSelectProps {
+  status: ReviewStatus;
+  onChange: (status: ReviewStatus) => void;
+}
+
+export function ReviewStatusSelect({
+  status,
+  onChange,
+}: ReviewStatusSelectProps) {
+  return (
+    <select
+      aria-label="Review status"
+      value={status}
+      onChange={(e) => onChange(e.target.value as ReviewStatus)}
+      className="h-8 rounded-md border bg-background px-2 text-sm"
+    >
+      {Object.entries(REVIEW_STATUSES).map(([value, { label }]) => (
+        <option key={value} value={value}>
+          {label}
+        </option>
+      ))}
+    </select>
+  );
+}
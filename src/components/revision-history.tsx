@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import { RotateCcwIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import type { AudienceProfile } from "@/lib/audiences";
+import type { RevisionEntity } from "@/lib/db";
+import {
+  BUILT_IN_PROMPT,
+  PromptVersionEntity,
+  promptVersionLabel,
+} from "@/lib/prompt-templates";
+import { diffWords } from "@/lib/word-diff";
+import { cn } from "@/lib/utils";
+
+interface RevisionHistoryProps {
+  // Newest first
+  revisions: RevisionEntity[];
+  currentId: number | undefined;
+  audiences: AudienceProfile[];
+  promptVersions: PromptVersionEntity[];
+  onRestore: (revision: RevisionEntity) => void;
+}
+
+function WordDiff({ before, after }: { before: string; after: string }) {
+  return (
+    <span>
+      {diffWords(before, after).map((segment, i) => (
+        <span
+          key={i}
+          className={cn(
+            segment.type === "add" &&
+              "bg-green-500/20 text-green-700 dark:text-green-400",
+            segment.type === "remove" &&
+              "bg-red-500/20 text-red-700 line-through dark:text-red-400"
+          )}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+function RevisionSelect({
+  revisions,
+  value,
+  onChange,
+  label,
+}: {
+  revisions: RevisionEntity[];
+  value: number | undefined;
+  onChange: (id: number) => void;
+  label: (revision: RevisionEntity) => string;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value, 10))}
+      className="h-8 rounded-md border bg-background px-2"
+    >
+      {revisions.map((r) => (
+        <option key={r.id} value={r.id}>
+          {label(r)}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export function RevisionHistory({
+  revisions,
+  currentId,
+  audiences,
+  promptVersions,
+  onRestore,
+}: RevisionHistoryProps) {
+  const [fromId, setFromId] = useState(revisions[1]?.id);
+  const [toId, setToId] = useState(revisions[0]?.id);
+
+  if (!revisions.length) {
+    return (
+      <p className="mt-2 text-sm text-muted-foreground">No revisions yet.</p>
+    );
+  }
+
+  const promptLabel = (id: number) => {
+    const version = [BUILT_IN_PROMPT, ...promptVersions].find(
+      (v) => v.id === id
+    );
+    return version ? promptVersionLabel(version) : `v${id}`;
+  };
+  const from = revisions.find((r) => r.id === fromId);
+  const to = revisions.find((r) => r.id === toId);
+  const label = (r: RevisionEntity) =>
+    `#${r.id} · ${new Date(r.createdAt).toLocaleString()}`;
+  const audienceIds = Array.from(
+    new Set([
+      ...Object.keys(from?.notes ?? {}),
+      ...Object.keys(to?.notes ?? {}),
+    ])
+  );
+
+  return (
+    <div className="mt-2 rounded border p-3 text-sm space-y-3">
+      <h3 className="font-semibold">History</h3>
+      <ul className="space-y-1">
+        {revisions.map((r) => (
+          <li
+            key={r.id}
+            className="flex flex-wrap items-center justify-between gap-2"
+          >
+            <span>
+              {label(r)}{" "}
+              <span className="text-muted-foreground">
+                {r.model} · {promptLabel(r.promptVersionId)}
+              </span>
+            </span>
+            {r.id === currentId ? (
+              <span className="text-xs font-medium">Current</span>
+            ) : (
+              <Button variant="ghost" size="sm" onClick={() => onRestore(r)}>
+                <RotateCcwIcon className="w-4 h-4" />
+                Restore
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {revisions.length > 1 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            Compare
+            <RevisionSelect
+              revisions={revisions}
+              value={fromId}
+              onChange={setFromId}
+              label={label}
+            />
+            with
+            <RevisionSelect
+              revisions={revisions}
+              value={toId}
+              onChange={setToId}
+              label={label}
+            />
+          </div>
+          {from && to && (
+            <div className="space-y-1 whitespace-pre-wrap">
+              {audienceIds.map((id) => (
+                <p key={id}>
+                  <strong>
+                    {audiences.find((a) => a.id === id)?.name ?? id}:
+                  </strong>{" "}
+                  <WordDiff
+                    before={from.notes[id] ?? ""}
+                    after={to.notes[id] ?? ""}
+                  />
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
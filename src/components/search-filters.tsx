@@ -0,0 +1,149 @@
+"use client";
+
+import { SearchIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  EMPTY_FILTERS,
+  PULL_REQUEST_STATES,
+  PullRequestState,
+  SearchFilters,
+  hasActiveFilters,
+  highlight,
+} from "@/lib/search";
+
+const fieldClass = "h-8 rounded-md border bg-background px-2";
+
+interface SearchFilterBarProps {
+  filters: SearchFilters;
+  authors: string[];
+  labels: string[];
+  matchCount: number;
+  totalCount: number;
+  onChange: (filters: SearchFilters) => void;
+}
+
+export function SearchFilterBar({
+  filters,
+  authors,
+  labels,
+  matchCount,
+  totalCount,
+  onChange,
+}: SearchFilterBarProps) {
+  const set = (patch: Partial<SearchFilters>) =>
+    onChange({ ...filters, ...patch });
+
+  return (
+    <div className="mb-4 space-y-2 text-sm">
+      <label className="flex items-center gap-2 rounded-md border bg-background px-2">
+        <SearchIcon className="w-4 h-4 text-muted-foreground" />
+        <input
+          type="search"
+          value={filters.q}
+          onChange={(e) => set({ q: e.target.value })}
+          placeholder="Search titles, descriptions, files, diffs and notes"
+          className="h-9 flex-1 bg-transparent outline-none"
+        />
+      </label>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filters.author}
+          onChange={(e) => set({ author: e.target.value })}
+          className={fieldClass}
+          aria-label="Author"
+        >
+          <option value="">All authors</option>
+          {authors.map((a) => (
+            <option key={a} value={a}>
+              @{a}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.label}
+          onChange={(e) => set({ label: e.target.value })}
+          className={fieldClass}
+          aria-label="Label"
+        >
+          <option value="">All labels</option>
+          {labels.map((l) => (
+            <option key={l} value={l}>
+              {l}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.state}
+          onChange={(e) =>
+            set({ state: e.target.value as PullRequestState | "" })
+          }
+          className={fieldClass}
+          aria-label="State"
+        >
+          <option value="">Any state</option>
+          {Object.entries(PULL_REQUEST_STATES).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1">
+          Merged
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => set({ from: e.target.value })}
+            className={fieldClass}
+            aria-label="Merged from"
+          />
+          –
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => set({ to: e.target.value })}
+            className={fieldClass}
+            aria-label="Merged until"
+          />
+        </label>
+        <input
+          value={filters.path}
+          onChange={(e) => set({ path: e.target.value })}
+          placeholder="Path prefix, e.g. src/lib/"
+          className={`${fieldClass} font-mono`}
+          aria-label="Touched path prefix"
+        />
+        {hasActiveFilters(filters) && (
+          <>
+            <span className="text-muted-foreground">
+              {matchCount} of {totalCount} PRs
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(EMPTY_FILTERS)}
+            >
+              Clear
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function Highlighted({ text, query }: { text: string; query: string }) {
+  return (
+    <>
+      {highlight(text, query).map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="rounded-sm bg-yellow-200 dark:bg-yellow-700">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
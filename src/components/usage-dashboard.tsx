@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from "react";
+import { PlusIcon, Trash2Icon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { RevisionEntity, repositoryLabel } from "@/lib/db";
+import {
+  ModelPrice,
+  findPrice,
+  formatCost,
+  formatTokens,
+  normalizePrices,
+  usageCost,
+} from "@/lib/usage";
+
+const DAYS_SHOWN = 14;
+
+interface UsageRow {
+  label: string;
+  generations: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  // Generations whose model has no price
+  unpriced: number;
+}
+
+function dayLabel(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function groupUsage(
+  revisions: RevisionEntity[],
+  prices: ModelPrice[],
+  labelOf: (revision: RevisionEntity) => string
+): UsageRow[] {
+  const rows = new Map<string, UsageRow>();
+  revisions.forEach((revision) => {
+    if (!revision.usage) return;
+    const label = labelOf(revision);
+    const row = rows.get(label) ?? {
+      label,
+      generations: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+      unpriced: 0,
+    };
+    const price = findPrice(prices, revision.model);
+    row.generations++;
+    row.promptTokens += revision.usage.promptTokens;
+    row.completionTokens += revision.usage.completionTokens;
+    if (price) row.cost += usageCost(revision.usage, price);
+    else row.unpriced++;
+    rows.set(label, row);
+  });
+  return Array.from(rows.values());
+}
+
+function UsageTable({ title, rows }: { title: string; rows: UsageRow[] }) {
+  return (
+    <div>
+      <h4 className="font-medium mb-1">{title}</h4>
+      <table className="w-full text-xs">
+        <thead className="text-muted-foreground text-left">
+          <tr>
+            <th className="font-normal py-1"></th>
+            <th className="font-normal py-1 text-right">Generations</th>
+            <th className="font-normal py-1 text-right">Prompt</th>
+            <th className="font-normal py-1 text-right">Completion</th>
+            <th className="font-normal py-1 text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label} className="border-t">
+              <td className="py-1 break-all">{row.label}</td>
+              <td className="py-1 text-right">{row.generations}</td>
+              <td className="py-1 text-right">
+                {formatTokens(row.promptTokens)}
+              </td>
+              <td className="py-1 text-right">
+                {formatTokens(row.completionTokens)}
+              </td>
+              <td className="py-1 text-right">
+                {formatCost(row.cost)}
+                {row.unpriced > 0 && (
+                  <span
+                    className="text-muted-foreground"
+                    title={`${row.unpriced} without a price`}
+                  >
+                    *
+                  </span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+interface UsageDashboardProps {
+  // Revisions with usage, any repository
+  revisions: RevisionEntity[];
+  prices: ModelPrice[];
+  onSavePrices: (prices: ModelPrice[]) => void;
+  onClose: () => void;
+}
+
+export function UsageDashboard({
+  revisions,
+  prices,
+  onSavePrices,
+  onClose,
+}: UsageDashboardProps) {
+  const [draft, setDraft] = useState<ModelPrice[]>(prices);
+
+  const update = (index: number, patch: Partial<ModelPrice>) =>
+    setDraft((prev) =>
+      prev.map((p, i) => (i === index ? { ...p, ...patch } : p))
+    );
+
+  const [total] = groupUsage(revisions, prices, () => "All");
+  const since = Date.now() - DAYS_SHOWN * 24 * 60 * 60 * 1000;
+  const byDay = groupUsage(
+    revisions.filter((r) => r.createdAt >= since),
+    prices,
+    (r) => dayLabel(r.createdAt)
+  ).reverse();
+  const byRepository = groupUsage(revisions, prices, repositoryLabel).sort(
+    (a, b) => b.promptTokens - a.promptTokens
+  );
+  const byModel = groupUsage(
+    revisions,
+    prices,
+    (r) => `${r.llmProvider}/${r.model}`
+  ).sort((a, b) => b.promptTokens - a.promptTokens);
+  const estimated = revisions.filter((r) => r.usage?.estimated).length;
+
+  const models = draft.map((p) => p.model.trim());
+  const invalid = draft.some(
+    (p, i) =>
+      !p.model.trim() ||
+      models.indexOf(p.model.trim()) !== i ||
+      !(p.inputPerMillion >= 0) ||
+      !(p.outputPerMillion >= 0)
+  );
+
+  return (
+    <div className="rounded-lg border bg-background p-4 space-y-4 text-sm">
+      <h3 className="font-semibold">Usage</h3>
+      {total ? (
+        <>
+          <p className="text-muted-foreground">
+            {total.generations} generations used{" "}
+            {formatTokens(total.promptTokens + total.completionTokens)} tokens,
+            about {formatCost(total.cost)} at the prices below.
+            {estimated > 0 &&
+              ` Counts of ${estimated} generations are partly estimated.`}
+            {total.unpriced > 0 &&
+              ` ${total.unpriced} generations (*) used models without a price.`}
+          </p>
+          <UsageTable title={`Last ${DAYS_SHOWN} days`} rows={byDay} />
+          <UsageTable title="By repository" rows={byRepository} />
+          <UsageTable title="By model" rows={byModel} />
+        </>
+      ) : (
+        <p className="text-muted-foreground">
+          No usage recorded yet. Token counts are kept with every generated
+          revision.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="font-medium">Prices (USD per million tokens)</h4>
+        <p className="text-muted-foreground text-xs">
+          A model name also prices longer names it is the start of, e.g.
+          &quot;gpt-4.1&quot; covers &quot;gpt-4.1-2025-04-14&quot;.
+        </p>
+        {draft.map((p, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input
+              value={p.model}
+              onChange={(e) => update(i, { model: e.target.value })}
+              className="h-8 flex-1 rounded-md border bg-background px-2"
+              placeholder="Model"
+            />
+            <label className="flex items-center gap-1 text-muted-foreground">
+              Input
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={p.inputPerMillion}
+                onChange={(e) =>
+                  update(i, { inputPerMillion: parseFloat(e.target.value) })
+                }
+                className="h-8 w-20 rounded-md border bg-background px-2"
+              />
+            </label>
+            <label className="flex items-center gap-1 text-muted-foreground">
+              Output
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={p.outputPerMillion}
+                onChange={(e) =>
+                  update(i, { outputPerMillion: parseFloat(e.target.value) })
+                }
+                className="h-8 w-20 rounded-md border bg-background px-2"
+              />
+            </label>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label={`Delete price of ${p.model}`}
+              onClick={() => setDraft((prev) => prev.filter((_, j) => j !== i))}
+            >
+              <Trash2Icon className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            setDraft((prev) => [
+              ...prev,
+              { model: "", inputPerMillion: 0, outputPerMillion: 0 },
+            ])
+          }
+        >
+          <PlusIcon className="w-4 h-4" />
+          Add model
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            size="sm"
+            disabled={invalid}
+            onClick={() => onSavePrices(normalizePrices(draft))}
+          >
+            Save prices
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import type { StructuredTool } from "@/lib/llm/types";
+
+export interface AudienceProfile {
+  // Also names the tool field: `${id}_notes`
+  id: string;
+  name: string;
+  instructions: string;
+  tone: string;
+  maxWords: number;
+  enabled: boolean;
+  // Built-in profiles can be edited and disabled but not deleted
+  builtIn?: boolean;
+  createdAt: number;
+}
+
+export const MAX_AUDIENCES = 8;
+
+export const DEFAULT_AUDIENCES: AudienceProfile[] = [
+  {
+    id: "developer",
+    name: "Developer",
+    instructions:
+      "State what changed and why, referencing code entities exactly as given in the diff.",
+    tone: "concise and technical, no marketing tone or exclamation marks",
+    maxWords: 45,
+    enabled: true,
+    builtIn: true,
+    createdAt: 0,
+  },
+  {
+    id: "marketing",
+    name: "Marketing",
+    instructions:
+      "Highlight the user-facing benefit of the same change in simple language.",
+    tone: "clear and user-centric, at most one exclamation mark",
+    maxWords: 30,
+    enabled: true,
+    builtIn: true,
+    createdAt: 1,
+  },
+];
+
+export function audienceField(id: string): string {
+  return `${id}_notes`;
+}
+
+// "Security Team" -> "security_team"; callers make it unique
+export function audienceIdFromName(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "")
+      .slice(0, 32) || "audience"
+  );
+}
+
+export function buildReleaseNotesTool(
+  audiences: AudienceProfile[]
+): StructuredTool {
+  const properties: StructuredTool["parameters"]["properties"] = {};
+  audiences.forEach((a) => {
+    properties[audienceField(a.id)] = {
+      type: "string",
+      description: `Release note for the ${a.name} audience (at most ${a.maxWords} words).`,
+    };
+  });
+  return {
+    name: "set_release_notes",
+    description: `Return release notes for the provided diff, one per audience: ${audiences
+      .map((a) => a.name)
+      .join(", ")}.`,
+    parameters: {
+      type: "object",
+      properties,
+      required: audiences.map((a) => audienceField(a.id)),
+    },
+  };
+}
+
+// Fills the {{audiences}} prompt variable
+export function formatAudiences(audiences: AudienceProfile[]): string {
+  return audiences
+    .map(
+      (a) =>
+        `- ${audienceField(a.id)} (${a.name}): ${a.instructions} Tone: ${a.tone}. At most ${a.maxWords} words.`
+    )
+    .join("\n");
+}
+
+// Accepts untrusted JSON (request bodies) and falls back to the defaults
+export function normalizeAudiences(value: unknown): AudienceProfile[] {
+  if (!Array.isArray(value)) return DEFAULT_AUDIENCES;
+  const seen = new Set<string>();
+  const audiences = value
+    .filter((v): v is Record<string, unknown> => !!v && typeof v === "object")
+    .map((v) => ({
+      id: typeof v.id === "string" ? audienceIdFromName(v.id) : "",
+      name: typeof v.name === "string" ? v.name.trim().slice(0, 60) : "",
+      instructions:
+        typeof v.instructions === "string"
+          ? v.instructions.trim().slice(0, 1000)
+          : "",
+      tone: typeof v.tone === "string" ? v.tone.trim().slice(0, 200) : "",
+      maxWords:
+        typeof v.maxWords === "number" && v.maxWords > 0
+          ? Math.min(Math.round(v.maxWords), 500)
+          : 50,
+      enabled: true,
+      createdAt: typeof v.createdAt === "number" ? v.createdAt : 0,
+    }))
+    .filter((a) => {
+      if (!a.id || !a.name || seen.has(a.id)) return false;
+      seen.add(a.id);
+      return true;
+    })
+    .slice(0, MAX_AUDIENCES);
+  return audiences.length ? audiences : DEFAULT_AUDIENCES;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+
+import { detectBreakingChanges } from "@/lib/breaking-changes";
+
+// A diff of one file whose hunk removes `removed` and adds `added`
+function change(path: string, removed: string[], added: string[]): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -1,${removed.length} +1,${added.length} @@`,
+    ...removed.map((line) => `-${line}`),
+    ...added.map((line) => `+${line}`),
+  ].join("\n");
+}
+
+// Changes of `send`'s parameter list from `before` to `after`
+const signature = (before: string, after: string) =>
+  detectBreakingChanges(
+    change(
+      "src/client.ts",
+      [`export function send(${before}) {`],
+      [`export function send(${after}) {`]
+    )
+  );
+
+describe("detectBreakingChanges", () => {
+  const before = "url: string, body: Body";
+
+  it("accepts optional parameters added at the end", () => {
+    expect(signature(before, `${before}, retries = 3`)).toEqual([]);
+    expect(signature(before, `${before}, opts?: Options`)).toEqual([]);
+    expect(signature(before, `${before}, ...hooks: Hook[]`)).toEqual([]);
+  });
+
+  it("flags required, removed and reordered parameters", () => {
+    expect(signature(before, `${before}, timeout: number`)).toEqual([
+      expect.objectContaining({
+        kind: "changed-signature",
+        path: "src/client.ts",
+        name: "send",
+        detail:
+          "`send(url: string, body: Body)` became " +
+          "`send(url: string, body: Body, timeout: number)`",
+      }),
+    ]);
+    expect(signature(before, "url: string")).toHaveLength(1);
+    expect(signature(before, "body: Body, url: string")).toHaveLength(1);
+    // An optional parameter that became required
+    const optional = `${before}, opts?: Options`;
+    expect(signature(optional, `${before}, opts: Options`)).toHaveLength(1);
+  });
+
+  it("splits parameters with generics and function types", () => {
+    const params = "items: Map<string, number>, fn: (x: number) => void";
+    expect(signature(params, `${params}, limit?: number`)).toEqual([]);
+    expect(signature(params, "items: Map<string, number>")).toHaveLength(1);
+  });
+
+  it("tells renamed config keys from removed ones", () => {
+    const diff = [
+      change(
+        "config/app.yaml",
+        ["  timeout: 30", "  legacy_mode: true"],
+        ["  request_timeout: 30"]
+      ),
+      change("config/db.json", ['  "pool": 5'], []),
+    ].join("\n");
+
+    expect(detectBreakingChanges(diff)).toEqual([
+      expect.objectContaining({
+        kind: "renamed-config-key",
+        path: "config/app.yaml",
+        name: "timeout",
+        detail: "config key `timeout` was renamed to `request_timeout`",
+      }),
+      expect.objectContaining({
+        kind: "removed-config-key",
+        name: "legacy_mode",
+      }),
+      expect.objectContaining({ kind: "removed-config-key", name: "pool" }),
+    ]);
+  });
+
+  it("ignores changed values and keys moved within the file", () => {
+    const diff = change(
+      "config/app.yaml",
+      ["  timeout: 30", "  retries: 3"],
+      ["  timeout: 60", "  retries: 3"]
+    );
+    expect(detectBreakingChanges(diff)).toEqual([]);
+  });
+
+  it("reports removed exports but not ones moved to another file", () => {
+    const diff = [
+      change(
+        "src/a.ts",
+        ["export function kept() {}", "export class Gone {}"],
+        []
+      ),
+      change("src/b.ts", [], ["export function kept() {}"]),
+    ].join("\n");
+    expect(detectBreakingChanges(diff)).toEqual([
+      expect.objectContaining({ kind: "removed-export", name: "Gone" }),
+    ]);
+  });
+});
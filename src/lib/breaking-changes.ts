@@ -0,0 +1,302 @@
+import { DiffFile, parseUnifiedDiff } from "@/lib/diff-parser";
+
+export type BreakingChangeKind =
+  | "removed-export"
+  | "changed-signature"
+  | "removed-flag"
+  | "removed-config-key"
+  | "renamed-config-key";
+
+export interface BreakingChange {
+  kind: BreakingChangeKind;
+  path: string;
+  // Exported symbol, CLI flag or config key
+  name: string;
+  detail: string;
+}
+
+interface Declaration {
+  name: string;
+  // Parameter list without the parentheses; null for non-callables
+  params: string | null;
+}
+
+// Declarations of a language; the first group captures the name, and the
+// parameter list follows the match when it ends in "("
+interface LanguageRules {
+  extensions: RegExp;
+  declarations: RegExp[];
+}
+
+const LANGUAGES: LanguageRules[] = [
+  {
+    extensions: /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/,
+    declarations: [
+      /^export\s+(?:default\s+)?(?:async\s+)?function\s*\*?\s*([\w$]+)\s*(?:<[^(]*>)?\(/,
+      /^export\s+(?:const|let|var)\s+([\w$]+)(?:\s*:[^=]+)?\s*=\s*(?:async\s+)?(?:function\s*\*?\s*)?\(/,
+      /^export\s+(?:const|let|var)\s+([\w$]+)/,
+      /^export\s+(?:default\s+)?(?:abstract\s+)?(?:class|interface|type|enum|namespace)\s+([\w$]+)/,
+      /^export\s+declare\s+(?:function|const|class|interface|type|enum)\s+([\w$]+)/,
+    ],
+  },
+  {
+    extensions: /\.pyi?$/,
+    // Top level only; a leading underscore marks the name private
+    declarations: [
+      /^(?:async\s+)?def\s+([A-Za-z]\w*)\s*\(/,
+      /^class\s+([A-Za-z]\w*)/,
+    ],
+  },
+  {
+    extensions: /\.go$/,
+    // Capitalized names are exported
+    declarations: [
+      /^func\s+(?:\([^)]*\)\s*)?([A-Z]\w*)\s*(?:\[[^\]]*\])?\(/,
+      /^type\s+([A-Z]\w*)/,
+    ],
+  },
+  {
+    extensions: /\.rs$/,
+    declarations: [
+      /^\s*pub\s+(?:async\s+)?(?:unsafe\s+)?fn\s+(\w+)\s*(?:<[^(]*>)?\(/,
+      /^\s*pub\s+(?:struct|enum|trait|type|const|static|mod)\s+(\w+)/,
+    ],
+  },
+  {
+    extensions: /\.(java|kt|cs)$/,
+    declarations: [
+      /^\s*public\s+(?:[\w<>[\],?\s]+\s+)?(\w+)\s*\(/,
+      /^\s*public\s+(?:(?:static|final|abstract|sealed|partial)\s+)*(?:class|interface|enum|record|struct)\s+(\w+)/,
+    ],
+  },
+];
+
+// Lines listing existing exports: "export { a, b as c }"
+const EXPORT_LIST = /^export\s+(?:type\s+)?\{([^}]*)\}/;
+const CLI_FLAG = /["'`](--[a-z][\w-]*)["'`]/gi;
+const CONFIG_FILE = /\.(json|ya?ml|toml)$/i;
+// Manifests and CI config change keys all the time without breaking users
+const IGNORED_CONFIG =
+  /(^|\/)(package(-lock)?\.json|composer\.json|tsconfig[\w.-]*\.json|pnpm-lock\.yaml|\.github\/.*)$/;
+const CONFIG_KEY = /^\s*(?:"([^"]+)"\s*:|([A-Za-z_][\w.-]*)\s*[:=](?!:))/;
+const DOC_OR_TEST =
+  /(^|\/)(docs?|__tests__|tests?|spec|examples?)\/|\.(test|spec)\.\w+$|\.(md|mdx|rst|txt)$/i;
+
+// Nesting change at text[i]; the ">" of an arrow "=>" doesn't close anything
+function nesting(text: string, i: number): number {
+  if ("([{<".includes(text[i])) return 1;
+  if (")]}".includes(text[i])) return -1;
+  return text[i] === ">" && text[i - 1] !== "=" ? -1 : 0;
+}
+
+// Text inside the parentheses that open at the start of `rest`; null when the
+// list continues on the next line
+function parameterList(rest: string): string | null {
+  let depth = 0;
+  for (let i = 0; i < rest.length; i++) {
+    depth += nesting(rest, i);
+    if (depth === 0) return rest.slice(1, i);
+  }
+  return null;
+}
+
+function splitParameters(params: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < params.length; i++) {
+    depth += nesting(params, i);
+    if (params[i] === "," && depth === 0) {
+      parts.push(params.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(params.slice(start));
+  return parts.map((p) => p.trim().replace(/\s+/g, " ")).filter(Boolean);
+}
+
+// Added parameters only break callers when they are required
+const isOptional = (param: string) =>
+  /^\.\.\.|^\*|\?\s*:|=|^\w+\s*:\s*Option</.test(param);
+
+function declarationOf(line: string, rules: LanguageRules): Declaration[] {
+  const list = line.match(EXPORT_LIST);
+  if (list && rules === LANGUAGES[0]) {
+    return list[1]
+      .split(",")
+      .map((entry) => entry.trim().split(/\s+as\s+/).pop()!.trim())
+      .filter(Boolean)
+      .map((name) => ({ name, params: null }));
+  }
+  for (const pattern of rules.declarations) {
+    const match = line.match(pattern);
+    if (!match) continue;
+    const rest = line.slice((match.index ?? 0) + match[0].length - 1);
+    return [
+      {
+        name: match[1],
+        params: match[0].endsWith("(") ? parameterList(rest) : null,
+      },
+    ];
+  }
+  return [];
+}
+
+function changedLines(file: DiffFile, type: "add" | "remove"): string[] {
+  return file.hunks.flatMap((h) =>
+    h.lines.filter((l) => l.type === type).map((l) => l.content)
+  );
+}
+
+function declarations(
+  files: DiffFile[],
+  type: "add" | "remove"
+): Map<string, Declaration & { path: string }> {
+  const found = new Map<string, Declaration & { path: string }>();
+  files.forEach((file) => {
+    const rules = LANGUAGES.find((l) => l.extensions.test(file.path));
+    if (!rules || DOC_OR_TEST.test(file.path)) return;
+    changedLines(file, type).forEach((line) =>
+      declarationOf(line, rules).forEach((d) => {
+        // First one wins; overloads are compared by their first signature
+        if (!found.has(d.name)) found.set(d.name, { ...d, path: file.path });
+      })
+    );
+  });
+  return found;
+}
+
+// Exports anywhere in the diff, so symbols moved to another file don't count
+function apiChanges(files: DiffFile[]): BreakingChange[] {
+  const removed = declarations(files, "remove");
+  const added = declarations(files, "add");
+  const changes: BreakingChange[] = [];
+  removed.forEach((before, name) => {
+    const after = added.get(name);
+    if (!after) {
+      changes.push({
+        kind: "removed-export",
+        path: before.path,
+        name,
+        detail: `\`${name}\` is no longer exported`,
+      });
+      return;
+    }
+    if (before.params === null || after.params === null) return;
+    const oldParams = splitParameters(before.params);
+    const newParams = splitParameters(after.params);
+    const compatible =
+      newParams.length >= oldParams.length &&
+      oldParams.every((p, i) => p === newParams[i]) &&
+      newParams.slice(oldParams.length).every(isOptional);
+    if (!compatible) {
+      changes.push({
+        kind: "changed-signature",
+        path: after.path,
+        name,
+        detail: `\`${name}(${oldParams.join(", ")})\` became \`${name}(${newParams.join(", ")})\``,
+      });
+    }
+  });
+  return changes;
+}
+
+function flagChanges(files: DiffFile[]): BreakingChange[] {
+  const sources = files.filter(
+    (f) => !DOC_OR_TEST.test(f.path) && !CONFIG_FILE.test(f.path)
+  );
+  const flagsIn = (type: "add" | "remove") => {
+    const flags = new Map<string, string>();
+    sources.forEach((file) =>
+      changedLines(file, type).forEach((line) => {
+        for (const m of line.matchAll(CLI_FLAG)) {
+          if (!flags.has(m[1])) flags.set(m[1], file.path);
+        }
+      })
+    );
+    return flags;
+  };
+  const added = flagsIn("add");
+  return Array.from(flagsIn("remove"))
+    .filter(([flag]) => !added.has(flag))
+    .map(([flag, path]) => ({
+      kind: "removed-flag",
+      path,
+      name: flag,
+      detail: `command line flag \`${flag}\` was removed`,
+    }));
+}
+
+// Keys removed from a config file; a key added in the same hunk is taken as
+// its new name
+function configChanges(files: DiffFile[]): BreakingChange[] {
+  const changes: BreakingChange[] = [];
+  files
+    .filter((f) => CONFIG_FILE.test(f.path) && !IGNORED_CONFIG.test(f.path))
+    .filter((f) => f.status !== "added" && !DOC_OR_TEST.test(f.path))
+    .forEach((file) => {
+      const keyOf = (line: string) => {
+        const m = line.match(CONFIG_KEY);
+        return m ? (m[1] ?? m[2]) : null;
+      };
+      const addedInFile = new Set(
+        changedLines(file, "add").map(keyOf).filter(Boolean)
+      );
+      file.hunks.forEach((hunk) => {
+        const removed = hunk.lines
+          .filter((l) => l.type === "remove")
+          .map((l) => keyOf(l.content))
+          .filter((k): k is string => !!k && !addedInFile.has(k));
+        const added = hunk.lines
+          .filter((l) => l.type === "add")
+          .map((l) => keyOf(l.content))
+          .filter(
+            (k): k is string =>
+              !!k &&
+              !hunk.lines.some(
+                (l) => l.type === "remove" && keyOf(l.content) === k
+              )
+          );
+        removed.forEach((key, i) => {
+          const renamed = added[i];
+          changes.push(
+            renamed
+              ? {
+                  kind: "renamed-config-key",
+                  path: file.path,
+                  name: key,
+                  detail: `config key \`${key}\` was renamed to \`${renamed}\``,
+                }
+              : {
+                  kind: "removed-config-key",
+                  path: file.path,
+                  name: key,
+                  detail: `config key \`${key}\` was removed`,
+                }
+          );
+        });
+      });
+    });
+  return changes;
+}
+
+/**
+ * Likely breaking changes in a diff: removed exports and changed parameter
+ * lists (TypeScript/JavaScript, and declarations of Python, Go, Rust, Java,
+ * Kotlin and C#), removed command line flags and removed or renamed config
+ * keys. Heuristic: it only sees the changed lines, not the whole program.
+ */
+export function detectBreakingChanges(diff: string): BreakingChange[] {
+  const files = parseUnifiedDiff(diff).filter((f) => !f.binary);
+  return [...apiChanges(files), ...flagChanges(files), ...configChanges(files)];
+}
+
+// For prompts: one finding per line, at most `max`
+export function formatBreakingChanges(
+  changes: BreakingChange[],
+  max = 20
+): string {
+  const lines = changes.slice(0, max).map((c) => `- ${c.path}: ${c.detail}`);
+  if (changes.length > max) lines.push(`- and ${changes.length - max} more`);
+  return lines.join("\n");
+}
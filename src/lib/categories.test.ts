@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+
+import { classifyPullRequest, parseCategory } from "@/lib/categories";
+
+describe("classifyPullRequest", () => {
+  it("puts breaking markers in the title first", () => {
+    expect(
+      classifyPullRequest({ title: "feat(api)!: drop v1", labels: ["docs"] })
+    ).toEqual({ category: "breaking", source: "title" });
+    expect(
+      classifyPullRequest({ title: "fix: BREAKING CHANGE in retries" })
+    ).toEqual({ category: "breaking", source: "title" });
+  });
+
+  it("lets a breaking label win over the title prefix", () => {
+    expect(
+      classifyPullRequest({
+        title: "feat: new client",
+        labels: ["enhancement", "breaking-change"],
+      })
+    ).toEqual({ category: "breaking", source: "label" });
+  });
+
+  it("prefers the title prefix to other labels and paths", () => {
+    expect(
+      classifyPullRequest({
+        title: "perf(parser): cache tokens",
+        labels: ["bug"],
+        paths: ["docs/perf.md"],
+      })
+    ).toEqual({ category: "performance", source: "title" });
+  });
+
+  it("uses labels in rule order when the title has no known prefix", () => {
+    expect(
+      classifyPullRequest({
+        title: "wip: parser",
+        labels: ["enhancement", "bug"],
+      })
+    ).toEqual({ category: "fix", source: "label" });
+  });
+
+  it("falls back to paths only when all of them agree", () => {
+    expect(
+      classifyPullRequest({
+        title: "Update guides",
+        paths: ["docs/setup.md", "README.md"],
+      })
+    ).toEqual({ category: "docs", source: "paths" });
+    expect(
+      classifyPullRequest({
+        title: "Flaky test",
+        paths: ["src/__tests__/a.ts", ".github/workflows/ci.yml"],
+      })
+    ).toEqual({ category: "internal", source: "paths" });
+    expect(
+      classifyPullRequest({
+        title: "Update things",
+        paths: ["docs/setup.md", "src/index.ts"],
+      })
+    ).toBeNull();
+    expect(classifyPullRequest({ title: "Update things" })).toBeNull();
+  });
+});
+
+describe("parseCategory", () => {
+  it("takes the first category the answer names", () => {
+    expect(parseCategory("Feature.")).toBe("feature");
+    expect(parseCategory("internal, not a fix")).toBe("internal");
+    expect(parseCategory("features")).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+import type { LLMProvider } from "@/lib/llm";
+import { GenerationUsage, estimateUsage } from "@/lib/usage";
+
+export type ReleaseCategory =
+  | "feature"
+  | "fix"
+  | "performance"
+  | "breaking"
+  | "docs"
+  | "internal";
+
+// Section titles, in release-notes order
+export const RELEASE_CATEGORIES: Record<ReleaseCategory, string> = {
+  breaking: "Breaking Changes",
+  feature: "Features",
+  fix: "Fixes",
+  performance: "Performance",
+  docs: "Docs",
+  internal: "Internal",
+};
+
+export const CATEGORY_ORDER = Object.keys(
+  RELEASE_CATEGORIES
+) as ReleaseCategory[];
+
+// What decided a PR's category; "manual" is never overwritten automatically
+export type CategorySource = "title" | "label" | "paths" | "llm" | "manual";
+
+export interface CategoryAssignment {
+  category: ReleaseCategory;
+  source: CategorySource;
+}
+
+export function isReleaseCategory(value: unknown): value is ReleaseCategory {
+  return (
+    typeof value === "string" &&
+    (CATEGORY_ORDER as string[]).includes(value)
+  );
+}
+
+// Conventional commits: "feat(parser)!: ..."
+const CONVENTIONAL_PREFIX = /^\s*(\w+)(?:\([^)]*\))?(!)?:\s/;
+const BREAKING_TITLE = /\bBREAKING[ -]CHANGES?\b/;
+
+const PREFIX_CATEGORIES: Record<string, ReleaseCategory> = {
+  feat: "feature",
+  feature: "feature",
+  fix: "fix",
+  bugfix: "fix",
+  hotfix: "fix",
+  revert: "fix",
+  perf: "performance",
+  docs: "docs",
+  doc: "docs",
+  chore: "internal",
+  refactor: "internal",
+  test: "internal",
+  tests: "internal",
+  ci: "internal",
+  build: "internal",
+  style: "internal",
+  deps: "internal",
+};
+
+// First match wins, so a "breaking" label beats "enhancement"
+const LABEL_RULES: [RegExp, ReleaseCategory][] = [
+  [/breaking/i, "breaking"],
+  [/\bperf(ormance)?\b/i, "performance"],
+  [/\b(bug|fix|regression)/i, "fix"],
+  [/\b(docs?|documentation)\b/i, "docs"],
+  [/\b(feat|feature|enhancement)/i, "feature"],
+  [
+    /\b(chore|dependencies|deps|ci|refactor|internal|tests?|build|infra)\b/i,
+    "internal",
+  ],
+];
+
+const DOC_PATH = /(^|\/)docs?\/|\.(md|mdx|rst|adoc|txt)$/i;
+const INTERNAL_PATH =
+  /(^|\/)(__tests__|tests?|spec|\.github|\.circleci)\/|\.(test|spec)\.\w+$|(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|\.[^/]+)$/i;
+
+/**
+ * Heuristic category of a PR: breaking-change markers first, then the
+ * conventional-commit prefix of the title, labels, and finally the changed
+ * paths when they are all docs or all tests and tooling. Null when nothing
+ * matched, which leaves it to the model.
+ */
+export function classifyPullRequest(pr: {
+  title: string;
+  labels?: string[];
+  paths?: string[];
+}): CategoryAssignment | null {
+  const prefix = pr.title.match(CONVENTIONAL_PREFIX);
+  if (prefix?.[2] || BREAKING_TITLE.test(pr.title)) {
+    return { category: "breaking", source: "title" };
+  }
+  const labels = pr.labels ?? [];
+  if (labels.some((l) => LABEL_RULES[0][0].test(l))) {
+    return { category: "breaking", source: "label" };
+  }
+  const fromPrefix = prefix && PREFIX_CATEGORIES[prefix[1].toLowerCase()];
+  if (fromPrefix) return { category: fromPrefix, source: "title" };
+  for (const [pattern, category] of LABEL_RULES) {
+    if (labels.some((l) => pattern.test(l))) {
+      return { category, source: "label" };
+    }
+  }
+  const paths = pr.paths ?? [];
+  if (paths.length && paths.every((p) => DOC_PATH.test(p))) {
+    return { category: "docs", source: "paths" };
+  }
+  if (paths.length && paths.every((p) => INTERNAL_PATH.test(p))) {
+    return { category: "internal", source: "paths" };
+  }
+  return null;
+}
+
+const MAX_PROMPT_PATHS = 50;
+const MAX_PROMPT_BODY_CHARS = 2000;
+
+const classifySystemPrompt = `You sort pull requests into release-note sections. Answer with exactly one word: ${CATEGORY_ORDER.join(", ")}. Use "breaking" only when users must change their code or configuration, and "internal" for refactoring, tests, tooling and dependency updates.`;
+
+// First category the answer names; null if there is none
+export function parseCategory(answer: string): ReleaseCategory | null {
+  const word = answer
+    .toLowerCase()
+    .match(new RegExp(`\\b(${CATEGORY_ORDER.join("|")})\\b`));
+  return word ? (word[1] as ReleaseCategory) : null;
+}
+
+/** Fallback for PRs the heuristics can't place. */
+export async function classifyWithModel(
+  provider: LLMProvider,
+  pr: { title: string; body?: string | null; paths: string[] },
+  signal?: AbortSignal
+): Promise<{ category: ReleaseCategory | null; usage: GenerationUsage }> {
+  const request = {
+    system: classifySystemPrompt,
+    user: `Title: ${pr.title}\nDescription: ${
+      pr.body?.trim().slice(0, MAX_PROMPT_BODY_CHARS) || "none"
+    }\nChanged files:\n${pr.paths.slice(0, MAX_PROMPT_PATHS).join("\n")}`,
+    temperature: 0,
+    maxTokens: 5,
+    signal,
+  };
+  const { text, usage } = await provider.complete(request);
+  return {
+    category: parseCategory(text),
+    usage: usage
+      ? { ...usage, estimated: false }
+      : estimateUsage(request.system + request.user, text),
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+
+import { chunkDiff, estimateTokens, planDiff } from "@/lib/chunking";
+
+// A modified file with `hunks` hunks of `lines` added lines each
+function fileDiff(path: string, hunks: number, lines: number): string {
+  const out = [
+    `diff --git a/${path} b/${path}`,
+    `--- a/${path}`,
+    `+++ b/${path}`,
+  ];
+  for (let h = 0; h < hunks; h++) {
+    const start = h * 100 + 1;
+    out.push(`@@ -${start},0 +${start},${lines} @@`);
+    for (let l = 0; l < lines; l++) out.push(`+const line${h}_${l} = ${l};`);
+  }
+  return out.join("\n");
+}
+
+describe("chunkDiff", () => {
+  it("packs small files into one chunk", () => {
+    const diff = [fileDiff("a.ts", 1, 2), fileDiff("b.ts", 1, 2)].join("\n");
+    const chunks = chunkDiff(diff, 1000);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].files).toEqual(["a.ts", "b.ts"]);
+  });
+
+  it("splits a large file at hunk boundaries under its header", () => {
+    const chunks = chunkDiff(fileDiff("big.ts", 4, 10), 150);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => {
+      expect(chunk.tokens).toBeLessThanOrEqual(150);
+      expect(chunk.files).toEqual(["big.ts"]);
+      expect(chunk.text.startsWith("diff --git a/big.ts b/big.ts")).toBe(true);
+    });
+    const hunks = chunks.map((c) => c.text.match(/^@@ /gm)?.length ?? 0);
+    expect(hunks.reduce((a, b) => a + b, 0)).toBe(4);
+  });
+
+  it("truncates a hunk too large for a chunk of its own", () => {
+    const [chunk, ...rest] = chunkDiff(fileDiff("huge.ts", 1, 200), 100);
+    expect(rest).toEqual([]);
+    expect(chunk.tokens).toBeLessThanOrEqual(100);
+    expect(chunk.text).toContain("+const line0_0 = 0;");
+    expect(chunk.text).not.toContain("line0_199");
+  });
+});
+
+describe("planDiff", () => {
+  const options = { singlePassTokens: 200, chunkTokens: 150, maxChunks: 2 };
+
+  it("sends a diff that fits whole", () => {
+    const diff = fileDiff("a.ts", 1, 3);
+    const { chunks, coverage } = planDiff(diff, options);
+    expect(chunks).toEqual([
+      { files: [], text: diff, tokens: estimateTokens(diff) },
+    ]);
+    expect(coverage).toMatchObject({
+      strategy: "single",
+      totalFiles: 1,
+      coveredFiles: 1,
+      ratio: 1,
+    });
+  });
+
+  it("reports how much of a diff the chunks cover", () => {
+    const diff = ["a.ts", "b.ts", "c.ts", "d.ts"]
+      .map((path) => fileDiff(path, 1, 12))
+      .join("\n");
+    const { chunks, coverage } = planDiff(diff, options);
+
+    expect(chunks).toHaveLength(2);
+    expect(coverage.strategy).toBe("map-reduce");
+    expect(coverage.totalFiles).toBe(4);
+    expect(coverage.coveredFiles).toBe(2);
+    expect(coverage.coveredTokens).toBe(
+      chunks.reduce((sum, c) => sum + c.tokens, 0)
+    );
+    expect(coverage.ratio).toBeCloseTo(
+      coverage.coveredTokens / coverage.totalTokens
+    );
+    expect(coverage.ratio).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  DiffFile,
+  DiffHunk,
+  formatDiffFile,
+  formatHunk,
+  parseUnifiedDiff,
+} from "@/lib/diff-parser";
+
+export interface DiffChunk {
+  files: string[];
+  text: string;
+  tokens: number;
+}
+
+export interface DiffCoverage {
+  // "single" sends the whole diff in one prompt, "map-reduce" summarizes chunks first
+  strategy: "single" | "map-reduce";
+  chunks: number;
+  totalFiles: number;
+  coveredFiles: number;
+  totalTokens: number;
+  coveredTokens: number;
+  // coveredTokens / totalTokens, 0..1
+  ratio: number;
+}
+
+// Rough average for code with the GPT-4 family tokenizers; good enough for budgeting
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Keeps the first lines of a hunk that is too large to fit in a chunk on its own
+function truncateHunk(hunk: DiffHunk, maxTokens: number): DiffHunk {
+  const lines: DiffHunk["lines"] = [];
+  let tokens = estimateTokens(hunk.header);
+  for (const line of hunk.lines) {
+    const lineTokens = estimateTokens(line.content) + 1;
+    if (tokens + lineTokens > maxTokens) break;
+    lines.push(line);
+    tokens += lineTokens;
+  }
+  return { ...hunk, lines };
+}
+
+// Splits one file into pieces that each fit in `maxTokens`, hunk by hunk
+function splitFile(file: DiffFile, maxTokens: number): string[] {
+  const whole = formatDiffFile(file);
+  if (estimateTokens(whole) <= maxTokens || file.hunks.length === 0) {
+    return [whole];
+  }
+
+  const headerTokens = estimateTokens(formatDiffFile(file, []));
+  const budget = Math.max(maxTokens - headerTokens, 1);
+  const pieces: string[] = [];
+  let group: DiffHunk[] = [];
+  let groupTokens = 0;
+
+  const flush = () => {
+    if (group.length) pieces.push(formatDiffFile(file, group));
+    group = [];
+    groupTokens = 0;
+  };
+
+  file.hunks.forEach((hunk) => {
+    let hunkTokens = estimateTokens(formatHunk(hunk));
+    let piece = hunk;
+    if (hunkTokens > budget) {
+      piece = truncateHunk(hunk, budget);
+      hunkTokens = estimateTokens(formatHunk(piece));
+    }
+    if (groupTokens + hunkTokens > budget) flush();
+    group.push(piece);
+    groupTokens += hunkTokens;
+  });
+  flush();
+  return pieces;
+}
+
+/**
+ * Splits a unified diff into chunks of at most `maxTokens` (estimated). Small
+ * files are packed together; large files are split at hunk boundaries and
+ * oversized hunks are truncated.
+ */
+export function chunkDiff(diff: string, maxTokens: number): DiffChunk[] {
+  const files = parseUnifiedDiff(diff);
+  const chunks: DiffChunk[] = [];
+  let current: DiffChunk | null = null;
+
+  files.forEach((file) => {
+    splitFile(file, maxTokens).forEach((text) => {
+      const tokens = estimateTokens(text);
+      if (!current || current.tokens + tokens > maxTokens) {
+        current = { files: [], text: "", tokens: 0 };
+        chunks.push(current);
+      }
+      if (!current.files.includes(file.path)) current.files.push(file.path);
+      current.text = current.text ? `${current.text}\n${text}` : text;
+      current.tokens += tokens;
+    });
+  });
+
+  return chunks;
+}
+
+/**
+ * Plans how a diff is sent to the model: whole when it fits in
+ * `singlePassTokens`, otherwise as at most `maxChunks` chunks.
+ */
+export function planDiff(
+  diff: string,
+  options: { singlePassTokens: number; chunkTokens: number; maxChunks: number }
+): { chunks: DiffChunk[]; coverage: DiffCoverage } {
+  const totalTokens = estimateTokens(diff);
+  const totalFiles = parseUnifiedDiff(diff).length;
+
+  if (totalTokens <= options.singlePassTokens) {
+    return {
+      chunks: [{ files: [], text: diff, tokens: totalTokens }],
+      coverage: {
+        strategy: "single",
+        chunks: 1,
+        totalFiles,
+        coveredFiles: totalFiles,
+        totalTokens,
+        coveredTokens: totalTokens,
+        ratio: 1,
+      },
+    };
+  }
+
+  const chunks = chunkDiff(diff, options.chunkTokens).slice(
+    0,
+    options.maxChunks
+  );
+  const coveredTokens = chunks.reduce((sum, c) => sum + c.tokens, 0);
+  const coveredFiles = new Set(chunks.flatMap((c) => c.files)).size;
+
+  return {
+    chunks,
+    coverage: {
+      strategy: "map-reduce",
+      chunks: chunks.length,
+      totalFiles,
+      coveredFiles,
+      totalTokens,
+      coveredTokens,
+      ratio: totalTokens ? Math.min(coveredTokens / totalTokens, 1) : 1,
+    },
+  };
+}
@@ -1,6 +1,195 @@
 import Dexie, { Table } from "dexie";
 
-export interface DiffEntity {
+import { AudienceProfile, DEFAULT_AUDIENCES } from "@/lib/audiences";
+import type { CategorySource, ReleaseCategory } from "@/lib/categories";
+import type { DiffCoverage } from "@/lib/chunking";
+import type { PullRequestDetails } from "@/lib/github";
+import type { NoiseFilterConfig } from "@/lib/noise-filter";
+import type { RedactionConfig } from "@/lib/redaction";
+import {
+  DEFAULT_BASE_URLS,
+  ForgeProvider,
+  LOCAL_OWNER,
+  SourceProvider,
+} from "@/lib/sources/types";
+import {
+  BUILT_IN_PROMPT_ID,
+  PromptVersionEntity,
+} from "@/lib/prompt-templates";
+import type { ProviderSelection } from "@/lib/llm/types";
+import {
+  DEFAULT_MODEL_PRICES,
+  GenerationUsage,
+  ModelPrice,
+} from "@/lib/usage";
+
+export type { SourceProvider };
+
+export interface RepositoryRef {
+  provider: SourceProvider;
+  owner: string;
+  repo: string;
+}
+
+export const DEFAULT_REPOSITORY: RepositoryRef = {
+  provider: "github",
+  owner: "openai",
+  repo: "openai-node",
+};
+
+export type ReviewStatus = "draft" | "needs-review" | "approved" | "excluded";
+
+// Details are missing on PRs fetched before they were stored
+export interface PullRequestEntity
+  extends RepositoryRef,
+    Partial<PullRequestDetails> {
+  number: number;
+  description: string;
+  diff: string;
+  url: string;
+  mergedAt?: string | null;
+  author?: string | null;
+  labels: string[];
+  fetchedAt: number;
+  // Per-PR override: send lockfiles, build output etc. to the model anyway
+  includeNoise?: boolean;
+  // Unset means "draft"
+  reviewStatus?: ReviewStatus;
+  // Unset until a heuristic, the model or the user placed the PR
+  category?: ReleaseCategory;
+  categorySource?: CategorySource;
+  // Abbreviated hash of local commits
+  commit?: string;
+  // Pasted or uploaded in "Summarize a diff" rather than fetched
+  manual?: boolean;
+}
+
+export interface SummaryEntity extends RepositoryRef {
+  number: number;
+  // Note text by audience id
+  notes: Record<string, string>;
+  updatedAt: number;
+  coverage?: DiffCoverage;
+  // Revision the notes came from
+  revisionId?: number;
+  // Audience ids whose note was changed by hand since it was generated
+  editedAudiences?: string[];
+  // Audience ids whose generation was stopped before the note was finished
+  incompleteAudiences?: string[];
+}
+
+// One generation's output, or a hand edit (llmProvider "manual"); never
+// modified after it is written
+export interface RevisionEntity extends RepositoryRef {
+  id?: number;
+  number: number;
+  notes: Record<string, string>;
+  llmProvider: string;
+  model: string;
+  // BUILT_IN_PROMPT_ID for the built-in template
+  promptVersionId: number;
+  createdAt: number;
+  coverage?: DiffCoverage;
+  editedAudiences?: string[];
+  incompleteAudiences?: string[];
+  // Tokens the generation used; unset for hand edits and older revisions
+  usage?: GenerationUsage;
+}
+
+export interface RepositoryEntity extends RepositoryRef {
+  // repositoryId(): "<provider>:<owner>/<repo>"
+  slug: string;
+  favorite: boolean;
+  lastUsedAt: number;
+  // Self-hosted instance; unset means the server's configured one
+  baseUrl?: string;
+  // Last revision range read from a local checkout
+  range?: string;
+  noiseFilter?: NoiseFilterConfig;
+  // Unset means the built-in redaction rules
+  redaction?: RedactionConfig;
+  // Unset means the server's default provider and model
+  llm?: ProviderSelection;
+  // Unset means the built-in prompt template
+  promptVersionId?: number;
+}
+
+export type PullRequestKey = [SourceProvider, string, string, number];
+
+export function repositoryId(ref: RepositoryRef): string {
+  return `${ref.provider}:${ref.owner}/${ref.repo}`;
+}
+
+export function repositoryLabel(ref: RepositoryRef): string {
+  return `${ref.owner}/${ref.repo}`;
+}
+
+export function pullRequestKey(
+  ref: RepositoryRef,
+  number: number
+): PullRequestKey {
+  return [ref.provider, ref.owner, ref.repo, number];
+}
+
+// Owner and repository names; GitLab owners may include subgroups
+const REPOSITORY_PATH =
+  /^([A-Za-z0-9_.-]+(?:\/[A-Za-z0-9_.-]+)*)\/([A-Za-z0-9_.-]+)\/?$/;
+
+// Pages below a repository, e.g. "/-/merge_requests" or "/pulls/12"; the
+// repository itself is the first group
+const REPOSITORY_PAGE =
+  /^(.+?\/.+?)\/(?:-|pulls?|pull-requests|merge_requests|tree|src)(?:\/.*)?$/;
+
+/**
+ * Reads "owner/repo" or a repository's web address. Addresses of the hosted
+ * services pick their provider; other addresses are taken as a self-hosted
+ * instance of `provider`. Local checkouts are named by their directory.
+ */
+export function parseRepositoryInput(
+  value: string,
+  provider: SourceProvider
+): (RepositoryRef & { baseUrl?: string }) | null {
+  const input = value.trim();
+  if (provider === "local") {
+    const name = input.replace(new RegExp(`^${LOCAL_OWNER}/`), "");
+    return /^[A-Za-z0-9_.-]+$/.test(name) && !/^\.\.?$/.test(name)
+      ? { provider, owner: LOCAL_OWNER, repo: name }
+      : null;
+  }
+  let path = input;
+  let baseUrl: string | undefined;
+  if (/^https?:\/\//.test(input)) {
+    let url: URL;
+    try {
+      url = new URL(input);
+    } catch {
+      return null;
+    }
+    const hosted = (Object.keys(DEFAULT_BASE_URLS) as ForgeProvider[]).find(
+      (p) => url.origin === DEFAULT_BASE_URLS[p]
+    );
+    if (hosted) provider = hosted;
+    else baseUrl = url.origin;
+    path = url.pathname.replace(/^\/+/, "").replace(REPOSITORY_PAGE, "$1");
+  }
+  const match = path.replace(/\.git$/, "").match(REPOSITORY_PATH);
+  if (!match) return null;
+  // Only GitLab nests groups
+  if (provider !== "gitlab" && match[1].includes("/")) return null;
+  return { provider, owner: match[1], repo: match[2], baseUrl };
+}
+
+// Version 1 rows only carry the PR number; the repository is recovered from
+// the PR url (https://github.com/<owner>/<repo>/pull/<number>).
+function repositoryFromUrl(url: string | undefined): string {
+  const match = url?.match(/github\.com\/([^/]+)\/([^/]+)\/pull\//);
+  return match
+    ? `${match[1]}/${match[2]}`
+    : repositoryLabel(DEFAULT_REPOSITORY);
+}
+
+// Row shapes of earlier schema versions, only used by the upgrade functions
+interface DiffRowV1 {
   id: string;
   description: string;
   diff: string;
@@ -11,15 +200,308 @@ export interface DiffEntity {
   summaryUpdatedAt?: number;
 }
 
+interface DiffRowV2 extends DiffRowV1 {
+  repository: string;
+  number: string;
+}
+
+interface SummaryRowV3 extends RepositoryRef {
+  number: number;
+  developer: string;
+  marketing: string;
+  updatedAt: number;
+  coverage?: DiffCoverage;
+}
+
+interface RepositoryRowV2 {
+  slug: string;
+  owner: string;
+  repo: string;
+  favorite: boolean;
+  lastUsedAt: number;
+}
+
 class DiffDigestDB extends Dexie {
-  diffs!: Table<DiffEntity, string>;
+  pullRequests!: Table<PullRequestEntity, PullRequestKey>;
+  summaries!: Table<SummaryEntity, PullRequestKey>;
+  repositories!: Table<RepositoryEntity, string>;
+  audiences!: Table<AudienceProfile, string>;
+  promptVersions!: Table<PromptVersionEntity, number>;
+  revisions!: Table<RevisionEntity, number>;
+  prices!: Table<ModelPrice, string>;
 
   constructor() {
     super("DiffDigestDB");
     this.version(1).stores({
       diffs: "id, fetchedAt",
     });
+    this.version(2)
+      .stores({
+        diffs: "id, fetchedAt, repository",
+        repositories: "slug, lastUsedAt",
+      })
+      .upgrade(async (tx) => {
+        const diffs = tx.table<DiffRowV1 | DiffRowV2, string>("diffs");
+        const legacy = (await diffs.toArray()) as DiffRowV1[];
+        const migrated: DiffRowV2[] = legacy.map((row) => {
+          const repository = repositoryFromUrl(row.url);
+          return {
+            ...row,
+            id: `${repository}#${row.id}`,
+            repository,
+            number: row.id,
+          };
+        });
+        await diffs.bulkDelete(legacy.map((row) => row.id));
+        await diffs.bulkPut(migrated);
+
+        const now = Date.now();
+        const slugs = Array.from(new Set(migrated.map((d) => d.repository)));
+        await tx.table<RepositoryRowV2, string>("repositories").bulkPut(
+          slugs.map((slug) => {
+            const [owner, repo] = slug.split("/");
+            return { slug, owner, repo, favorite: false, lastUsedAt: now };
+          })
+        );
+      });
+    // Version 3 moves PRs to a (provider, owner, repo, number) key and splits
+    // summaries out of the PR rows. `diffs` is dropped after the upgrade ran.
+    this.version(3)
+      .stores({
+        diffs: null,
+        pullRequests:
+          "[provider+owner+repo+number], [provider+owner+repo], mergedAt, author, *labels, fetchedAt",
+        summaries: "[provider+owner+repo+number], updatedAt",
+        repositories: "slug, [provider+owner+repo], lastUsedAt",
+      })
+      .upgrade(async (tx) => {
+        const legacy = await tx.table<DiffRowV2, string>("diffs").toArray();
+        const pullRequests: PullRequestEntity[] = [];
+        const summaries: SummaryRowV3[] = [];
+        legacy.forEach((row) => {
+          const [owner, repo] = row.repository.split("/");
+          const number = parseInt(row.number, 10);
+          if (isNaN(number)) return;
+          const ref: RepositoryRef = { provider: "github", owner, repo };
+          pullRequests.push({
+            ...ref,
+            number,
+            description: row.description,
+            diff: row.diff,
+            url: row.url,
+            labels: [],
+            fetchedAt: row.fetchedAt,
+          });
+          if (row.summaryDeveloper || row.summaryMarketing) {
+            const summary: SummaryRowV3 = {
+              ...ref,
+              number,
+              developer: row.summaryDeveloper || "",
+              marketing: row.summaryMarketing || "",
+              updatedAt: row.summaryUpdatedAt ?? row.fetchedAt,
+            };
+            summaries.push(summary);
+          }
+        });
+        await tx.table("pullRequests").bulkPut(pullRequests);
+        await tx.table("summaries").bulkPut(summaries);
+
+        const repositories = tx.table<RepositoryRowV2 | RepositoryEntity>(
+          "repositories"
+        );
+        const legacyRepositories =
+          (await repositories.toArray()) as RepositoryRowV2[];
+        await repositories.bulkDelete(legacyRepositories.map((r) => r.slug));
+        await repositories.bulkPut(
+          legacyRepositories.map((r) => {
+            const ref: RepositoryRef = {
+              provider: "github",
+              owner: r.owner,
+              repo: r.repo,
+            };
+            return {
+              ...ref,
+              slug: repositoryId(ref),
+              favorite: r.favorite,
+              lastUsedAt: r.lastUsedAt,
+            };
+          })
+        );
+      });
+    // Version 4 adds audience profiles; summaries keep one note per audience
+    this.version(4)
+      .stores({
+        audiences: "id, createdAt",
+      })
+      .upgrade(async (tx) => {
+        await tx.table("audiences").bulkPut(DEFAULT_AUDIENCES);
+        await tx
+          .table<SummaryRowV3 | SummaryEntity>("summaries")
+          .toCollection()
+          .modify((row) => {
+            const legacy = row as Partial<SummaryRowV3> & SummaryEntity;
+            legacy.notes = {
+              developer: legacy.developer ?? "",
+              marketing: legacy.marketing ?? "",
+            };
+            delete legacy.developer;
+            delete legacy.marketing;
+          });
+      });
+    this.version(5).stores({
+      promptVersions: "++id, createdAt",
+    });
+    // Version 6 keeps every generation; existing notes become the first revision
+    this.version(6)
+      .stores({
+        revisions: "++id, [provider+owner+repo+number], createdAt",
+      })
+      .upgrade(async (tx) => {
+        const summaries = tx.table<SummaryEntity, PullRequestKey>("summaries");
+        const revisions = tx.table<RevisionEntity, number>("revisions");
+        const rows = await summaries.toArray();
+        for (const row of rows) {
+          const revisionId = await revisions.add({
+            provider: row.provider,
+            owner: row.owner,
+            repo: row.repo,
+            number: row.number,
+            notes: row.notes,
+            llmProvider: "unknown",
+            model: "unknown",
+            promptVersionId: BUILT_IN_PROMPT_ID,
+            createdAt: row.updatedAt,
+            coverage: row.coverage,
+          });
+          await summaries.put({ ...row, revisionId });
+        }
+      });
+    this.version(7)
+      .stores({
+        prices: "model",
+      })
+      .upgrade(async (tx) => {
+        await tx.table("prices").bulkPut(DEFAULT_MODEL_PRICES);
+      });
+    this.on("populate", (tx) => {
+      tx.table("audiences").bulkAdd(DEFAULT_AUDIENCES);
+      tx.table("prices").bulkAdd(DEFAULT_MODEL_PRICES);
+    });
   }
 }
 
 export const db = new DiffDigestDB();
+
+// `baseUrl` is kept from earlier visits unless a new one is given
+export async function touchRepository(
+  ref: RepositoryRef,
+  baseUrl?: string
+): Promise<RepositoryEntity> {
+  const slug = repositoryId(ref);
+  const existing = await db.repositories.get(slug);
+  const entity: RepositoryEntity = {
+    ...existing,
+    provider: ref.provider,
+    owner: ref.owner,
+    repo: ref.repo,
+    slug,
+    baseUrl: baseUrl ?? existing?.baseUrl,
+    favorite: existing?.favorite ?? false,
+    lastUsedAt: Date.now(),
+  };
+  await db.repositories.put(entity);
+  return entity;
+}
+
+/** The repository to open: a bookmarked one, else the last one used. */
+export async function openingRepository(
+  bookmarked: RepositoryRef | null
+): Promise<RepositoryEntity | undefined> {
+  if (bookmarked) return touchRepository(bookmarked);
+  const [lastUsed] = await db.repositories
+    .orderBy("lastUsedAt")
+    .reverse()
+    .limit(1)
+    .toArray();
+  return lastUsed;
+}
+
+export async function getRepositoryPullRequests(
+  ref: RepositoryRef
+): Promise<PullRequestEntity[]> {
+  const rows = await db.pullRequests
+    .where("[provider+owner+repo]")
+    .equals([ref.provider, ref.owner, ref.repo])
+    .toArray();
+  // Newest merges first; rows cached before mergedAt was stored sort by fetch time
+  return rows.sort(
+    (a, b) =>
+      (b.mergedAt ? Date.parse(b.mergedAt) : b.fetchedAt) -
+      (a.mergedAt ? Date.parse(a.mergedAt) : a.fetchedAt)
+  );
+}
+
+export async function getRepositorySummaries(
+  ref: RepositoryRef
+): Promise<SummaryEntity[]> {
+  return db.summaries
+    .where("[provider+owner+repo+number]")
+    .between(
+      [ref.provider, ref.owner, ref.repo, Dexie.minKey],
+      [ref.provider, ref.owner, ref.repo, Dexie.maxKey]
+    )
+    .toArray();
+}
+
+export async function clearRepository(ref: RepositoryRef): Promise<void> {
+  const lower = [ref.provider, ref.owner, ref.repo, Dexie.minKey];
+  const upper = [ref.provider, ref.owner, ref.repo, Dexie.maxKey];
+  await db.transaction(
+    "rw",
+    [db.pullRequests, db.summaries, db.revisions],
+    async () => {
+      await db.pullRequests
+        .where("[provider+owner+repo]")
+        .equals([ref.provider, ref.owner, ref.repo])
+        .delete();
+      await db.summaries
+        .where("[provider+owner+repo+number]")
+        .between(lower, upper)
+        .delete();
+      await db.revisions
+        .where("[provider+owner+repo+number]")
+        .between(lower, upper)
+        .delete();
+    }
+  );
+}
+
+// Newest first
+export async function getRevisions(
+  ref: RepositoryRef,
+  number: number
+): Promise<RevisionEntity[]> {
+  const rows = await db.revisions
+    .where("[provider+owner+repo+number]")
+    .equals(pullRequestKey(ref, number))
+    .toArray();
+  return rows.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getAudiences(): Promise<AudienceProfile[]> {
+  return db.audiences.orderBy("createdAt").toArray();
+}
+
+export async function getPromptVersions(): Promise<PromptVersionEntity[]> {
+  return db.promptVersions.orderBy("createdAt").toArray();
+}
+
+export async function getPrices(): Promise<ModelPrice[]> {
+  return db.prices.orderBy("model").toArray();
+}
+
+// Generations that recorded their usage, oldest first
+export async function getUsageRevisions(): Promise<RevisionEntity[]> {
+  const rows = await db.revisions.orderBy("createdAt").toArray();
+  return rows.filter((r) => r.usage);
+}
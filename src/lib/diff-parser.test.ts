@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+
+import { diffStats, formatDiffFile, parseUnifiedDiff } from "@/lib/diff-parser";
+
+const diff = (...lines: string[]) => lines.join("\n");
+
+describe("parseUnifiedDiff", () => {
+  it("reads renames with their similarity and changes", () => {
+    const [file] = parseUnifiedDiff(
+      diff(
+        "diff --git a/src/old name.ts b/src/new name.ts",
+        "similarity index 92%",
+        "rename from src/old name.ts",
+        "rename to src/new name.ts",
+        "index 3b18e51..8f1c2d4 100644",
+        "--- a/src/old name.ts",
+        "+++ b/src/new name.ts",
+        "@@ -3,2 +3,2 @@ export class Client {",
+        " const a = 1;",
+        "-const b = 2;",
+        "+const b = 3;"
+      )
+    );
+
+    expect(file).toMatchObject({
+      status: "renamed",
+      oldPath: "src/old name.ts",
+      newPath: "src/new name.ts",
+      path: "src/new name.ts",
+      similarity: 92,
+      additions: 1,
+      deletions: 1,
+    });
+    expect(file.hunks[0].section).toBe("export class Client {");
+    const numbers = file.hunks[0].lines.map((l) => [l.oldNumber, l.newNumber]);
+    expect(numbers).toEqual([
+      [3, 3],
+      [4, null],
+      [null, 4],
+    ]);
+  });
+
+  it("reads a pure rename without hunks", () => {
+    const [file] = parseUnifiedDiff(
+      diff(
+        "diff --git a/a.ts b/b.ts",
+        "similarity index 100%",
+        "rename from a.ts",
+        "rename to b.ts"
+      )
+    );
+    expect(file).toMatchObject({ status: "renamed", hunks: [], path: "b.ts" });
+  });
+
+  it("marks binary files, added and deleted", () => {
+    const files = parseUnifiedDiff(
+      diff(
+        "diff --git a/logo.png b/logo.png",
+        "new file mode 100644",
+        "index 0000000..4c5b6a7",
+        "Binary files /dev/null and b/logo.png differ",
+        "diff --git a/font.woff b/font.woff",
+        "deleted file mode 100644",
+        "index 9d70386..0000000",
+        "GIT binary patch",
+        "literal 0",
+        "HcmV?d00001"
+      )
+    );
+    expect(files).toMatchObject([
+      { path: "logo.png", status: "added", binary: true, oldPath: null },
+      { path: "font.woff", status: "deleted", binary: true, newPath: null },
+    ]);
+    expect(formatDiffFile(files[0])).toBe(
+      diff(
+        "diff --git a/logo.png b/logo.png",
+        "new file mode 100644",
+        "Binary files a/logo.png and b/logo.png differ"
+      )
+    );
+  });
+
+  it("keeps '\\ No newline at end of file' with its line", () => {
+    const text = diff(
+      "diff --git a/README.md b/README.md",
+      "--- a/README.md",
+      "+++ b/README.md",
+      "@@ -1 +1 @@",
+      "-hello",
+      "\\ No newline at end of file",
+      "+hello world",
+      "\\ No newline at end of file"
+    );
+    const [file] = parseUnifiedDiff(text);
+
+    expect(file.hunks[0].lines).toEqual([
+      {
+        type: "remove",
+        content: "hello",
+        oldNumber: 1,
+        newNumber: null,
+        noNewlineAtEnd: true,
+      },
+      {
+        type: "add",
+        content: "hello world",
+        oldNumber: null,
+        newNumber: 1,
+        noNewlineAtEnd: true,
+      },
+    ]);
+    expect(formatDiffFile(file)).toBe(text);
+  });
+
+  it("reads plain diff -u output and counts every file", () => {
+    const files = parseUnifiedDiff(
+      diff(
+        "--- a/a.txt\t2026-10-01 10:00:00",
+        "+++ b/a.txt\t2026-10-02 10:00:00",
+        "@@ -1,2 +1,3 @@",
+        " one",
+        "+two",
+        "",
+        "--- /dev/null",
+        "+++ b/b.txt",
+        "@@ -0,0 +1 @@",
+        "+new"
+      )
+    );
+    expect(files.map((f) => [f.path, f.status])).toEqual([
+      ["a.txt", "modified"],
+      ["b.txt", "added"],
+    ]);
+    expect(diffStats(files)).toEqual({ files: 2, additions: 2, deletions: 0 });
+  });
+});
@@ -0,0 +1,335 @@
+export type DiffLineType = "add" | "remove" | "context";
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldNumber: number | null;
+  newNumber: number | null;
+  // Set when the line is followed by "\ No newline at end of file"
+  noNewlineAtEnd?: boolean;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // Function or class name git prints after the second "@@"
+  section: string;
+  lines: DiffLine[];
+}
+
+export type DiffFileStatus =
+  | "added"
+  | "deleted"
+  | "modified"
+  | "renamed"
+  | "copied";
+
+export interface DiffFile {
+  oldPath: string | null;
+  newPath: string | null;
+  // newPath for everything but deletions
+  path: string;
+  status: DiffFileStatus;
+  binary: boolean;
+  similarity: number | null;
+  oldMode: string | null;
+  newMode: string | null;
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+function unquotePath(raw: string): string {
+  const trimmed = raw.trim();
+  if (trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  return trimmed;
+}
+
+// "a/src/x.ts" -> "src/x.ts", "/dev/null" -> null
+function stripPrefix(raw: string): string | null {
+  const path = unquotePath(raw.split("\t")[0]);
+  if (path === "/dev/null") return null;
+  return path.replace(/^[ab]\//, "");
+}
+
+function parseGitHeader(line: string): {
+  oldPath: string | null;
+  newPath: string | null;
+} {
+  const rest = line.slice("diff --git ".length);
+  const quoted = rest.match(/^"(.+?)" "(.+?)"$/);
+  if (quoted) {
+    return {
+      oldPath: stripPrefix(`"${quoted[1]}"`),
+      newPath: stripPrefix(`"${quoted[2]}"`),
+    };
+  }
+  // Without renames both sides are equal, which disambiguates paths with spaces
+  const half = (rest.length - 1) / 2;
+  if (Number.isInteger(half) && rest.slice(2, half) === rest.slice(half + 3)) {
+    const path = rest.slice(2, half);
+    return { oldPath: path, newPath: path };
+  }
+  const match = rest.match(/^a\/(.+) b\/(.+)$/);
+  return match
+    ? { oldPath: match[1], newPath: match[2] }
+    : { oldPath: null, newPath: null };
+}
+
+function createFile(): DiffFile {
+  return {
+    oldPath: null,
+    newPath: null,
+    path: "",
+    status: "modified",
+    binary: false,
+    similarity: null,
+    oldMode: null,
+    newMode: null,
+    hunks: [],
+    additions: 0,
+    deletions: 0,
+  };
+}
+
+function finalizeFile(file: DiffFile): DiffFile {
+  if (file.status === "modified") {
+    if (file.oldPath === null && file.newPath !== null) file.status = "added";
+    else if (file.newPath === null && file.oldPath !== null)
+      file.status = "deleted";
+    else if (file.oldPath !== file.newPath) file.status = "renamed";
+  }
+  file.path = file.newPath ?? file.oldPath ?? "";
+  return file;
+}
+
+/**
+ * Parses a unified diff (git or plain `diff -u` output) into files, hunks and
+ * numbered lines. Unrecognized lines outside of hunks are ignored, so commit
+ * headers from `git format-patch` or `git show` output are tolerated.
+ */
+export function parseUnifiedDiff(text: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+
+  let file = null as DiffFile | null;
+  let hunk = null as DiffHunk | null;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+  let oldNumber = 0;
+  let newNumber = 0;
+
+  const startFile = () => {
+    if (file) files.push(finalizeFile(file));
+    file = createFile();
+    hunk = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (hunk && file && (oldRemaining > 0 || newRemaining > 0)) {
+      const current = file;
+      const marker = line[0];
+      if (marker === "+") {
+        hunk.lines.push({
+          type: "add",
+          content: line.slice(1),
+          oldNumber: null,
+          newNumber: newNumber++,
+        });
+        current.additions++;
+        newRemaining--;
+        continue;
+      }
+      if (marker === "-") {
+        hunk.lines.push({
+          type: "remove",
+          content: line.slice(1),
+          oldNumber: oldNumber++,
+          newNumber: null,
+        });
+        current.deletions++;
+        oldRemaining--;
+        continue;
+      }
+      // Some tools strip the leading space of empty context lines
+      if (marker === " " || line === "") {
+        hunk.lines.push({
+          type: "context",
+          content: line.slice(1),
+          oldNumber: oldNumber++,
+          newNumber: newNumber++,
+        });
+        oldRemaining--;
+        newRemaining--;
+        continue;
+      }
+      if (marker === "\\") {
+        const last = hunk.lines[hunk.lines.length - 1];
+        if (last) last.noNewlineAtEnd = true;
+        continue;
+      }
+      // Truncated hunk: fall through and treat the line as a header
+      hunk = null;
+    }
+
+    if (line.startsWith("\\") && hunk) {
+      const last = hunk.lines[hunk.lines.length - 1];
+      if (last) last.noNewlineAtEnd = true;
+      continue;
+    }
+
+    if (line.startsWith("diff --git ")) {
+      startFile();
+      const paths = parseGitHeader(line);
+      file!.oldPath = paths.oldPath;
+      file!.newPath = paths.newPath;
+      continue;
+    }
+
+    const hunkMatch = line.match(HUNK_HEADER);
+    if (hunkMatch) {
+      if (!file) startFile();
+      hunk = {
+        header: line,
+        oldStart: parseInt(hunkMatch[1], 10),
+        oldLines: hunkMatch[2] !== undefined ? parseInt(hunkMatch[2], 10) : 1,
+        newStart: parseInt(hunkMatch[3], 10),
+        newLines: hunkMatch[4] !== undefined ? parseInt(hunkMatch[4], 10) : 1,
+        section: hunkMatch[5].trim(),
+        lines: [],
+      };
+      file!.hunks.push(hunk);
+      oldRemaining = hunk.oldLines;
+      newRemaining = hunk.newLines;
+      oldNumber = hunk.oldStart;
+      newNumber = hunk.newStart;
+      continue;
+    }
+
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      // Plain unified diffs have no "diff --git" line; start a file here
+      if (!file || file.hunks.length > 0 || file.binary) startFile();
+      file!.oldPath = stripPrefix(line.slice(4));
+      file!.newPath = stripPrefix(lines[i + 1].slice(4));
+      i++;
+      continue;
+    }
+
+    if (!file) continue;
+    const current = file;
+
+    if (line.startsWith("new file mode ")) {
+      current.status = "added";
+      current.oldPath = null;
+      current.newMode = line.slice("new file mode ".length);
+    } else if (line.startsWith("deleted file mode ")) {
+      current.status = "deleted";
+      current.newPath = null;
+      current.oldMode = line.slice("deleted file mode ".length);
+    } else if (line.startsWith("old mode ")) {
+      current.oldMode = line.slice("old mode ".length);
+    } else if (line.startsWith("new mode ")) {
+      current.newMode = line.slice("new mode ".length);
+    } else if (line.startsWith("rename from ")) {
+      current.status = "renamed";
+      current.oldPath = unquotePath(line.slice("rename from ".length));
+    } else if (line.startsWith("rename to ")) {
+      current.status = "renamed";
+      current.newPath = unquotePath(line.slice("rename to ".length));
+    } else if (line.startsWith("copy from ")) {
+      current.status = "copied";
+      current.oldPath = unquotePath(line.slice("copy from ".length));
+    } else if (line.startsWith("copy to ")) {
+      current.status = "copied";
+      current.newPath = unquotePath(line.slice("copy to ".length));
+    } else if (
+      line.startsWith("similarity index ") ||
+      line.startsWith("dissimilarity index ")
+    ) {
+      current.similarity = parseInt(line.replace(/\D+/g, ""), 10);
+    } else if (
+      line.startsWith("Binary files ") ||
+      line.startsWith("GIT binary patch")
+    ) {
+      current.binary = true;
+    }
+  }
+
+  if (file) files.push(finalizeFile(file));
+  return files;
+}
+
+export function diffStats(files: DiffFile[]): {
+  files: number;
+  additions: number;
+  deletions: number;
+} {
+  return files.reduce(
+    (acc, f) => ({
+      files: acc.files + 1,
+      additions: acc.additions + f.additions,
+      deletions: acc.deletions + f.deletions,
+    }),
+    { files: 0, additions: 0, deletions: 0 }
+  );
+}
+
+const linePrefix: Record<DiffLineType, string> = {
+  add: "+",
+  remove: "-",
+  context: " ",
+};
+
+export function formatHunk(hunk: DiffHunk): string {
+  const lines = [hunk.header];
+  hunk.lines.forEach((line) => {
+    lines.push(`${linePrefix[line.type]}${line.content}`);
+    if (line.noNewlineAtEnd) lines.push("\\ No newline at end of file");
+  });
+  return lines.join("\n");
+}
+
+/**
+ * Serializes a parsed file back to git diff text. Pass a subset of `hunks` to
+ * emit a partial file, e.g. when splitting a large file across prompts.
+ */
+export function formatDiffFile(
+  file: DiffFile,
+  hunks: DiffHunk[] = file.hunks
+): string {
+  const oldPath = file.oldPath ?? file.path;
+  const newPath = file.newPath ?? file.path;
+  const lines = [`diff --git a/${oldPath} b/${newPath}`];
+  if (file.status === "added")
+    lines.push(`new file mode ${file.newMode ?? "100644"}`);
+  if (file.status === "deleted")
+    lines.push(`deleted file mode ${file.oldMode ?? "100644"}`);
+  if (file.status === "renamed") {
+    lines.push(`rename from ${oldPath}`, `rename to ${newPath}`);
+  }
+  if (file.binary) {
+    lines.push(`Binary files a/${oldPath} and b/${newPath} differ`);
+    return lines.join("\n");
+  }
+  if (hunks.length > 0) {
+    lines.push(
+      file.oldPath ? `--- a/${file.oldPath}` : "--- /dev/null",
+      file.newPath ? `+++ b/${file.newPath}` : "+++ /dev/null"
+    );
+    hunks.forEach((hunk) => lines.push(formatHunk(hunk)));
+  }
+  return lines.join("\n");
+}
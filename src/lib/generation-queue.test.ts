@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  RetryableError,
+  createGenerationQueue,
+  parseRetryAfter,
+} from "@/lib/generation-queue";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // No jitter
+  vi.spyOn(Math, "random").mockReturnValue(0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+// A job that waits until it is resolved or aborted by hand
+function pending() {
+  let resolve!: () => void;
+  let signal: AbortSignal | undefined;
+  const run = vi.fn(
+    (s: AbortSignal) =>
+      new Promise<void>((done, fail) => {
+        signal = s;
+        resolve = done;
+        s.addEventListener("abort", () => fail(new Error("aborted")));
+      })
+  );
+  return { run, resolve: () => resolve(), signal: () => signal };
+}
+
+describe("createGenerationQueue", () => {
+  it("backs off exponentially between retries", async () => {
+    let calls = 0;
+    const run = vi.fn(async () => {
+      if (++calls < 3) throw new RetryableError("429");
+    });
+    const queue = createGenerationQueue({ concurrency: 1, baseDelayMs: 1000 });
+    queue.enqueue("a", run);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(queue.progress().jobs.a).toMatchObject({
+      status: "waiting",
+      attempt: 1,
+      retryAt: Date.now() + 1000,
+    });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(2);
+    // The second retry waits twice as long
+    expect(queue.progress().jobs.a.retryAt).toBe(Date.now() + 2000);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(queue.progress().jobs.a).toMatchObject({
+      status: "done",
+      attempt: 3,
+    });
+  });
+
+  it("honors Retry-After, caps the delay and gives up", async () => {
+    const run = vi.fn(async () => {
+      const retryAfterMs = run.mock.calls.length === 1 ? 5 : undefined;
+      throw new RetryableError("503", retryAfterMs);
+    });
+    const queue = createGenerationQueue({
+      concurrency: 1,
+      maxAttempts: 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 1500,
+    });
+    queue.enqueue("a", run);
+    await vi.advanceTimersByTimeAsync(5);
+    expect(run).toHaveBeenCalledTimes(2);
+    // 2000 ms of backoff, capped
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(queue.progress()).toMatchObject({ failed: 1, pending: 0 });
+  });
+
+  it("fails other errors right away", async () => {
+    const queue = createGenerationQueue({ concurrency: 1 });
+    queue.enqueue("a", async () => {
+      throw new Error("400");
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.progress().jobs.a).toMatchObject({
+      status: "failed",
+      attempt: 1,
+    });
+  });
+
+  it("runs at most `concurrency` jobs at a time", async () => {
+    const jobs = [pending(), pending(), pending()];
+    const queue = createGenerationQueue({ concurrency: 2 });
+    jobs.forEach((job, i) => queue.enqueue(String(i), job.run));
+
+    expect(queue.progress()).toMatchObject({ running: 2, pending: 1 });
+    jobs[0].resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(jobs[2].run).toHaveBeenCalledOnce();
+    expect(queue.progress()).toMatchObject({ done: 1, running: 2 });
+  });
+
+  it("aborts a running job and drops queued and waiting ones", async () => {
+    const running = pending();
+    const queued = pending();
+    const queue = createGenerationQueue({ concurrency: 1, baseDelayMs: 1000 });
+    queue.enqueue("running", running.run);
+    queue.enqueue("queued", queued.run);
+
+    queue.cancel("queued");
+    queue.cancel("running");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(running.signal()?.aborted).toBe(true);
+    expect(queued.run).not.toHaveBeenCalled();
+    expect(queue.progress()).toMatchObject({ cancelled: 2, running: 0 });
+
+    const retried = vi.fn(async () => {
+      throw new RetryableError("429");
+    });
+    queue.enqueue("waiting", retried);
+    await vi.advanceTimersByTimeAsync(0);
+    queue.cancelAll();
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(retried).toHaveBeenCalledOnce();
+    expect(queue.progress().jobs.waiting.status).toBe("cancelled");
+  });
+
+  it("retries failed jobs from the first attempt", async () => {
+    const run = vi
+      .fn<() => Promise<void>>()
+      .mockRejectedValueOnce(new Error("500"))
+      .mockResolvedValueOnce();
+    const queue = createGenerationQueue({ concurrency: 1 });
+    queue.enqueue("a", run);
+    await vi.advanceTimersByTimeAsync(0);
+    queue.retryFailed();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.progress().jobs.a).toMatchObject({
+      status: "done",
+      attempt: 1,
+    });
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads seconds and HTTP dates", () => {
+    expect(parseRetryAfter("7")).toBe(7000);
+    vi.setSystemTime(new Date("2026-10-19T12:00:00Z"));
+    expect(parseRetryAfter("Mon, 19 Oct 2026 12:00:03 GMT")).toBe(3000);
+    expect(parseRetryAfter("Mon, 19 Oct 2026 11:00:00 GMT")).toBe(0);
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,238 @@
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "waiting"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+// Thrown by a job for rate limits and server errors; the queue backs off
+export class RetryableError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "RetryableError";
+  }
+}
+
+export interface QueueProgress {
+  total: number;
+  done: number;
+  failed: number;
+  cancelled: number;
+  running: number;
+  // Queued or waiting to retry
+  pending: number;
+  jobs: Record<
+    string,
+    { status: JobStatus; attempt: number; retryAt?: number }
+  >;
+}
+
+export interface GenerationQueueOptions {
+  concurrency: number;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onChange?: (progress: QueueProgress) => void;
+}
+
+export interface GenerationQueue {
+  enqueue(
+    id: string,
+    run: (signal: AbortSignal) => Promise<void>,
+    options?: { priority?: boolean }
+  ): void;
+  // Moves a queued job to the front; false if it is not queued
+  prioritize(id: string): boolean;
+  // Aborts a running job or drops a queued one
+  cancel(id: string): void;
+  cancelAll(): void;
+  retryFailed(): void;
+  setConcurrency(concurrency: number): void;
+  progress(): QueueProgress;
+}
+
+interface Job {
+  id: string;
+  run: (signal: AbortSignal) => Promise<void>;
+  status: JobStatus;
+  attempt: number;
+  retryAt?: number;
+  controller?: AbortController;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/** Parses a Retry-After header (seconds or an HTTP date) into milliseconds. */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Runs generation jobs at most `concurrency` at a time. Jobs that throw a
+ * RetryableError are retried with exponential backoff (or after the server's
+ * Retry-After) up to `maxAttempts` times.
+ */
+export function createGenerationQueue(
+  options: GenerationQueueOptions
+): GenerationQueue {
+  const {
+    maxAttempts = 4,
+    baseDelayMs = 2000,
+    maxDelayMs = 60000,
+    onChange,
+  } = options;
+  let concurrency = Math.max(1, options.concurrency);
+  // Insertion order is run order; prioritized jobs are re-inserted first
+  let jobs = new Map<string, Job>();
+
+  const isActive = (job: Job) =>
+    job.status === "queued" ||
+    job.status === "running" ||
+    job.status === "waiting";
+
+  const progress = (): QueueProgress => {
+    const all = Array.from(jobs.values());
+    const count = (...statuses: JobStatus[]) =>
+      all.filter((j) => statuses.includes(j.status)).length;
+    return {
+      total: all.length,
+      done: count("done"),
+      failed: count("failed"),
+      cancelled: count("cancelled"),
+      running: count("running"),
+      pending: count("queued", "waiting"),
+      jobs: Object.fromEntries(
+        all.map((j) => [
+          j.id,
+          { status: j.status, attempt: j.attempt, retryAt: j.retryAt },
+        ])
+      ),
+    };
+  };
+
+  const notify = () => onChange?.(progress());
+
+  const execute = async (job: Job) => {
+    job.status = "running";
+    job.attempt++;
+    job.retryAt = undefined;
+    job.controller = new AbortController();
+    const { signal } = job.controller;
+    notify();
+    try {
+      await job.run(signal);
+      // cancelAll() already marked aborted jobs
+      if (!signal.aborted) job.status = "done";
+    } catch (err) {
+      if (signal.aborted) {
+        job.status = "cancelled";
+      } else if (err instanceof RetryableError && job.attempt < maxAttempts) {
+        const backoff = Math.min(
+          maxDelayMs,
+          baseDelayMs * 2 ** (job.attempt - 1)
+        );
+        // Jitter keeps parallel retries from hitting the server together
+        const delay =
+          err.retryAfterMs ?? backoff + Math.random() * backoff * 0.2;
+        job.status = "waiting";
+        job.retryAt = Date.now() + delay;
+        job.timer = setTimeout(() => {
+          job.timer = undefined;
+          if (job.status !== "waiting") return;
+          job.status = "queued";
+          pump();
+        }, delay);
+      } else {
+        job.status = "failed";
+      }
+    }
+    job.controller = undefined;
+    pump();
+  };
+
+  const pump = () => {
+    let running = progress().running;
+    for (const job of Array.from(jobs.values())) {
+      if (running >= concurrency) break;
+      if (job.status === "queued") {
+        running++;
+        execute(job);
+      }
+    }
+    notify();
+  };
+
+  const stop = (job: Job) => {
+    if (job.timer) clearTimeout(job.timer);
+    job.timer = undefined;
+    job.controller?.abort();
+    job.status = "cancelled";
+  };
+
+  const moveToFront = (job: Job) => {
+    jobs = new Map([[job.id, job], ...jobs]);
+  };
+
+  return {
+    enqueue(id, run, { priority = false } = {}) {
+      const existing = jobs.get(id);
+      if (existing && isActive(existing)) {
+        if (priority && existing.status === "queued") moveToFront(existing);
+        pump();
+        return;
+      }
+      // A new batch starts once everything of the previous one settled
+      if (!Array.from(jobs.values()).some(isActive)) jobs = new Map();
+      else jobs.delete(id);
+      const job: Job = { id, run, status: "queued", attempt: 0 };
+      if (priority) moveToFront(job);
+      else jobs.set(id, job);
+      pump();
+    },
+
+    prioritize(id) {
+      const job = jobs.get(id);
+      if (!job || job.status !== "queued") return false;
+      moveToFront(job);
+      notify();
+      return true;
+    },
+
+    cancel(id) {
+      const job = jobs.get(id);
+      if (!job || !isActive(job)) return;
+      stop(job);
+      pump();
+    },
+
+    cancelAll() {
+      jobs.forEach((job) => {
+        if (isActive(job)) stop(job);
+      });
+      notify();
+    },
+
+    retryFailed() {
+      jobs.forEach((job) => {
+        if (job.status !== "failed") return;
+        job.status = "queued";
+        job.attempt = 0;
+      });
+      pump();
+    },
+
+    setConcurrency(value) {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+
+    progress,
+  };
+}
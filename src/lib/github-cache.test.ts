@@ -0,0 +1,208 @@
+import { createHash } from "node:crypto";
+import { mkdtemp, readdir, rm, utimes } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  CachedResponse,
+  createConditionalFetch,
+  createFileCacheStore,
+  createMemoryCacheStore,
+} from "@/lib/github-cache";
+
+const entry = (size: number, storedAt = Date.now()): CachedResponse => ({
+  etag: '"abc"',
+  headers: {},
+  body: "x".repeat(size),
+  storedAt,
+});
+
+describe("createMemoryCacheStore", () => {
+  it("drops the least recently used bodies beyond the size limit", async () => {
+    const store = createMemoryCacheStore(2500);
+    await store.set("a", entry(1000));
+    await store.set("b", entry(1000));
+    // Reading "a" makes "b" the least recently used
+    await store.get("a");
+    await store.set("c", entry(1000));
+
+    expect(await store.get("a")).toBeDefined();
+    expect(await store.get("b")).toBeUndefined();
+    expect(await store.get("c")).toBeDefined();
+  });
+
+  it("doesn't keep a body larger than the limit", async () => {
+    const store = createMemoryCacheStore(2500);
+    await store.set("a", entry(1000));
+    await store.set("huge", entry(3000));
+
+    expect(await store.get("huge")).toBeUndefined();
+    expect(await store.get("a")).toBeDefined();
+  });
+
+  it("counts a replaced entry once", async () => {
+    const store = createMemoryCacheStore(2500);
+    await store.set("a", entry(1000));
+    await store.set("a", entry(1000));
+    await store.set("b", entry(1000));
+
+    expect(await store.get("a")).toBeDefined();
+    expect(await store.get("b")).toBeDefined();
+  });
+});
+
+describe("createFileCacheStore", () => {
+  let directory: string;
+  const fileOf = (key: string) =>
+    path.join(
+      directory,
+      `${createHash("sha256").update(key).digest("hex")}.json`
+    );
+  // Sets the file's modification time to `ageMs` ago
+  const age = (key: string, ageMs: number) => {
+    const time = (Date.now() - ageMs) / 1000;
+    return utimes(fileOf(key), time, time);
+  };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "github-cache-"));
+  });
+
+  afterEach(() => rm(directory, { recursive: true, force: true }));
+
+  it("deletes the oldest files beyond the size limit", async () => {
+    let clock = Date.now();
+    const store = createFileCacheStore(directory, {
+      maxBytes: 2500,
+      now: () => clock,
+    });
+    await store.set("a", entry(1000));
+    await store.set("b", entry(1000));
+    await age("a", 2000);
+    await age("b", 1000);
+    // The directory is swept at most once a minute
+    clock += 61 * 1000;
+    await store.set("c", entry(1000));
+
+    expect(await store.get("a")).toBeUndefined();
+    expect(await store.get("b")).toBeDefined();
+    expect(await store.get("c")).toBeDefined();
+    expect(await readdir(directory)).toHaveLength(2);
+  });
+
+  it("expires entries after the age limit", async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const store = createFileCacheStore(directory, { maxAgeMs: day });
+    await store.set("old", entry(10, Date.now() - 2 * day));
+    expect(await store.get("old")).toBeUndefined();
+
+    // Expired files are deleted by the next sweep
+    await age("old", 2 * day);
+    const next = createFileCacheStore(directory, { maxAgeMs: day });
+    await next.set("new", entry(10));
+    expect(await readdir(directory)).toEqual([path.basename(fileOf("new"))]);
+  });
+});
+
+describe("createConditionalFetch", () => {
+  const rateLimited = (resource: string, remaining: number, reset: number) =>
+    new Response("{}", {
+      headers: {
+        "x-ratelimit-resource": resource,
+        "x-ratelimit-limit": resource === "graphql" ? "5000" : "60",
+        "x-ratelimit-remaining": String(remaining),
+        "x-ratelimit-reset": String(reset),
+      },
+    });
+
+  it("keeps the REST quota when GraphQL responses arrive later", async () => {
+    const responses = [
+      rateLimited("core", 41, 1700000000),
+      rateLimited("graphql", 4990, 1700003000),
+    ];
+    const cache = createConditionalFetch(createMemoryCacheStore(), async () =>
+      responses.shift()!
+    );
+    await cache.fetch("https://api.github.com/repos/acme/sdk/pulls");
+    await cache.fetch("https://api.github.com/graphql", {
+      method: "POST",
+      body: "{}",
+    });
+
+    expect(cache.rateLimit()).toEqual({
+      limit: 60,
+      remaining: 41,
+      reset: 1700000000,
+    });
+  });
+});
+
+describe("conditional requests", () => {
+  const url = "https://api.github.com/repos/acme/sdk/pulls/7";
+
+  function recording(responses: Response[]) {
+    const requests: Request[] = [];
+    const store = createMemoryCacheStore();
+    const cache = createConditionalFetch(store, async (input) => {
+      requests.push(input as Request);
+      return responses.shift()!;
+    });
+    return { cache, requests, store };
+  }
+
+  it("revalidates a cached GET and answers a 304 from the cache", async () => {
+    const { cache, requests } = recording([
+      new Response('{"number":7}', {
+        headers: {
+          "content-type": "application/json",
+          etag: '"v1"',
+          "last-modified": "Mon, 05 Oct 2026 11:20:30 GMT",
+        },
+      }),
+      new Response(null, {
+        status: 304,
+        headers: { "content-encoding": "gzip", "content-length": "20" },
+      }),
+    ]);
+    const accept = { headers: { accept: "application/vnd.github+json" } };
+    await cache.fetch(url, accept);
+    const response = await cache.fetch(url, accept);
+
+    expect(requests[0].headers.has("if-none-match")).toBe(false);
+    expect(requests[1].headers.get("if-none-match")).toBe('"v1"');
+    expect(requests[1].headers.get("if-modified-since")).toBe(
+      "Mon, 05 Oct 2026 11:20:30 GMT"
+    );
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('{"number":7}');
+    expect(response.headers.get("content-type")).toBe("application/json");
+    expect(response.headers.has("content-encoding")).toBe(false);
+    expect(response.headers.has("content-length")).toBe(false);
+  });
+
+  it("keeps other media types apart", async () => {
+    const { cache, requests } = recording([
+      new Response("{}", { headers: { etag: '"json"' } }),
+      new Response("diff --git", { headers: { etag: '"diff"' } }),
+    ]);
+    await cache.fetch(url);
+    await cache.fetch(url, {
+      headers: { accept: "application/vnd.github.diff" },
+    });
+    expect(requests[1].headers.has("if-none-match")).toBe(false);
+  });
+
+  it("never caches other methods", async () => {
+    const { cache, requests, store } = recording([
+      new Response("{}", { headers: { etag: '"post"' } }),
+      new Response("{}", { headers: { etag: '"post"' } }),
+    ]);
+    const post = { method: "POST", body: "{}" };
+    await cache.fetch("https://api.github.com/graphql", post);
+    await cache.fetch("https://api.github.com/graphql", post);
+
+    expect(requests[1].headers.has("if-none-match")).toBe(false);
+    expect(await store.get("https://api.github.com/graphql ")).toBeUndefined();
+  });
+});
@@ -0,0 +1,247 @@
+import { createHash } from "node:crypto";
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+
+export interface CachedResponse {
+  etag?: string;
+  lastModified?: string;
+  headers: Record<string, string>;
+  body: string;
+  storedAt: number;
+}
+
+export interface ResponseCacheStore {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, entry: CachedResponse): Promise<void>;
+}
+
+export interface RateLimit {
+  limit: number;
+  remaining: number;
+  // Unix time in seconds when the quota is refilled
+  reset: number;
+}
+
+// Diff bodies of large PRs run into megabytes, so the caches are bounded by
+// the size of the bodies rather than their number
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+// Entries of the file store older than this are requested again in full
+const DEFAULT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// The file store's directory is swept at most this often
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+// Approximate: bodies are mostly ASCII
+const sizeOf = (entry: CachedResponse) => entry.body.length;
+
+/**
+ * Least recently used entries are dropped once the bodies exceed `maxBytes`
+ * together; a single larger body isn't kept at all.
+ */
+export function createMemoryCacheStore(
+  maxBytes = DEFAULT_MAX_BYTES
+): ResponseCacheStore {
+  const entries = new Map<string, CachedResponse>();
+  let total = 0;
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    total -= sizeOf(entry);
+  };
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    async set(key, entry) {
+      remove(key);
+      if (sizeOf(entry) > maxBytes) return;
+      entries.set(key, entry);
+      total += sizeOf(entry);
+      while (total > maxBytes) remove(entries.keys().next().value as string);
+    },
+  };
+}
+
+/**
+ * One JSON file per request, so the cache survives server restarts. Entries
+ * expire after `maxAgeMs`, and the oldest files are deleted once all of them
+ * exceed `maxBytes`.
+ */
+export function createFileCacheStore(
+  directory: string,
+  options: { maxBytes?: number; maxAgeMs?: number; now?: () => number } = {}
+): ResponseCacheStore {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+  const now = options.now ?? Date.now;
+  let lastPrune = -Infinity;
+
+  const fileOf = (key: string) =>
+    path.join(
+      directory,
+      `${createHash("sha256").update(key).digest("hex")}.json`
+    );
+
+  const prune = async () => {
+    lastPrune = now();
+    const names = await readdir(directory);
+    const files = await Promise.all(
+      names
+        .filter((name) => name.endsWith(".json"))
+        .map(async (name) => {
+          const file = path.join(directory, name);
+          // Another request may have deleted it meanwhile
+          const info = await stat(file).catch(() => null);
+          return info && { file, size: info.size, mtimeMs: info.mtimeMs };
+        })
+    );
+    // Newest first; everything past the age or size limit goes
+    const found = files.filter((f) => f !== null);
+    found.sort((a, b) => b.mtimeMs - a.mtimeMs);
+    let total = 0;
+    const expired = found.filter((f) => {
+      total += f.size;
+      return total > maxBytes || now() - f.mtimeMs > maxAgeMs;
+    });
+    await Promise.all(expired.map((f) => rm(f.file, { force: true })));
+  };
+
+  return {
+    async get(key) {
+      try {
+        const entry: CachedResponse = JSON.parse(
+          await readFile(fileOf(key), "utf8")
+        );
+        return now() - entry.storedAt > maxAgeMs ? undefined : entry;
+      } catch {
+        return undefined;
+      }
+    },
+    async set(key, entry) {
+      try {
+        await mkdir(directory, { recursive: true });
+        await writeFile(fileOf(key), JSON.stringify(entry));
+      } catch (err) {
+        console.error("Failed to write GitHub cache entry:", err);
+        return;
+      }
+      if (now() - lastPrune >= PRUNE_INTERVAL_MS) {
+        await prune().catch((err) =>
+          console.error("Failed to prune the GitHub cache:", err)
+        );
+      }
+    },
+  };
+}
+
+// GITHUB_CACHE_DIR selects the file store, otherwise responses stay in
+// memory; GITHUB_CACHE_MAX_MB bounds either
+export function cacheStoreFromEnv(): ResponseCacheStore {
+  const directory = process.env.GITHUB_CACHE_DIR;
+  const maxMegabytes = Number(process.env.GITHUB_CACHE_MAX_MB);
+  const maxBytes =
+    maxMegabytes > 0 ? maxMegabytes * 1024 * 1024 : DEFAULT_MAX_BYTES;
+  return directory
+    ? createFileCacheStore(directory, { maxBytes })
+    : createMemoryCacheStore(maxBytes);
+}
+
+function readRateLimit(headers: Headers): RateLimit | null {
+  const limit = Number(headers.get("x-ratelimit-limit") ?? NaN);
+  const remaining = Number(headers.get("x-ratelimit-remaining") ?? NaN);
+  const reset = Number(headers.get("x-ratelimit-reset") ?? NaN);
+  if (isNaN(limit) || isNaN(remaining) || isNaN(reset)) return null;
+  return { limit, remaining, reset };
+}
+
+// The cached body is stored decoded, so these no longer apply
+const DROPPED_HEADERS = ["content-encoding", "content-length"];
+
+/**
+ * Wraps `fetch` so GET requests are conditional: the ETag and Last-Modified
+ * of earlier responses are sent back, and a 304 (which GitHub doesn't count
+ * against the rate limit) is answered from `store` as a 200. Also keeps the
+ * most recent REST ("core") rate limit GitHub reported.
+ */
+export function createConditionalFetch(
+  store: ResponseCacheStore,
+  fetchImpl: typeof fetch = fetch
+): { fetch: typeof fetch; rateLimit(): RateLimit | null } {
+  let rateLimit: RateLimit | null = null;
+  const track = (headers: Headers) => {
+    // GraphQL and search have quotas of their own; the page shows the REST one
+    const resource = headers.get("x-ratelimit-resource");
+    if (resource && resource !== "core") return;
+    const latest = readRateLimit(headers);
+    // Parallel responses arrive out of order; the lowest count is the newest
+    if (
+      latest &&
+      (!rateLimit ||
+        latest.reset !== rateLimit.reset ||
+        latest.remaining < rateLimit.remaining)
+    ) {
+      rateLimit = latest;
+    }
+  };
+
+  const conditionalFetch = async (
+    input: RequestInfo | URL,
+    init: RequestInit = {}
+  ): Promise<Response> => {
+    const request = new Request(input, init);
+    if (request.method !== "GET") {
+      // Not cached, but their quota is still read, e.g. GraphQL's
+      const response = await fetchImpl(request);
+      track(response.headers);
+      return response;
+    }
+
+    // The media type picks the representation, e.g. JSON or a diff
+    const key = `${request.url} ${request.headers.get("accept") ?? ""}`;
+    const cached = await store.get(key);
+    if (cached?.etag) request.headers.set("if-none-match", cached.etag);
+    if (cached?.lastModified) {
+      request.headers.set("if-modified-since", cached.lastModified);
+    }
+
+    const response = await fetchImpl(request);
+    track(response.headers);
+    if (response.status === 304 && cached) {
+      const headers = new Headers(cached.headers);
+      response.headers.forEach((value, name) => headers.set(name, value));
+      DROPPED_HEADERS.forEach((name) => headers.delete(name));
+      return new Response(cached.body, { status: 200, headers });
+    }
+
+    const etag = response.headers.get("etag") ?? undefined;
+    const lastModified = response.headers.get("last-modified") ?? undefined;
+    if (response.ok && (etag || lastModified)) {
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        if (!DROPPED_HEADERS.includes(name)) headers[name] = value;
+      });
+      await store.set(key, {
+        etag,
+        lastModified,
+        headers,
+        body: await response.clone().text(),
+        storedAt: Date.now(),
+      });
+    }
+    return response;
+  };
+
+  return { fetch: conditionalFetch, rateLimit: () => rateLimit };
+}
@@ -0,0 +1,253 @@
+import type { Octokit, RestEndpointMethodTypes } from "@octokit/rest";
+
+import { parseUnifiedDiff } from "@/lib/diff-parser";
+import {
+  LIST_PAGE_SIZE,
+  collectPages,
+  decodeCursor,
+  encodeCursor,
+} from "@/lib/sources/paging";
+import { SourceRequestError } from "@/lib/sources/types";
+
+export interface ChangedFile {
+  path: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface LinkedIssue {
+  number: number;
+  // Unknown when the issue was only found in the PR body
+  title: string | null;
+  url: string;
+}
+
+// PR metadata beyond what the list endpoint returns
+export interface PullRequestDetails {
+  body: string | null;
+  baseBranch: string | null;
+  additions: number;
+  deletions: number;
+  files: ChangedFile[];
+  linkedIssues: LinkedIssue[];
+}
+
+// "rest" lists closed PRs and derives the details from their diffs, "graphql"
+// lists merged PRs together with their details
+export type PullRequestFetcher = "rest" | "graphql";
+
+// GitHub's GraphQL API always needs a token
+export function fetcherFromEnv(): PullRequestFetcher {
+  const configured = process.env.GITHUB_FETCHER;
+  if (configured === "rest" || configured === "graphql") return configured;
+  return process.env.GITHUB_TOKEN ? "graphql" : "rest";
+}
+
+export type ListedPullRequest =
+  RestEndpointMethodTypes["pulls"]["list"]["response"]["data"][number];
+
+/**
+ * Collects up to `perPage` merged PRs, most recently updated first, reading
+ * as many pages of closed PRs as needed. `nextCursor` is null once the
+ * history ran out.
+ */
+export async function listMergedPullRequests(
+  octokit: Octokit,
+  options: { owner: string; repo: string; perPage: number; cursor?: string }
+): Promise<{ pulls: ListedPullRequest[]; nextCursor: string | null }> {
+  const { items, nextCursor } = await collectPages(
+    async (page) => {
+      const { data } = await octokit.pulls.list({
+        owner: options.owner,
+        repo: options.repo,
+        state: "closed",
+        per_page: LIST_PAGE_SIZE,
+        page,
+        sort: "updated",
+        direction: "desc",
+      });
+      return data;
+    },
+    (pr) => !!pr.merged_at,
+    options
+  );
+  return { pulls: items, nextCursor };
+}
+
+// Keywords GitHub, GitLab and Gitea use to close issues from a description
+const CLOSING_PATTERN =
+  /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*:?\s+#(\d+)\b/gi;
+
+// `issueUrl` builds the web address of an issue from its number
+export function closingIssuesFromBody(
+  body: string | null,
+  issueUrl: (number: number) => string
+): LinkedIssue[] {
+  const numbers = Array.from(body?.matchAll(CLOSING_PATTERN) ?? [], (m) =>
+    parseInt(m[1], 10)
+  );
+  return Array.from(new Set(numbers)).map((number) => ({
+    number,
+    title: null,
+    url: issueUrl(number),
+  }));
+}
+
+// For prompts: "#12 Title, #15"
+export function formatLinkedIssues(issues: LinkedIssue[]): string {
+  return issues
+    .map((i) => `#${i.number}${i.title ? ` ${i.title}` : ""}`)
+    .join(", ");
+}
+
+/** Details for the REST fetcher: counts and files come from the diff. */
+export function detailsFromDiff(
+  diff: string,
+  pr: { body?: string | null; base?: { ref: string } },
+  issueUrl: (number: number) => string
+): PullRequestDetails {
+  const files = parseUnifiedDiff(diff).map((f) => ({
+    path: f.path,
+    additions: f.additions,
+    deletions: f.deletions,
+  }));
+  return {
+    body: pr.body ?? null,
+    baseBranch: pr.base?.ref ?? null,
+    additions: files.reduce((sum, f) => sum + f.additions, 0),
+    deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+    files,
+    linkedIssues: closingIssuesFromBody(pr.body ?? null, issueUrl),
+  };
+}
+
+const DETAILS_FRAGMENT = `fragment Details on PullRequest {
+  number
+  body
+  baseRefName
+  additions
+  deletions
+  files(first: 100) { nodes { path additions deletions } }
+  closingIssuesReferences(first: 10) { nodes { number title url } }
+}`;
+
+interface DetailsNode {
+  number: number;
+  body: string;
+  baseRefName: string;
+  additions: number;
+  deletions: number;
+  files: { nodes: ChangedFile[] } | null;
+  closingIssuesReferences: { nodes: LinkedIssue[] } | null;
+}
+
+interface MergedNode extends DetailsNode {
+  title: string;
+  url: string;
+  mergedAt: string | null;
+  // Null for deleted accounts
+  author: { login: string } | null;
+  labels: { nodes: { name: string }[] } | null;
+}
+
+// A merged PR as GraphQL lists it, with the details the REST list lacks
+export interface MergedPullRequest {
+  number: number;
+  title: string;
+  author: string | null;
+  url: string;
+  mergedAt: string | null;
+  labels: string[];
+  details: PullRequestDetails;
+}
+
+const MERGED_QUERY = `query ($owner: String!, $repo: String!, $first: Int!, $after: String) {
+  repository(owner: $owner, name: $repo) {
+    pullRequests(
+      states: MERGED
+      orderBy: { field: UPDATED_AT, direction: DESC }
+      first: $first
+      after: $after
+    ) {
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        ...Details
+        title
+        url
+        mergedAt
+        author { login }
+        labels(first: 20) { nodes { name } }
+      }
+    }
+  }
+}
+${DETAILS_FRAGMENT}`;
+
+/**
+ * Lists `perPage` merged PRs, most recently updated first, with their
+ * details in one GraphQL query; GitHub filters by state, so no page is spent
+ * on closed PRs. `cursor` must be one this function returned; others are
+ * rejected with a 400.
+ */
+export async function listMergedPullRequestsGraphQL(
+  octokit: Octokit,
+  options: { owner: string; repo: string; perPage: number; cursor?: string }
+): Promise<{ pulls: MergedPullRequest[]; nextCursor: string | null }> {
+  type Data = {
+    repository: {
+      pullRequests: {
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        nodes: MergedNode[];
+      };
+    } | null;
+  };
+  // A REST page cursor would silently restart the list from the top
+  const after = options.cursor ? decodeCursor(options.cursor)?.after : null;
+  if (options.cursor && !after) {
+    throw new SourceRequestError(
+      "The cursor does not belong to a GraphQL listing. Load the list again.",
+      400
+    );
+  }
+  const { repository } = await octokit
+    .graphql<Data>(MERGED_QUERY, {
+      owner: options.owner,
+      repo: options.repo,
+      first: options.perPage,
+      after: after ?? null,
+    })
+    .catch((err) => {
+      // GraphQL answers 200 with an error for missing repositories
+      const errors = (err as { errors?: { type?: string }[] }).errors;
+      if (errors?.some((e) => e.type === "NOT_FOUND")) {
+        throw new SourceRequestError((err as Error).message, 404);
+      }
+      throw err;
+    });
+  if (!repository) {
+    throw new SourceRequestError("Repository not found", 404);
+  }
+  const { pageInfo, nodes } = repository.pullRequests;
+  return {
+    pulls: nodes.map((node) => ({
+      number: node.number,
+      title: node.title,
+      author: node.author?.login ?? null,
+      url: node.url,
+      mergedAt: node.mergedAt,
+      labels: node.labels?.nodes.map((label) => label.name) ?? [],
+      details: {
+        body: node.body || null,
+        baseBranch: node.baseRefName,
+        additions: node.additions,
+        deletions: node.deletions,
+        files: node.files?.nodes ?? [],
+        linkedIssues: node.closingIssuesReferences?.nodes ?? [],
+      },
+    })),
+    nextCursor:
+      pageInfo.hasNextPage && pageInfo.endCursor
+        ? encodeCursor({ page: 1, offset: 0, after: pageInfo.endCursor })
+        : null,
+  };
+}
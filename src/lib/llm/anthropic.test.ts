@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { createAnthropicProvider } from "@/lib/llm/anthropic";
+import { LLMRequestError, StructuredRequest } from "@/lib/llm/types";
+
+const anthropic = createAnthropicProvider({
+  apiKey: "sk-ant-test",
+  baseUrl: "https://api.anthropic.test",
+  model: "claude-test",
+});
+
+const request: StructuredRequest = {
+  system: "s",
+  user: "u",
+  tool: {
+    name: "release_notes",
+    description: "Release notes",
+    parameters: {
+      type: "object",
+      properties: { developer: { type: "string" } },
+      required: ["developer"],
+    },
+  },
+};
+
+function respond(response: Response) {
+  vi.stubGlobal("fetch", async () => response);
+}
+
+// A server-sent event stream of the Messages API
+function events(...data: Record<string, unknown>[]): Response {
+  const text = data
+    .map((d) => `event: ${String(d.type)}\ndata: ${JSON.stringify(d)}\n\n`)
+    .join("");
+  return new Response(text, {
+    headers: { "content-type": "text/event-stream" },
+  });
+}
+
+async function collect() {
+  const chunks = [];
+  for await (const chunk of anthropic.streamStructured(request)) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe("createAnthropicProvider", () => {
+  it("maps error responses to LLMRequestError", async () => {
+    respond(
+      Response.json(
+        {
+          type: "error",
+          error: { type: "overloaded_error", message: "Overloaded" },
+        },
+        { status: 529, headers: { "retry-after": "30" } }
+      )
+    );
+    const error = await collect().catch((e) => e);
+    expect(error).toBeInstanceOf(LLMRequestError);
+    expect(error).toMatchObject({
+      status: 529,
+      retryAfter: "30",
+      message: "Overloaded",
+    });
+  });
+
+  it("falls back to the status without an error body", async () => {
+    respond(new Response("Bad gateway", { status: 502 }));
+    const error = await anthropic
+      .complete({ system: "s", user: "u" })
+      .catch((e) => e);
+    expect(error).toMatchObject({
+      status: 502,
+      message: "Anthropic API error (status 502)",
+    });
+  });
+
+  it("streams the tool input and the usage", async () => {
+    respond(
+      events(
+        { type: "message_start", message: { usage: { input_tokens: 20 } } },
+        {
+          type: "content_block_delta",
+          delta: { type: "input_json_delta", partial_json: '{"developer":' },
+        },
+        {
+          type: "content_block_delta",
+          delta: { type: "input_json_delta", partial_json: '"Adds x."}' },
+        },
+        { type: "message_delta", usage: { output_tokens: 6 } }
+      )
+    );
+    expect(await collect()).toEqual([
+      { type: "arguments", text: '{"developer":' },
+      { type: "arguments", text: '"Adds x."}' },
+      { type: "usage", promptTokens: 20, completionTokens: 6 },
+    ]);
+  });
+
+  it("throws errors sent in the stream", async () => {
+    respond(
+      events(
+        { type: "message_start", message: { usage: { input_tokens: 20 } } },
+        { type: "error", error: { message: "Overloaded" } }
+      )
+    );
+    await expect(collect()).rejects.toThrow("Overloaded");
+  });
+});
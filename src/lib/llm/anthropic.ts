@@ -0,0 +1,147 @@
+import { readServerSentEvents } from "@/lib/sse";
+import {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  LLMRequestError,
+  StructuredRequest,
+  StructuredStreamChunk,
+} from "@/lib/llm/types";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 1024;
+
+interface AnthropicOptions {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+}
+
+async function post(
+  options: AnthropicOptions,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetch(`${options.baseUrl}/v1/messages`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-api-key": options.apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+    },
+    body: JSON.stringify({ model: options.model, ...body }),
+    signal,
+  });
+  if (!response.ok) {
+    let message = `Anthropic API error (status ${response.status})`;
+    try {
+      const data = await response.json();
+      message = data?.error?.message || message;
+    } catch {}
+    throw new LLMRequestError(
+      message,
+      response.status,
+      response.headers.get("retry-after") ?? undefined
+    );
+  }
+  return response;
+}
+
+// Messages API adapter using a forced tool call for structured output
+export function createAnthropicProvider(
+  options: AnthropicOptions
+): LLMProvider {
+  return {
+    id: "anthropic",
+    model: options.model,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const response = await post(
+        options,
+        {
+          system: request.system,
+          messages: [{ role: "user", content: request.user }],
+          temperature: request.temperature,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        },
+        request.signal
+      );
+      const data = (await response.json()) as {
+        content?: { type: string; text?: string }[];
+        usage?: { input_tokens: number; output_tokens: number };
+      };
+      return {
+        text: (data.content ?? [])
+          .filter((block) => block.type === "text")
+          .map((block) => block.text)
+          .join("")
+          .trim(),
+        usage: data.usage && {
+          promptTokens: data.usage.input_tokens,
+          completionTokens: data.usage.output_tokens,
+        },
+      };
+    },
+
+    async *streamStructured(
+      request: StructuredRequest
+    ): AsyncIterable<StructuredStreamChunk> {
+      const response = await post(
+        options,
+        {
+          system: request.system,
+          messages: [{ role: "user", content: request.user }],
+          temperature: request.temperature,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          stream: true,
+          tools: [
+            {
+              name: request.tool.name,
+              description: request.tool.description,
+              input_schema: request.tool.parameters,
+            },
+          ],
+          tool_choice: { type: "tool", name: request.tool.name },
+        },
+        request.signal
+      );
+      if (!response.body) throw new Error("Anthropic API returned no body");
+
+      let promptTokens = 0;
+      for await (const message of readServerSentEvents(response.body)) {
+        const event = JSON.parse(message.data) as Record<string, unknown>;
+        if (event.type === "error") {
+          const error = event.error as { message?: string } | undefined;
+          throw new Error(error?.message || "Anthropic stream error");
+        }
+        const delta = event.delta as
+          | { type?: string; partial_json?: string }
+          | undefined;
+        if (
+          event.type === "content_block_delta" &&
+          delta?.type === "input_json_delta" &&
+          delta.partial_json
+        ) {
+          yield { type: "arguments", text: delta.partial_json };
+        }
+        // Input tokens arrive with message_start, output tokens at the end
+        if (event.type === "message_start") {
+          const start = event.message as {
+            usage?: { input_tokens?: number };
+          };
+          promptTokens = start?.usage?.input_tokens ?? 0;
+        }
+        if (event.type === "message_delta") {
+          const usage = event.usage as { output_tokens?: number } | undefined;
+          if (usage?.output_tokens !== undefined) {
+            yield {
+              type: "usage",
+              promptTokens,
+              completionTokens: usage.output_tokens,
+            };
+          }
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { LLMConfigError, createProvider, listProviders } from "@/lib/llm";
+
+afterEach(() => vi.unstubAllEnvs());
+
+describe("createProvider", () => {
+  it("uses LLM_PROVIDER and LLM_MODEL without a selection", () => {
+    vi.stubEnv("LLM_PROVIDER", "mock");
+    vi.stubEnv("LLM_MODEL", "mock-2");
+    expect(createProvider()).toMatchObject({ id: "mock", model: "mock-2" });
+  });
+
+  it("falls back to OpenAI for an unknown LLM_PROVIDER", () => {
+    vi.stubEnv("LLM_PROVIDER", "nope");
+    vi.stubEnv("OPENAI_API_KEY", "sk-test");
+    vi.stubEnv("OPENAI_MODEL", "");
+    expect(createProvider()).toMatchObject({
+      id: "openai",
+      model: "gpt-4.1-nano",
+    });
+  });
+
+  it("lets a request pick the provider and model", () => {
+    vi.stubEnv("LLM_PROVIDER", "mock");
+    vi.stubEnv("LLM_MODEL", "mock-2");
+    vi.stubEnv("ANTHROPIC_API_KEY", "sk-ant-test");
+    vi.stubEnv("ANTHROPIC_MODEL", "claude-test");
+
+    // LLM_MODEL only applies to the default provider
+    expect(createProvider({ provider: "anthropic" })).toMatchObject({
+      id: "anthropic",
+      model: "claude-test",
+    });
+    expect(
+      createProvider({ provider: "anthropic", model: "claude-other" }).model
+    ).toBe("claude-other");
+    expect(createProvider({ model: "mock-3" })).toMatchObject({
+      id: "mock",
+      model: "mock-3",
+    });
+  });
+
+  it("throws LLMConfigError for missing credentials", () => {
+    vi.stubEnv("OPENAI_API_KEY", "");
+    vi.stubEnv("AZURE_OPENAI_ENDPOINT", "https://example.openai.azure.com");
+    vi.stubEnv("AZURE_OPENAI_API_KEY", "azure-key");
+    vi.stubEnv("AZURE_OPENAI_DEPLOYMENT", "");
+
+    expect(() => createProvider({ provider: "openai" })).toThrow(
+      LLMConfigError
+    );
+    expect(() => createProvider({ provider: "azure" })).toThrow(
+      "Missing Azure OpenAI deployment name."
+    );
+  });
+
+  it("reports which providers are configured", () => {
+    vi.stubEnv("ANTHROPIC_API_KEY", "");
+    vi.stubEnv("OPENAI_COMPATIBLE_BASE_URL", "http://localhost:11434/v1");
+    const configured = Object.fromEntries(
+      listProviders().map((p) => [p.id, p.configured])
+    );
+    expect(configured).toMatchObject({
+      anthropic: false,
+      "openai-compatible": true,
+      mock: true,
+    });
+  });
+});
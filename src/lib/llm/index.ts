@@ -0,0 +1,171 @@
+import OpenAI, { AzureOpenAI } from "openai";
+
+import { createAnthropicProvider } from "@/lib/llm/anthropic";
+import { createMockProvider } from "@/lib/llm/mock";
+import { createOpenAIProvider } from "@/lib/llm/openai";
+import {
+  LLMConfigError,
+  LLMProvider,
+  PROVIDER_IDS,
+  ProviderId,
+  ProviderSelection,
+} from "@/lib/llm/types";
+
+export * from "@/lib/llm/types";
+export { validateToolArguments } from "@/lib/llm/schema";
+
+export interface ProviderInfo {
+  id: ProviderId;
+  label: string;
+  configured: boolean;
+  defaultModel: string;
+}
+
+const env = process.env;
+
+const PROVIDER_LABELS: Record<ProviderId, string> = {
+  openai: "OpenAI",
+  "openai-compatible": "OpenAI-compatible server",
+  azure: "Azure OpenAI",
+  anthropic: "Anthropic",
+  mock: "Mock (offline)",
+};
+
+function defaultModel(id: ProviderId): string {
+  switch (id) {
+    case "openai":
+      return env.OPENAI_MODEL || "gpt-4.1-nano";
+    case "openai-compatible":
+      return env.OPENAI_COMPATIBLE_MODEL || "llama3.1";
+    case "azure":
+      return env.AZURE_OPENAI_DEPLOYMENT || "";
+    case "anthropic":
+      return env.ANTHROPIC_MODEL || "claude-3-5-haiku-latest";
+    case "mock":
+      return "mock-1";
+  }
+}
+
+function isConfigured(id: ProviderId): boolean {
+  switch (id) {
+    case "openai":
+      return !!env.OPENAI_API_KEY;
+    case "openai-compatible":
+      return !!env.OPENAI_COMPATIBLE_BASE_URL;
+    case "azure":
+      return !!(env.AZURE_OPENAI_ENDPOINT && env.AZURE_OPENAI_API_KEY);
+    case "anthropic":
+      return !!env.ANTHROPIC_API_KEY;
+    case "mock":
+      return true;
+  }
+}
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return PROVIDER_IDS.includes(value as ProviderId);
+}
+
+export function defaultProviderId(): ProviderId {
+  return isProviderId(env.LLM_PROVIDER) ? env.LLM_PROVIDER : "openai";
+}
+
+export function listProviders(): ProviderInfo[] {
+  return PROVIDER_IDS.map((id) => ({
+    id,
+    label: PROVIDER_LABELS[id],
+    configured: isConfigured(id),
+    defaultModel: defaultModel(id),
+  }));
+}
+
+// Accepts untrusted JSON (request bodies) and keeps only known fields
+export function normalizeProviderSelection(
+  value: unknown
+): Partial<ProviderSelection> {
+  if (!value || typeof value !== "object") return {};
+  const v = value as Record<string, unknown>;
+  return {
+    provider: isProviderId(v.provider) ? v.provider : undefined,
+    model:
+      typeof v.model === "string" && v.model.trim()
+        ? v.model.trim().slice(0, 200)
+        : undefined,
+  };
+}
+
+/**
+ * Builds the provider for a request. The selection (per request or per
+ * workspace) picks provider and model; credentials and endpoints come from
+ * the environment. Throws LLMConfigError when they are missing.
+ */
+export function createProvider(
+  selection: Partial<ProviderSelection> = {}
+): LLMProvider {
+  const id = selection.provider ?? defaultProviderId();
+  const model =
+    selection.model ||
+    (id === defaultProviderId() && env.LLM_MODEL) ||
+    defaultModel(id);
+
+  switch (id) {
+    case "openai":
+      if (!env.OPENAI_API_KEY) {
+        throw new LLMConfigError("Missing OpenAI API key.");
+      }
+      return createOpenAIProvider(
+        id,
+        new OpenAI({ apiKey: env.OPENAI_API_KEY }),
+        model
+      );
+    case "openai-compatible":
+      if (!env.OPENAI_COMPATIBLE_BASE_URL) {
+        throw new LLMConfigError(
+          "Missing OPENAI_COMPATIBLE_BASE_URL for the OpenAI-compatible provider."
+        );
+      }
+      return createOpenAIProvider(
+        id,
+        new OpenAI({
+          baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+          // Local servers usually ignore the key, but the SDK requires one
+          apiKey: env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+        }),
+        model
+      );
+    case "azure":
+      if (!env.AZURE_OPENAI_ENDPOINT || !env.AZURE_OPENAI_API_KEY) {
+        throw new LLMConfigError(
+          "Missing AZURE_OPENAI_ENDPOINT or AZURE_OPENAI_API_KEY."
+        );
+      }
+      if (!model) {
+        throw new LLMConfigError("Missing Azure OpenAI deployment name.");
+      }
+      return createOpenAIProvider(
+        id,
+        new AzureOpenAI({
+          endpoint: env.AZURE_OPENAI_ENDPOINT,
+          apiKey: env.AZURE_OPENAI_API_KEY,
+          apiVersion: env.AZURE_OPENAI_API_VERSION || "2024-10-21",
+          deployment: model,
+        }),
+        model
+      );
+    case "anthropic":
+      if (!env.ANTHROPIC_API_KEY) {
+        throw new LLMConfigError("Missing Anthropic API key.");
+      }
+      return createAnthropicProvider({
+        apiKey: env.ANTHROPIC_API_KEY,
+        baseUrl: env.ANTHROPIC_BASE_URL || "https://api.anthropic.com",
+        model,
+      });
+    case "mock":
+      return createMockProvider(
+        model,
+        parseInt(env.MOCK_LLM_DELAY_MS || "0", 10) || 0
+      );
+    default:
+      throw new LLMConfigError(`Unknown LLM provider: ${id}`);
+  }
+}
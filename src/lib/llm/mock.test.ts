@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+
+import { createMockProvider } from "@/lib/llm/mock";
+import { StructuredRequest } from "@/lib/llm/types";
+import { BUILT_IN_PROMPT, renderTemplate } from "@/lib/prompt-templates";
+
+const user = renderTemplate(BUILT_IN_PROMPT.user, {
+  title: "Add a timeout option to streams",
+  body: "",
+  repo: "acme/sdk",
+  author: "@ann",
+  branch: "main",
+  labels: "none",
+  issues: "none",
+  diff: "diff --git a/a.ts b/a.ts",
+  audiences: "",
+});
+
+const request: StructuredRequest = {
+  system: "Write release notes.",
+  user,
+  tool: {
+    name: "release_notes",
+    description: "Release notes",
+    parameters: {
+      type: "object",
+      properties: {
+        developer: { type: "string" },
+        marketing: { type: "string" },
+      },
+      required: ["developer", "marketing"],
+    },
+  },
+};
+
+async function collect(req: StructuredRequest) {
+  const chunks = [];
+  for await (const chunk of createMockProvider().streamStructured(req)) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe("createMockProvider", () => {
+  it("streams the tool arguments in fragments, then the usage", async () => {
+    const chunks = await collect(request);
+    const fragments = chunks.filter((c) => c.type === "arguments");
+
+    expect(fragments.length).toBeGreaterThan(1);
+    expect(fragments.every((c) => c.text.length <= 12)).toBe(true);
+    expect(chunks.at(-1)).toMatchObject({ type: "usage" });
+    const args = JSON.parse(fragments.map((c) => c.text).join(""));
+    expect(Object.keys(args)).toEqual(["developer", "marketing"]);
+    // The subject is the title from the rendered template
+    expect(args.developer).toMatch(
+      /^Mock developer for "Add a timeout option to streams" \([0-9a-f]{8}\)\.$/
+    );
+  });
+
+  it("answers the same prompt the same way", async () => {
+    expect(await collect(request)).toEqual(await collect(request));
+    const other = await collect({ ...request, user: `${user}\nmore` });
+    expect(other).not.toEqual(await collect(request));
+  });
+
+  it("uses the first line of prompts in other shapes", async () => {
+    const chunks = await collect({ ...request, user: "Summarize this\n+x" });
+    const args = JSON.parse(
+      chunks.map((c) => (c.type === "arguments" ? c.text : "")).join("")
+    );
+    expect(args.marketing).toContain('"Summarize this"');
+  });
+
+  it("stops when the request is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      collect({ ...request, signal: controller.signal })
+    ).rejects.toThrow();
+  });
+});
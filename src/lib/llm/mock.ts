@@ -0,0 +1,84 @@
+import { estimateTokens } from "@/lib/chunking";
+import {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  StructuredRequest,
+  StructuredStreamChunk,
+} from "@/lib/llm/types";
+
+const FRAGMENT_SIZE = 12;
+
+// FNV-1a, so the same prompt always produces the same output
+function hash(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+// The title from the built-in template's first line, "Pull request <title>
+// in <repo> by <author>, merged into ..."; custom templates fall back to the
+// prompt's first line
+const TITLE_PATTERN = /^Pull request (.+) in \S* by \S+, merged into /m;
+
+function subjectOf(prompt: string): string {
+  const title = prompt.match(TITLE_PATTERN)?.[1];
+  const subject = title ?? prompt.split("\n")[0];
+  return subject.length > 80 ? `${subject.slice(0, 77)}...` : subject;
+}
+
+const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Offline provider for development and tests: no network, no API key, and
+ * output that only depends on the prompt. `delayMs` paces the stream so the
+ * UI's incremental rendering can be exercised.
+ */
+export function createMockProvider(
+  model = "mock-1",
+  delayMs = 0
+): LLMProvider {
+  return {
+    id: "mock",
+    model,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const lines = request.user.split("\n").length;
+      const text = `- Mock summary of ${lines} lines of input (${hash(request.user)})`;
+      return {
+        text,
+        usage: {
+          promptTokens: estimateTokens(request.system + request.user),
+          completionTokens: estimateTokens(text),
+        },
+      };
+    },
+
+    async *streamStructured(
+      request: StructuredRequest
+    ): AsyncIterable<StructuredStreamChunk> {
+      const subject = subjectOf(request.user);
+      const id = hash(`${request.system}\n${request.user}`);
+      const args: Record<string, string> = {};
+      Object.keys(request.tool.parameters.properties).forEach((key) => {
+        args[key] = `Mock ${key.replace(/_/g, " ")} for "${subject}" (${id}).`;
+      });
+
+      const json = JSON.stringify(args);
+      for (let i = 0; i < json.length; i += FRAGMENT_SIZE) {
+        if (delayMs) await sleep(delayMs);
+        request.signal?.throwIfAborted();
+        yield { type: "arguments", text: json.slice(i, i + FRAGMENT_SIZE) };
+      }
+      yield {
+        type: "usage",
+        promptTokens: estimateTokens(request.system + request.user),
+        completionTokens: estimateTokens(json),
+      };
+    },
+  };
+}
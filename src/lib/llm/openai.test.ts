@@ -0,0 +1,52 @@
+import OpenAI from "openai";
+import { describe, expect, it } from "vitest";
+
+import { createOpenAIProvider } from "@/lib/llm/openai";
+import { LLMRequestError } from "@/lib/llm/types";
+
+function provider(response: () => Response) {
+  const client = new OpenAI({
+    apiKey: "sk-test",
+    maxRetries: 0,
+    fetch: async () => response(),
+  });
+  return createOpenAIProvider("openai", client, "gpt-test");
+}
+
+describe("createOpenAIProvider", () => {
+  it("keeps the status and Retry-After of API errors", async () => {
+    const openai = provider(
+      () =>
+        new Response(
+          JSON.stringify({ error: { message: "Rate limit reached" } }),
+          {
+            status: 429,
+            headers: {
+              "content-type": "application/json",
+              "retry-after": "7",
+            },
+          }
+        )
+    );
+    const error = await openai
+      .complete({ system: "s", user: "u" })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(LLMRequestError);
+    expect(error).toMatchObject({ status: 429, retryAfter: "7" });
+    expect(error.message).toContain("Rate limit reached");
+  });
+
+  it("returns the text and usage of a completion", async () => {
+    const openai = provider(() =>
+      Response.json({
+        choices: [{ message: { role: "assistant", content: " Notes \n" } }],
+        usage: { prompt_tokens: 12, completion_tokens: 3 },
+      })
+    );
+    expect(await openai.complete({ system: "s", user: "u" })).toEqual({
+      text: "Notes",
+      usage: { promptTokens: 12, completionTokens: 3 },
+    });
+  });
+});
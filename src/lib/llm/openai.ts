@@ -0,0 +1,117 @@
+import OpenAI from "openai";
+
+import {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  LLMRequestError,
+  ProviderId,
+  StructuredRequest,
+  StructuredStreamChunk,
+} from "@/lib/llm/types";
+
+// Keeps the status and Retry-After of API errors for the client's backoff
+function toRequestError(err: unknown): unknown {
+  if (err instanceof OpenAI.APIError && err.status) {
+    return new LLMRequestError(
+      err.message,
+      err.status,
+      err.headers?.["retry-after"] ?? undefined
+    );
+  }
+  return err;
+}
+
+// Chat Completions adapter; also serves Azure and OpenAI-compatible servers
+// (Ollama, llama.cpp, vLLM, ...) through the client's base URL.
+export function createOpenAIProvider(
+  id: ProviderId,
+  client: OpenAI,
+  model: string
+): LLMProvider {
+  return {
+    id,
+    model,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const completion = await client.chat.completions
+        .create(
+          {
+            model,
+            messages: [
+              { role: "system", content: request.system },
+              { role: "user", content: request.user },
+            ],
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+          },
+          { signal: request.signal }
+        )
+        .catch((err) => {
+          throw toRequestError(err);
+        });
+      return {
+        text: completion.choices[0]?.message?.content?.trim() || "",
+        usage: completion.usage && {
+          promptTokens: completion.usage.prompt_tokens,
+          completionTokens: completion.usage.completion_tokens,
+        },
+      };
+    },
+
+    async *streamStructured(
+      request: StructuredRequest
+    ): AsyncIterable<StructuredStreamChunk> {
+      const completionStream = await client.chat.completions
+        .create(
+          {
+            model,
+            messages: [
+              { role: "system", content: request.system },
+              { role: "user", content: request.user },
+            ],
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            stream: true,
+            // Not every OpenAI-compatible server accepts stream_options
+            ...(id === "openai-compatible"
+              ? {}
+              : { stream_options: { include_usage: true } }),
+            tools: [
+              {
+                type: "function",
+                function: {
+                  name: request.tool.name,
+                  description: request.tool.description,
+                  parameters: { ...request.tool.parameters },
+                },
+              },
+            ],
+            tool_choice: {
+              type: "function",
+              function: { name: request.tool.name },
+            },
+          },
+          { signal: request.signal }
+        )
+        .catch((err) => {
+          throw toRequestError(err);
+        });
+
+      for await (const chunk of completionStream) {
+        const toolCalls = chunk.choices?.[0]?.delta?.tool_calls;
+        if (toolCalls && toolCalls.length > 0) {
+          const argsPiece = toolCalls[0]?.function?.arguments || "";
+          if (argsPiece) yield { type: "arguments", text: argsPiece };
+        }
+        if (chunk.usage) {
+          yield {
+            type: "usage",
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+          };
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { JsonSchemaObject } from "@/lib/llm/types";
+
+/**
+ * Checks parsed tool-call arguments against the tool's parameter schema.
+ * Covers what our tools use: an object with typed, required properties.
+ * Returns one message per problem, empty when valid.
+ */
+export function validateToolArguments(
+  value: unknown,
+  schema: JsonSchemaObject
+): string[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return ["Expected the arguments to be a JSON object."];
+  }
+  const args = value as Record<string, unknown>;
+  const problems: string[] = [];
+  schema.required.forEach((key) => {
+    if (args[key] === undefined) problems.push(`Missing "${key}".`);
+  });
+  Object.entries(schema.properties).forEach(([key, property]) => {
+    const v = args[key];
+    if (v === undefined) return;
+    const type = Array.isArray(v) ? "array" : v === null ? "null" : typeof v;
+    if (type !== property.type) {
+      problems.push(`"${key}" should be a ${property.type}, got ${type}.`);
+    } else if (type === "string" && !(v as string).trim()) {
+      problems.push(`"${key}" is empty.`);
+    }
+  });
+  return problems;
+}
@@ -0,0 +1,97 @@
+export type ProviderId =
+  | "openai"
+  | "openai-compatible"
+  | "azure"
+  | "anthropic"
+  | "mock";
+
+export const PROVIDER_IDS: ProviderId[] = [
+  "openai",
+  "openai-compatible",
+  "azure",
+  "anthropic",
+  "mock",
+];
+
+// What a request or workspace may choose; credentials and endpoints stay
+// in server-side environment variables.
+export interface ProviderSelection {
+  provider: ProviderId;
+  model?: string;
+}
+
+export interface JsonSchemaObject {
+  type: "object";
+  properties: Record<string, { type: string; description?: string }>;
+  required: string[];
+}
+
+export interface StructuredTool {
+  name: string;
+  description: string;
+  parameters: JsonSchemaObject;
+}
+
+export interface CompletionRequest {
+  system: string;
+  user: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Cancels the upstream request, e.g. when the browser went away
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionResult {
+  text: string;
+  // Unset when the provider did not report it
+  usage?: TokenUsage;
+}
+
+export interface StructuredRequest extends CompletionRequest {
+  tool: StructuredTool;
+}
+
+export type StructuredStreamChunk =
+  | {
+      type: "arguments";
+      // Next fragment of the tool call's JSON arguments
+      text: string;
+    }
+  | ({ type: "usage" } & TokenUsage);
+
+export interface LLMProvider {
+  id: ProviderId;
+  model: string;
+  // Plain text completion, used for intermediate steps such as chunk summaries
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Forces a single call of `request.tool` and streams its JSON arguments
+  streamStructured(
+    request: StructuredRequest
+  ): AsyncIterable<StructuredStreamChunk>;
+}
+
+// Thrown when the selected provider is unknown or missing credentials
+export class LLMConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LLMConfigError";
+  }
+}
+
+// Error response from the provider's API; keeps what the client needs to
+// back off on rate limits and outages
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfter?: string
+  ) {
+    super(message);
+    this.name = "LLMRequestError";
+  }
+}
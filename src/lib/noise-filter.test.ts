@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  filterDiffNoise,
+  globError,
+  globToRegExp,
+  normalizeNoiseFilter,
+} from "@/lib/noise-filter";
+
+describe("globToRegExp", () => {
+  const matches = (glob: string, paths: string[]) =>
+    paths.filter((p) => globToRegExp(glob).test(p));
+
+  it("matches '**/' across zero or more directories", () => {
+    expect(
+      matches("src/**/gen/*.ts", [
+        "src/gen/a.ts",
+        "src/api/v1/gen/b.ts",
+        "src/gen/sub/c.ts",
+        "lib/src/gen/d.ts",
+      ])
+    ).toEqual(["src/gen/a.ts", "src/api/v1/gen/b.ts"]);
+  });
+
+  it("matches a trailing '/' as a directory at any depth", () => {
+    expect(
+      matches("dist/", ["dist/a.js", "packages/cli/dist/b.js", "distance.ts"])
+    ).toEqual(["dist/a.js", "packages/cli/dist/b.js"]);
+  });
+
+  it("matches names without '/' at any depth and anchors paths", () => {
+    expect(matches("*.min.js", ["a.min.js", "web/b.min.js", "c.js"])).toEqual([
+      "a.min.js",
+      "web/b.min.js",
+    ]);
+    expect(matches("/docs/*.md", ["docs/a.md", "x/docs/a.md"])).toEqual([
+      "docs/a.md",
+    ]);
+    expect(matches("*.ts", ["src/a.ts"])).toEqual(["src/a.ts"]);
+    expect(matches("src/*.ts", ["src/a.ts", "src/sub/b.ts"])).toEqual([
+      "src/a.ts",
+    ]);
+  });
+
+  it("matches any alternative of '{a,b}'", () => {
+    expect(
+      matches("*.{png,jpg}", ["a.png", "b.jpg", "c.gif", "d.png.ts"])
+    ).toEqual(["a.png", "b.jpg"]);
+    expect(matches("{a.b}", ["a.b", "axb"])).toEqual(["a.b"]);
+  });
+
+  it("expands wildcards inside braces", () => {
+    const regex = globToRegExp("{*.lock,x}");
+    expect(regex.test("deps/yarn.lock")).toBe(true);
+    expect(regex.test("x")).toBe(true);
+    expect(regex.test("lock")).toBe(false);
+    expect(globToRegExp("src/{**}").test("src/a/b.ts")).toBe(true);
+    expect(globToRegExp("{a?,b}.ts").test("ab.ts")).toBe(true);
+  });
+});
+
+describe("normalizeNoiseFilter", () => {
+  it("keeps brace globs with wildcards and drops non-strings", () => {
+    const config = normalizeNoiseFilter({
+      exclude: ["{*.lock,x}", 3],
+    });
+    expect(config.exclude).toEqual(["{*.lock,x}"]);
+    expect(globError("{*.lock,x}")).toBeNull();
+
+    const diff = [
+      "diff --git a/yarn.lock b/yarn.lock",
+      "--- a/yarn.lock",
+      "+++ b/yarn.lock",
+      "@@ -1 +1 @@",
+      "-a",
+      "+b",
+      "",
+    ].join("\n");
+    expect(filterDiffNoise(diff, config).excluded).toHaveLength(1);
+  });
+});
@@ -0,0 +1,213 @@
+import { DiffFile, formatDiffFile, parseUnifiedDiff } from "@/lib/diff-parser";
+
+export interface NoiseFilterConfig {
+  // Apply DEFAULT_NOISE_RULES in addition to `exclude`
+  useDefaults: boolean;
+  exclude: string[];
+  // Files matching these are always kept, even if an exclude rule matches
+  include: string[];
+}
+
+export interface NoiseRule {
+  pattern: string;
+  reason: string;
+}
+
+export interface ExcludedFile {
+  path: string;
+  reason: string;
+  additions: number;
+  deletions: number;
+}
+
+export const DEFAULT_NOISE_FILTER: NoiseFilterConfig = {
+  useDefaults: true,
+  exclude: [],
+  include: [],
+};
+
+export const DEFAULT_NOISE_RULES: NoiseRule[] = [
+  ...[
+    "package-lock.json",
+    "npm-shrinkwrap.json",
+    "yarn.lock",
+    "pnpm-lock.yaml",
+    "bun.lock",
+    "bun.lockb",
+    "Cargo.lock",
+    "Gemfile.lock",
+    "composer.lock",
+    "poetry.lock",
+    "Pipfile.lock",
+    "go.sum",
+  ].map((pattern) => ({ pattern, reason: "lockfile updated" })),
+  ...["dist/", "build/", "out/", ".next/"].map((pattern) => ({
+    pattern,
+    reason: "build output updated",
+  })),
+  { pattern: "*.min.js", reason: "minified bundle updated" },
+  { pattern: "*.min.css", reason: "minified bundle updated" },
+  { pattern: "*.map", reason: "source map updated" },
+  { pattern: "__snapshots__/", reason: "test snapshots updated" },
+  { pattern: "*.snap", reason: "test snapshots updated" },
+  { pattern: "vendor/", reason: "vendored code updated" },
+  { pattern: "third_party/", reason: "vendored code updated" },
+  { pattern: "node_modules/", reason: "vendored code updated" },
+  { pattern: "*.generated.*", reason: "generated file updated" },
+  { pattern: "*.pb.go", reason: "generated file updated" },
+  { pattern: "*_pb2.py", reason: "generated file updated" },
+];
+
+const CUSTOM_RULE_REASON = "excluded by filter rule";
+const BINARY_REASON = "binary file updated";
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^$()|[\]{}\\]/g, "\\$&");
+}
+
+function globBody(glob: string): string {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories, a trailing "**" anything
+        if (glob[i + 2] === "/") {
+          out += "(?:.*/)?";
+          i += 2;
+        } else {
+          out += ".*";
+          i++;
+        }
+      } else {
+        out += "[^/]*";
+      }
+    } else if (c === "?") {
+      out += "[^/]";
+    } else if (c === "{") {
+      const end = glob.indexOf("}", i);
+      if (end === -1) {
+        out += "\\{";
+      } else {
+        out += `(?:${glob
+          .slice(i + 1, end)
+          .split(",")
+          .map(globBody)
+          .join("|")})`;
+        i = end;
+      }
+    } else {
+      out += escapeRegExp(c);
+    }
+  }
+  return out;
+}
+
+/**
+ * Converts a gitignore-style glob to a RegExp over repository paths:
+ * "dir/" matches a directory at any depth, a pattern without "/" matches the
+ * file name at any depth, anything else is anchored at the repository root.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.trim();
+  if (pattern.endsWith("/")) {
+    return new RegExp(`(?:^|/)${globBody(pattern.slice(0, -1))}/`);
+  }
+  if (!pattern.includes("/")) {
+    return new RegExp(`(?:^|/)${globBody(pattern)}$`);
+  }
+  return new RegExp(`^${globBody(pattern.replace(/^\//, ""))}$`);
+}
+
+/** Null when `glob` converts to a valid RegExp, else the reason. */
+export function globError(glob: string): string | null {
+  try {
+    globToRegExp(glob);
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+}
+
+export function resolveNoiseRules(config: NoiseFilterConfig): NoiseRule[] {
+  return [
+    ...(config.useDefaults ? DEFAULT_NOISE_RULES : []),
+    ...config.exclude
+      .filter((p) => p.trim())
+      .map((pattern) => ({ pattern, reason: CUSTOM_RULE_REASON })),
+  ];
+}
+
+function matchNoise(
+  file: DiffFile,
+  rules: { regex: RegExp; reason: string }[],
+  include: RegExp[]
+): string | null {
+  const paths = [file.oldPath, file.newPath].filter(
+    (p): p is string => p !== null
+  );
+  if (paths.some((p) => include.some((r) => r.test(p)))) return null;
+  const rule = rules.find((r) => paths.some((p) => r.regex.test(p)));
+  if (rule) return rule.reason;
+  if (file.binary) return BINARY_REASON;
+  return null;
+}
+
+/**
+ * Removes noise files (lockfiles, build output, binaries, ...) from a diff.
+ * Returns the remaining diff text and the files that were dropped.
+ */
+export function filterDiffNoise(
+  diff: string,
+  config: NoiseFilterConfig
+): { diff: string; excluded: ExcludedFile[] } {
+  const rules = resolveNoiseRules(config).map((r) => ({
+    regex: globToRegExp(r.pattern),
+    reason: r.reason,
+  }));
+  const include = config.include
+    .filter((p) => p.trim())
+    .map((p) => globToRegExp(p));
+
+  const kept: string[] = [];
+  const excluded: ExcludedFile[] = [];
+  parseUnifiedDiff(diff).forEach((file) => {
+    const reason = matchNoise(file, rules, include);
+    if (reason) {
+      excluded.push({
+        path: file.path,
+        reason,
+        additions: file.additions,
+        deletions: file.deletions,
+      });
+    } else {
+      kept.push(formatDiffFile(file));
+    }
+  });
+
+  if (!excluded.length) return { diff, excluded };
+  return { diff: kept.join("\n"), excluded };
+}
+
+// One line per dropped file, e.g. "- pnpm-lock.yaml: lockfile updated"
+export function formatExcludedFiles(excluded: ExcludedFile[]): string {
+  return excluded.map((f) => `- ${f.path}: ${f.reason}`).join("\n");
+}
+
+// Accepts untrusted JSON (request bodies, stored rows) and fills in defaults
+export function normalizeNoiseFilter(value: unknown): NoiseFilterConfig {
+  if (!value || typeof value !== "object") return DEFAULT_NOISE_FILTER;
+  const v = value as Partial<NoiseFilterConfig>;
+  // Globs that don't compile are dropped rather than failing every request
+  const globs = (list: unknown) =>
+    Array.isArray(list)
+      ? list.filter(
+          (p): p is string => typeof p === "string" && !globError(p)
+        )
+      : [];
+  return {
+    useDefaults: v.useDefaults !== false,
+    exclude: globs(v.exclude),
+    include: globs(v.include),
+  };
+}
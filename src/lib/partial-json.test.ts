@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+
+import { createPartialJsonParser } from "@/lib/partial-json";
+
+function parse(...chunks: string[]) {
+  const parser = createPartialJsonParser();
+  const events = chunks.flatMap((chunk) => parser.write(chunk));
+  return { events, result: parser.end() };
+}
+
+describe("createPartialJsonParser", () => {
+  it("streams top-level string fields as decoded deltas", () => {
+    const { events, result } = parse('{"a":"x\\', '"y","b":[1,', '{"c":"z"}]}');
+    expect(events).toEqual([
+      { type: "string-delta", key: "a", text: "x" },
+      { type: "string-delta", key: "a", text: '"y' },
+      { type: "string-complete", key: "a", value: 'x"y' },
+    ]);
+    expect(result).toEqual({
+      complete: true,
+      value: { a: 'x"y', b: [1, { c: "z" }] },
+    });
+  });
+
+  it("accepts empty objects and arrays", () => {
+    expect(parse('{"a":{},"b":[]}').result).toEqual({
+      complete: true,
+      value: { a: {}, b: [] },
+    });
+  });
+
+  it.each(['{"a":"x",}', '{"a":[1,]}', "[1,]", '{"a":{"b":1,}}'])(
+    "reports the trailing comma in %s instead of throwing",
+    (input) => {
+      const { result } = parse(input);
+      expect(result.complete).toBe(false);
+      expect(result.error).toMatch(/position/);
+    }
+  );
+
+  it("reports input that ended early", () => {
+    expect(parse('{"a":"x"').result).toEqual({
+      complete: false,
+      error: "The JSON ended before it was complete",
+    });
+  });
+});
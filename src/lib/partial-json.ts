@@ -0,0 +1,272 @@
+export type PartialJsonEvent =
+  // Unescaped text appended to a top-level string field
+  | { type: "string-delta"; key: string; text: string }
+  // The top-level string field's closing quote was read
+  | { type: "string-complete"; key: string; value: string };
+
+export interface PartialJsonResult {
+  // The input was one complete JSON value
+  complete: boolean;
+  value?: unknown;
+  error?: string;
+}
+
+export interface PartialJsonParser {
+  write(chunk: string): PartialJsonEvent[];
+  end(): PartialJsonResult;
+}
+
+type Mode =
+  | "value"
+  | "key"
+  | "colon"
+  | "after-value"
+  | "string"
+  | "literal"
+  | "end";
+
+const WHITESPACE = new Set([" ", "\t", "\n", "\r"]);
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Streaming JSON parser for tool-call arguments that arrive in arbitrary
+ * fragments. String values of the top-level object are reported as decoded
+ * deltas while they stream, so `{"a":"x\"y` already yields `x"y` for "a".
+ * Any JSON is accepted; nested values are validated but not reported.
+ */
+export function createPartialJsonParser(): PartialJsonParser {
+  const stack: ("object" | "array")[] = [];
+  let mode: Mode = "value";
+  let raw = "";
+  let error: string | null = null;
+
+  // String state
+  let stringRole: "key" | "value" = "value";
+  let stringValue = "";
+  let escape: "" | "\\" | "u" = "";
+  let hex = "";
+  // Key of the top-level field being read, "" outside the top-level object
+  let topKey = "";
+  let streamingKey: string | null = null;
+  let pendingDelta = "";
+  let literal = "";
+  // A "," was just read, so the object or array can't close yet
+  let afterComma = false;
+
+  const fail = (message: string) => {
+    error = `${message} at position ${raw.length}`;
+  };
+
+  const valueDone = () => {
+    mode = stack.length ? "after-value" : "end";
+  };
+
+  const appendChar = (c: string) => {
+    stringValue += c;
+    if (streamingKey !== null) pendingDelta += c;
+  };
+
+  const finishLiteral = (): boolean => {
+    try {
+      JSON.parse(literal);
+    } catch {
+      fail(`Invalid literal "${literal}"`);
+      return false;
+    }
+    literal = "";
+    valueDone();
+    return true;
+  };
+
+  const flushDelta = (events: PartialJsonEvent[]) => {
+    if (streamingKey !== null && pendingDelta) {
+      events.push({
+        type: "string-delta",
+        key: streamingKey,
+        text: pendingDelta,
+      });
+    }
+    pendingDelta = "";
+  };
+
+  const step = (c: string, events: PartialJsonEvent[]) => {
+    switch (mode) {
+      case "string": {
+        if (escape === "\\") {
+          if (c === "u") {
+            escape = "u";
+            hex = "";
+          } else if (SIMPLE_ESCAPES[c] !== undefined) {
+            escape = "";
+            appendChar(SIMPLE_ESCAPES[c]);
+          } else {
+            fail(`Invalid escape "\\${c}"`);
+          }
+          return;
+        }
+        if (escape === "u") {
+          if (!/[0-9a-fA-F]/.test(c)) {
+            fail("Invalid unicode escape");
+            return;
+          }
+          hex += c;
+          if (hex.length === 4) {
+            escape = "";
+            appendChar(String.fromCharCode(parseInt(hex, 16)));
+          }
+          return;
+        }
+        if (c === "\\") {
+          escape = "\\";
+          return;
+        }
+        if (c === '"') {
+          if (stringRole === "key") {
+            if (stack.length === 1) topKey = stringValue;
+            mode = "colon";
+          } else {
+            if (streamingKey !== null) {
+              flushDelta(events);
+              events.push({
+                type: "string-complete",
+                key: streamingKey,
+                value: stringValue,
+              });
+              streamingKey = null;
+            }
+            valueDone();
+          }
+          return;
+        }
+        if (c < " ") {
+          fail("Unescaped control character in string");
+          return;
+        }
+        appendChar(c);
+        return;
+      }
+
+      case "literal":
+        if (/[0-9a-zA-Z.+-]/.test(c)) {
+          literal += c;
+          return;
+        }
+        if (!finishLiteral()) return;
+        step(c, events);
+        return;
+
+      case "colon":
+        if (WHITESPACE.has(c)) return;
+        if (c === ":") mode = "value";
+        else fail(`Expected ":" but found "${c}"`);
+        return;
+
+      case "key":
+        if (WHITESPACE.has(c)) return;
+        if (c === '"') {
+          mode = "string";
+          stringRole = "key";
+          stringValue = "";
+        } else if (c === "}" && !afterComma) {
+          stack.pop();
+          valueDone();
+        } else {
+          fail(`Expected a key but found "${c}"`);
+        }
+        afterComma = false;
+        return;
+
+      case "value":
+        if (WHITESPACE.has(c)) return;
+        if (c === '"') {
+          mode = "string";
+          stringRole = "value";
+          stringValue = "";
+          streamingKey =
+            stack.length === 1 && stack[0] === "object" ? topKey : null;
+        } else if (c === "{") {
+          stack.push("object");
+          mode = "key";
+        } else if (c === "[") {
+          stack.push("array");
+        } else if (
+          c === "]" &&
+          stack[stack.length - 1] === "array" &&
+          !afterComma
+        ) {
+          stack.pop();
+          valueDone();
+        } else if (/[-0-9tfn]/.test(c)) {
+          mode = "literal";
+          literal = c;
+        } else {
+          fail(`Unexpected "${c}"`);
+        }
+        afterComma = false;
+        return;
+
+      case "after-value": {
+        if (WHITESPACE.has(c)) return;
+        const top = stack[stack.length - 1];
+        if (c === ",") {
+          mode = top === "object" ? "key" : "value";
+          afterComma = true;
+        } else if (
+          (c === "}" && top === "object") ||
+          (c === "]" && top === "array")
+        ) {
+          stack.pop();
+          valueDone();
+        } else {
+          fail(`Unexpected "${c}"`);
+        }
+        return;
+      }
+
+      case "end":
+        if (!WHITESPACE.has(c)) fail(`Unexpected "${c}" after the JSON value`);
+        return;
+    }
+  };
+
+  return {
+    write(chunk: string): PartialJsonEvent[] {
+      const events: PartialJsonEvent[] = [];
+      for (const c of chunk) {
+        if (error) break;
+        step(c, events);
+        raw += c;
+      }
+      flushDelta(events);
+      return events;
+    },
+
+    end(): PartialJsonResult {
+      // A top-level number has no terminator
+      if (!error && mode === "literal" && stack.length === 0) finishLiteral();
+      if (error) return { complete: false, error };
+      if (mode !== "end") {
+        return {
+          complete: false,
+          error: "The JSON ended before it was complete",
+        };
+      }
+      // The checks above should leave only valid JSON; anything they missed
+      // is still reported rather than thrown
+      try {
+        return { complete: true, value: JSON.parse(raw) };
+      } catch (err) {
+        return { complete: false, error: (err as Error).message };
+      }
+    },
+  };
+}
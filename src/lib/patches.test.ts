@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+
+import { combinePatches, parsePatches, patchNumber } from "@/lib/patches";
+
+const DIFF_A = [
+  "diff --git a/a.ts b/a.ts",
+  "index 9d70386..56745a2 100644",
+  "--- a/a.ts",
+  "+++ b/a.ts",
+  "@@ -1 +1 @@",
+  "-export function a(x) {}",
+  "+export function a(x, y) {}",
+  "",
+].join("\n");
+
+const DIFF_B = [
+  "diff --git a/README.md b/README.md",
+  "--- a/README.md",
+  "+++ b/README.md",
+  "@@ -1 +1 @@",
+  "-hello",
+  "+hello world",
+  "",
+].join("\n");
+
+// What `git format-patch --cover-letter --stdout` writes for two commits
+function series(): string {
+  const mail = (n: number, subject: string, date: string, body: string) =>
+    [
+      "From 9866a939e97836dc33923fe05a4f1214d8993425 Mon Sep 17 00:00:00 2001",
+      "From: =?UTF-8?q?Ren=C3=A9_Ann?= <ann@example.com>",
+      `Date: ${date}`,
+      `Subject: [PATCH ${n}/2] ${subject}`,
+      "",
+      body,
+    ].join("\n");
+  return [
+    mail(
+      0,
+      "Stream timeouts",
+      "Mon, 19 Oct 2026 10:00:00 +0000",
+      [
+        "Adds a timeout to streams.",
+        "",
+        "René Ann (2):",
+        "  Add y to a",
+        "  Update the README",
+        "",
+        " 2 files changed, 2 insertions(+), 2 deletions(-)",
+        "",
+        "-- ",
+        "2.47.0",
+        "",
+      ].join("\n")
+    ),
+    mail(
+      1,
+      "Add y to a",
+      "Mon, 19 Oct 2026 11:00:00 +0000",
+      `Callers pass y now.\n---\n a.ts | 2 +-\n\n${DIFF_A}-- \n2.47.0\n`
+    ),
+    mail(
+      2,
+      "Update the README",
+      "Mon, 19 Oct 2026 12:00:00 +0000",
+      `---\n README.md | 2 +-\n\n${DIFF_B}-- \n2.47.0\n`
+    ),
+  ].join("\n");
+}
+
+describe("parsePatches", () => {
+  it("splits an mbox series into its cover letter and patches", () => {
+    const patches = parsePatches(series());
+
+    expect(patches.map((p) => [p.series, p.title])).toEqual([
+      [{ index: 0, total: 2 }, "Stream timeouts"],
+      [{ index: 1, total: 2 }, "Add y to a"],
+      [{ index: 2, total: 2 }, "Update the README"],
+    ]);
+    // The shortlog and diffstat of the cover letter are left out
+    expect(patches[0]).toMatchObject({
+      body: "Adds a timeout to streams.",
+      diff: "",
+      author: "René Ann",
+    });
+    expect(patches[1]).toMatchObject({
+      body: "Callers pass y now.",
+      diff: DIFF_A,
+      date: "2026-10-19T11:00:00.000Z",
+    });
+    expect(patches[2]).toMatchObject({ body: "", diff: DIFF_B });
+  });
+
+  it("combines a series into one entry", () => {
+    expect(combinePatches(parsePatches(series()))).toEqual({
+      title: "Stream timeouts",
+      author: "René Ann",
+      date: "2026-10-19T12:00:00.000Z",
+      body: [
+        "Adds a timeout to streams.",
+        "",
+        "- Add y to a",
+        "- Update the README",
+      ].join("\n"),
+      diff: `${DIFF_A}${DIFF_B}`,
+    });
+  });
+
+  it("reads a single format-patch file without an mbox separator", () => {
+    const [patch] = parsePatches(
+      [
+        "From: Bo <bo@example.com>",
+        "Subject: [PATCH] docs: fix the",
+        " README example",
+        "",
+        `---\n${DIFF_B}`,
+      ].join("\n")
+    );
+    expect(patch).toMatchObject({
+      title: "docs: fix the README example",
+      author: "Bo",
+      series: undefined,
+      diff: DIFF_B,
+    });
+  });
+
+  it("splits git log -p output by commit", () => {
+    const log = [
+      "commit 9866a939e97836dc33923fe05a4f1214d8993425",
+      "Author: Ann <ann@example.com>",
+      "Date:   Mon Oct 19 11:07:43 2026 +0000",
+      "",
+      "    Add y to a",
+      "",
+      "    Fixes #3",
+      "",
+      DIFF_A,
+      "commit 33a3739c4d1e8f2a6b5c7d9e0f1a2b3c4d5e6f70",
+      "Author: Bo <bo@example.com>",
+      "Date:   Mon Oct 19 11:09:02 2026 +0000",
+      "",
+      "    docs: readme",
+      "",
+      DIFF_B,
+    ].join("\n");
+    expect(parsePatches(log)).toMatchObject([
+      { title: "Add y to a", body: "Fixes #3", author: "Ann" },
+      { title: "docs: readme", body: "", author: "Bo" },
+    ]);
+  });
+
+  it("names plain diffs by their file or what they touch", () => {
+    expect(parsePatches(DIFF_A)[0].title).toBe("Changes to a.ts");
+    expect(parsePatches(`${DIFF_A}${DIFF_B}`)[0].title).toBe(
+      "Changes to 2 files"
+    );
+    expect(parsePatches(DIFF_A, "timeouts.patch")[0].title).toBe("timeouts");
+    expect(parsePatches("no diff here")).toEqual([]);
+  });
+});
+
+describe("patchNumber", () => {
+  it("is stable and above PR numbers", () => {
+    const [patch] = parsePatches(DIFF_A);
+    expect(patchNumber(patch)).toBe(patchNumber({ ...patch }));
+    expect(patchNumber(patch)).toBeGreaterThan(2 ** 32);
+    expect(Number.isSafeInteger(patchNumber(patch))).toBe(true);
+  });
+});
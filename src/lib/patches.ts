@@ -0,0 +1,250 @@
+import { parseUnifiedDiff } from "@/lib/diff-parser";
+
+// One change read from pasted text or a dropped file
+export interface ParsedPatch {
+  title: string;
+  author: string | null;
+  // ISO date from the patch headers
+  date: string | null;
+  body: string;
+  diff: string;
+  // "[PATCH 2/5]" of a series; cover letters are number 0
+  series?: { index: number; total: number };
+}
+
+// mbox separators: "From <sha> Mon Sep 17 00:00:00 2001" from format-patch,
+// "From user@host <date>" from mail clients
+const MBOX_SEPARATOR =
+  /^From \S+ +\w{3} \w{3} [ \d]?\d \d\d:\d\d:\d\d \d{4}$/m;
+// Output of `git log -p` or `git show`
+const COMMIT_SEPARATOR = /^commit [0-9a-f]{40}\b.*$/m;
+const ENCODED_WORD = /=\?([^?]+)\?([bq])\?([^?]*)\?=/gi;
+const HEADER_START = /^(?:From|Subject|Date|To|Message-I[Dd]):/;
+// Diffs start with a git header or, for plain unified diffs, a file header
+const DIFF_START = /^(?:diff --git |Index: |--- \S.*\n\+\+\+ )/m;
+const SERIES_TAG = /\[[^\]]*?\b(\d+)\/(\d+)\]/;
+// Left in a cover letter nobody filled in
+const PLACEHOLDER = /^\*\*\* (?:SUBJECT|BLURB) HERE \*\*\*$/;
+// Cover letters end in a shortlog ("Ann Smith (2):"), a diffstat and the
+// git version
+const COVER_LETTER_TAIL = /^\S.* \(\d+\):$[\s\S]*/m;
+
+// RFC 2047 encoded words, e.g. "=?UTF-8?q?Ren=C3=A9?="
+function decodeHeader(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, "?==?")
+    .replace(ENCODED_WORD, (match, charset, kind, text) => {
+      try {
+        const binary =
+          kind.toLowerCase() === "b"
+            ? atob(text)
+            : text
+                .replace(/_/g, " ")
+                .replace(/=([0-9a-f]{2})/gi, (_: string, hex: string) =>
+                  String.fromCharCode(parseInt(hex, 16))
+                );
+        const bytes = Uint8Array.from(binary, (c: string) => c.charCodeAt(0));
+        return new TextDecoder(charset).decode(bytes);
+      } catch {
+        return match;
+      }
+    });
+}
+
+// Headers up to the first blank line; continuation lines are unfolded
+function parseHeaders(text: string): {
+  headers: Record<string, string>;
+  rest: string;
+} {
+  const end = text.search(/\n\s*\n/);
+  const block = end === -1 ? text : text.slice(0, end);
+  const headers: Record<string, string> = {};
+  let last = "";
+  block.split("\n").forEach((line) => {
+    if (/^\s/.test(line) && last) {
+      headers[last] += ` ${line.trim()}`;
+      return;
+    }
+    const colon = line.indexOf(":");
+    if (colon === -1) return;
+    last = line.slice(0, colon).trim().toLowerCase();
+    headers[last] = line.slice(colon + 1).trim();
+  });
+  Object.keys(headers).forEach((name) => {
+    headers[name] = decodeHeader(headers[name]);
+  });
+  return {
+    headers,
+    rest: end === -1 ? "" : text.slice(end).replace(/^\s*\n/, ""),
+  };
+}
+
+// "Ann Smith <ann@example.com>" -> "Ann Smith"; a bare address stays
+function authorName(value: string | undefined): string | null {
+  if (!value) return null;
+  const name = value.replace(/<[^>]*>/, "").replace(/^"|"$/g, "").trim();
+  return name || value.replace(/[<>]/g, "").trim() || null;
+}
+
+function isoDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : new Date(time).toISOString();
+}
+
+// The message ends at format-patch's "---" line or where the diff starts
+function splitMessage(text: string): { message: string; diff: string } {
+  const start = text.search(DIFF_START);
+  const before = start === -1 ? text : text.slice(0, start);
+  const diff = start === -1 ? "" : text.slice(start);
+  const separator = before.search(/^---\s*$/m);
+  return {
+    message: (separator === -1 ? before : before.slice(0, separator)).trim(),
+    // format-patch appends "-- " and the git version
+    diff: diff.replace(/\n-- \n[^\n]*\n*$/, "\n"),
+  };
+}
+
+function fromEmail(text: string): ParsedPatch | null {
+  const { headers, rest } = parseHeaders(text);
+  const subject = headers.subject ?? "";
+  const tag = subject.match(SERIES_TAG);
+  const { message, diff } = splitMessage(rest);
+  if (!diff && !tag) return null;
+  let title = subject.replace(/^(?:\s*\[[^\]]*\])+\s*/, "").trim();
+  let body = diff ? message : message.replace(COVER_LETTER_TAIL, "").trim();
+  if (PLACEHOLDER.test(title)) title = "";
+  if (PLACEHOLDER.test(body)) body = "";
+  // A cover letter nobody filled in adds nothing
+  if (!diff && !title && !body) return null;
+  return {
+    title,
+    author: authorName(headers.from),
+    date: isoDate(headers.date),
+    body,
+    diff,
+    series: tag
+      ? { index: parseInt(tag[1], 10), total: parseInt(tag[2], 10) }
+      : undefined,
+  };
+}
+
+function fromCommit(text: string): ParsedPatch | null {
+  const lines = text.split("\n");
+  const header: Record<string, string> = {};
+  let i = 1;
+  for (; i < lines.length && lines[i].trim(); i++) {
+    const match = lines[i].match(/^(\w+):\s*(.*)$/);
+    if (match) header[match[1].toLowerCase()] = match[2];
+  }
+  const { message, diff } = splitMessage(lines.slice(i + 1).join("\n"));
+  if (!diff) return null;
+  // The message is indented by four spaces
+  const [title, ...body] = message
+    .split("\n")
+    .map((line) => line.replace(/^ {4}/, ""));
+  return {
+    title: title.trim(),
+    author: authorName(header.author),
+    date: isoDate(header.date),
+    body: body.join("\n").trim(),
+    diff,
+  };
+}
+
+function fromPlainDiff(text: string): ParsedPatch | null {
+  const { message, diff } = splitMessage(text);
+  if (!diff) return null;
+  const [title = "", ...body] = message.split("\n");
+  return {
+    title: title.trim(),
+    author: null,
+    date: null,
+    body: body.join("\n").trim(),
+    diff,
+  };
+}
+
+function splitOn(text: string, separator: RegExp): string[] {
+  const global = new RegExp(separator.source, "gm");
+  const starts = Array.from(text.matchAll(global), (m) => m.index ?? 0);
+  return starts.map((start, i) => text.slice(start, starts[i + 1]));
+}
+
+// Files without a title are named by what they touch
+function fallbackTitle(diff: string, fileName?: string): string {
+  if (fileName) return fileName.replace(/\.(diff|patch|mbox|eml|txt)$/i, "");
+  const paths = parseUnifiedDiff(diff).map((f) => f.path);
+  if (paths.length === 1) return `Changes to ${paths[0]}`;
+  return `Changes to ${paths.length} files`;
+}
+
+/**
+ * Reads a unified diff, a `git format-patch` file or series, an mbox of
+ * patch mails, or `git log -p` output. Subjects, authors and dates come from
+ * the headers; patches without any get a title from `fileName` or their
+ * files. Cover letters of a series are kept, with an empty diff.
+ */
+export function parsePatches(text: string, fileName?: string): ParsedPatch[] {
+  const normalized = text.replace(/\r\n?/g, "\n");
+  let patches: (ParsedPatch | null)[];
+  if (MBOX_SEPARATOR.test(normalized)) {
+    patches = splitOn(normalized, MBOX_SEPARATOR).map((message) =>
+      fromEmail(message.slice(message.indexOf("\n") + 1))
+    );
+  } else if (HEADER_START.test(normalized)) {
+    patches = [fromEmail(normalized)];
+  } else if (COMMIT_SEPARATOR.test(normalized)) {
+    patches = splitOn(normalized, COMMIT_SEPARATOR).map(fromCommit);
+  } else {
+    patches = [fromPlainDiff(normalized)];
+  }
+  return patches
+    .filter((p): p is ParsedPatch => p !== null)
+    .map((p) => ({
+      ...p,
+      title: p.title || fallbackTitle(p.diff, fileName),
+    }));
+}
+
+/**
+ * One entry for a whole series: titled by its cover letter when there is
+ * one, else by the first patch, with the patch subjects in the description.
+ */
+export function combinePatches(patches: ParsedPatch[]): ParsedPatch {
+  const cover = patches.find((p) => p.series?.index === 0);
+  const changes = patches.filter((p) => p.diff);
+  const first = changes[0] ?? patches[0];
+  const subjects = changes.map((p) => `- ${p.title}`).join("\n");
+  return {
+    title: (cover ?? first).title,
+    author: (cover ?? first).author,
+    date: changes.reduce<string | null>(
+      (latest, p) => (p.date && (!latest || p.date > latest) ? p.date : latest),
+      null
+    ),
+    body: [cover?.body, changes.length > 1 ? subjects : first.body]
+      .filter(Boolean)
+      .join("\n\n"),
+    diff: changes.map((p) => p.diff.replace(/\n*$/, "\n")).join(""),
+  };
+}
+
+// FNV-1a with a seed
+function fnv(text: string, seed: number): number {
+  let h = seed;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Stable number for a pasted patch, so adding it again replaces the entry.
+ * 52 bits: far above PR numbers and within Number's integer range.
+ */
+export function patchNumber(patch: ParsedPatch): number {
+  const text = `${patch.title}\n${patch.diff}`;
+  return (fnv(text, 0x811c9dc5) % 2 ** 20) * 2 ** 32 + fnv(text, 0x01000193);
+}
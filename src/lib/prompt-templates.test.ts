@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  PROMPT_VARIABLES,
+  PromptVariable,
+  renderTemplate,
+  unknownVariables,
+} from "@/lib/prompt-templates";
+
+const variables = Object.fromEntries(
+  Object.keys(PROMPT_VARIABLES).map((name) => [name, `<${name}>`])
+) as Record<PromptVariable, string>;
+
+describe("renderTemplate", () => {
+  it("fills known placeholders and leaves others as they are", () => {
+    expect(renderTemplate("{{ title }} in {{repo}}: {{nope}}", variables)).toBe(
+      "<title> in <repo>: {{nope}}"
+    );
+  });
+
+  it("does not treat prototype keys as variables", () => {
+    const template = "{{constructor}} {{toString}} {{__proto__}}";
+    expect(renderTemplate(template, variables)).toBe(template);
+    expect(unknownVariables(template)).toEqual([
+      "constructor",
+      "toString",
+      "__proto__",
+    ]);
+  });
+});
@@ -0,0 +1,79 @@
+export interface PromptTemplate {
+  system: string;
+  user: string;
+}
+
+export interface PromptVersionEntity extends PromptTemplate {
+  // Auto-incremented; 0 is reserved for the built-in template
+  id?: number;
+  note: string;
+  createdAt: number;
+}
+
+export const PROMPT_VARIABLES = {
+  title: "Pull request title",
+  body: "Pull request description, empty if the source has none",
+  repo: "Repository as owner/repo",
+  author: "Pull request author as @login, or unknown",
+  branch: "Branch the pull request was merged into, or unknown",
+  labels: "Comma-separated labels, or none",
+  issues: "Issues the pull request closes, as #number and title, or none",
+  diff: "The diff, or summaries of its parts for large diffs, plus a list of files left out as noise",
+  audiences: "One line per enabled audience with its field, instructions, tone and word limit",
+} as const;
+
+export type PromptVariable = keyof typeof PROMPT_VARIABLES;
+
+export const BUILT_IN_PROMPT_ID = 0;
+
+export const BUILT_IN_PROMPT: PromptVersionEntity = {
+  id: BUILT_IN_PROMPT_ID,
+  system: `You are a helpful assistant that writes release notes for a software change, one note per audience. Every note must describe the same change consistently, be strictly grounded in the facts provided, and never invent features, components, or outcomes. When essential details are missing, set each note to "Details insufficient to generate a note." instead; do not guess, hallucinate, or ask follow-up questions. Refuse only if the request violates explicit policies. Add no extra text or formatting beyond the notes.
+
+Audiences:
+{{audiences}}`,
+  user: `Pull request {{title}} in {{repo}} by {{author}}, merged into {{branch}} (labels: {{labels}}).
+Closes issues: {{issues}}
+{{body}}
+
+{{diff}}`,
+  note: "Built-in template",
+  createdAt: 0,
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_]+)\s*\}\}/g;
+
+/** Replaces `{{name}}` placeholders; unknown names are left untouched. */
+export function renderTemplate(
+  template: string,
+  variables: Record<PromptVariable, string>
+): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.hasOwn(variables, name) ? variables[name as PromptVariable] : match
+  );
+}
+
+/** Placeholders that renderTemplate would leave as they are. */
+export function unknownVariables(template: string): string[] {
+  const names = Array.from(template.matchAll(VARIABLE_PATTERN), (m) => m[1]);
+  return Array.from(
+    new Set(names.filter((n) => !Object.hasOwn(PROMPT_VARIABLES, n)))
+  );
+}
+
+// Accepts untrusted JSON (request bodies) and falls back to the built-in template
+export function normalizePromptTemplate(value: unknown): PromptTemplate {
+  const v = (value ?? {}) as Partial<Record<keyof PromptTemplate, unknown>>;
+  const system = typeof v.system === "string" ? v.system.trim() : "";
+  const user = typeof v.user === "string" ? v.user.trim() : "";
+  if (!system || !user) {
+    return { system: BUILT_IN_PROMPT.system, user: BUILT_IN_PROMPT.user };
+  }
+  return { system: system.slice(0, 20000), user: user.slice(0, 20000) };
+}
+
+export function promptVersionLabel(version: PromptVersionEntity): string {
+  return version.id === BUILT_IN_PROMPT_ID
+    ? "Built-in"
+    : `v${version.id}${version.note ? ` – ${version.note}` : ""}`;
+}
@@ -0,0 +1,332 @@
+export type RedactionAction = "redact" | "block";
+
+export interface RedactionRule {
+  id: string;
+  label: string;
+  // Regular expression source; matched globally
+  pattern: string;
+  flags?: string;
+  // Capture group holding the secret, e.g. the value of an assignment
+  group?: number;
+  // Only matches with at least this Shannon entropy (bits per character)
+  minEntropy?: number;
+  action: RedactionAction;
+}
+
+export interface RedactionConfig {
+  // Built-in rules switched off, by id
+  disabled: string[];
+  // Built-in rules whose action was changed, by id
+  actions: Record<string, RedactionAction>;
+  // Extra patterns, one regular expression each
+  redact: string[];
+  block: string[];
+  // Matches containing one of these are left alone, e.g. "@example.com"
+  allow: string[];
+}
+
+export interface RedactionFinding {
+  ruleId: string;
+  label: string;
+  action: RedactionAction;
+  // Replaces every occurrence of one value
+  placeholder: string;
+  // Files, or "(title)", "(description)" and "(linked issues)"
+  paths: string[];
+  count: number;
+}
+
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  {
+    id: "private-key",
+    label: "Private key",
+    // Up to the END marker, or the base64 lines of a key cut off before it;
+    // the header alone is only a mention
+    pattern:
+      "-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----(?:[\\s\\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----|(?:(?:\\r?\\n|\\\\n)[+ -]?[ \\t]*[A-Za-z0-9+/]{40,}={0,2})+)",
+    action: "block",
+  },
+  {
+    id: "aws-access-key",
+    label: "AWS access key",
+    pattern: "\\b(?:AKIA|ASIA)[0-9A-Z]{16}\\b",
+    action: "redact",
+  },
+  {
+    id: "github-token",
+    label: "GitHub token",
+    pattern: "\\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})",
+    action: "redact",
+  },
+  {
+    id: "llm-api-key",
+    label: "OpenAI or Anthropic API key",
+    pattern: "\\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}",
+    action: "redact",
+  },
+  {
+    id: "slack-token",
+    label: "Slack token",
+    pattern: "\\bxox[abposr]-[A-Za-z0-9-]{10,}",
+    action: "redact",
+  },
+  {
+    id: "stripe-key",
+    label: "Stripe live key",
+    pattern: "\\b(?:sk|rk)_live_[A-Za-z0-9]{16,}",
+    action: "redact",
+  },
+  {
+    id: "google-api-key",
+    label: "Google API key",
+    pattern: "\\bAIza[0-9A-Za-z_-]{35}",
+    action: "redact",
+  },
+  {
+    id: "jwt",
+    label: "JSON web token",
+    pattern: "\\beyJ[A-Za-z0-9_-]{10,}\\.eyJ[A-Za-z0-9_-]{10,}\\.[A-Za-z0-9_-]{10,}",
+    action: "redact",
+  },
+  {
+    id: "url-password",
+    label: "Password in a URL",
+    pattern: "\\b[a-z][a-z0-9+.-]*://[^\\s:/@]+:([^\\s@/]+)@",
+    flags: "i",
+    group: 1,
+    action: "redact",
+  },
+  {
+    id: "secret-assignment",
+    label: "Secret assigned in code or config",
+    pattern:
+      "(?:password|passwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|credentials?)[\\w-]*[\"']?\\s*[:=]\\s*[\"']([^\"'\\s]{8,})[\"']",
+    flags: "i",
+    group: 1,
+    action: "redact",
+  },
+  {
+    id: "env-secret",
+    label: "Secret in an environment file",
+    pattern:
+      "^[+ -]?\\s*(?:export\\s+)?[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_KEY|ACCESS_KEY)[A-Z0-9_]*\\s*=\\s*([A-Za-z0-9_\\-+/=.]{8,})(?=\\s|#|$)",
+    flags: "m",
+    group: 1,
+    action: "redact",
+  },
+  {
+    id: "email",
+    label: "Email address",
+    pattern: "\\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\\.[A-Za-z0-9-]+)*\\.[A-Za-z]{2,}\\b",
+    action: "redact",
+  },
+  {
+    id: "high-entropy",
+    label: "High-entropy string",
+    // Random-looking tokens mix letters and digits; words and paths don't
+    pattern: "(?<![\\w+/=-])(?=[A-Za-z+/=_-]*\\d)(?=[\\d+/=_-]*[A-Za-z])[A-Za-z0-9+/=_-]{24,}",
+    minEntropy: 4.2,
+    action: "redact",
+  },
+];
+
+export const DEFAULT_REDACTION_CONFIG: RedactionConfig = {
+  disabled: [],
+  actions: {},
+  redact: [],
+  block: [],
+  allow: ["example.com", "example.org", "example.net"],
+};
+
+// Accepts untrusted JSON (request bodies, stored rows) and fills in defaults
+export function normalizeRedactionConfig(value: unknown): RedactionConfig {
+  if (!value || typeof value !== "object") return DEFAULT_REDACTION_CONFIG;
+  const v = value as Partial<RedactionConfig>;
+  const strings = (list: unknown) =>
+    Array.isArray(list)
+      ? list.filter((p): p is string => typeof p === "string")
+      : [];
+  const actions: Record<string, RedactionAction> = {};
+  if (v.actions && typeof v.actions === "object") {
+    Object.entries(v.actions).forEach(([id, action]) => {
+      if (action === "redact" || action === "block") actions[id] = action;
+    });
+  }
+  return {
+    disabled: strings(v.disabled),
+    actions,
+    redact: strings(v.redact),
+    block: strings(v.block),
+    allow: Array.isArray(v.allow)
+      ? strings(v.allow)
+      : DEFAULT_REDACTION_CONFIG.allow,
+  };
+}
+
+/** Null when `pattern` is a valid regular expression, else the reason. */
+export function patternError(pattern: string): string | null {
+  try {
+    new RegExp(pattern);
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+}
+
+// Built-in rules as configured, then the custom ones; invalid patterns are
+// skipped
+export function resolveRedactionRules(
+  config: RedactionConfig
+): RedactionRule[] {
+  const custom = (patterns: string[], action: RedactionAction) =>
+    patterns
+      .filter((p) => !patternError(p))
+      .map((pattern, i) => ({
+        id: `custom-${action}-${i + 1}`,
+        label: `Custom pattern ${pattern}`,
+        pattern,
+        action,
+      }));
+  return [
+    ...DEFAULT_REDACTION_RULES.filter(
+      (r) => !config.disabled.includes(r.id)
+    ).map((r) => ({ ...r, action: config.actions[r.id] ?? r.action })),
+    ...custom(config.block, "block"),
+    ...custom(config.redact, "redact"),
+  ];
+}
+
+export function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let entropy = 0;
+  counts.forEach((count) => {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  });
+  return entropy;
+}
+
+const PLACEHOLDER = /^\[REDACTED_[A-Z0-9_]+\]$/;
+
+// Lines after the first keep their diff marker, so hunks stay parseable
+function replacementFor(value: string, placeholder: string): string {
+  return value
+    .split("\n")
+    .map((line, i) =>
+      i === 0 ? placeholder : /^[+ -]/.test(line) ? line[0] : ""
+    )
+    .join("\n");
+}
+
+// File of the diff line at `offset`, from the closest "diff --git" header
+function diffPathAt(text: string, offset: number): string {
+  const start = text.lastIndexOf("diff --git ", offset);
+  if (start === -1) return "(diff)";
+  const end = text.indexOf("\n", start);
+  const header = text.slice(start, end === -1 ? undefined : end);
+  return header.match(/ b\/(.+)$/)?.[1] ?? "(diff)";
+}
+
+/**
+ * Replaces secrets with placeholders such as `[REDACTED_EMAIL_1]`. The same
+ * value gets the same placeholder in every text one redactor sees, and the
+ * numbering only depends on the order of the input, so placeholders are
+ * stable across runs.
+ */
+export function createRedactor(config: RedactionConfig) {
+  const rules = resolveRedactionRules(config);
+  const findings = new Map<string, RedactionFinding>();
+  // rule id + value -> placeholder
+  const placeholders = new Map<string, string>();
+  const numbers = new Map<string, number>();
+
+  const placeholderFor = (rule: RedactionRule, value: string) => {
+    const key = `${rule.id}\n${value}`;
+    let placeholder = placeholders.get(key);
+    if (!placeholder) {
+      const n = (numbers.get(rule.id) ?? 0) + 1;
+      numbers.set(rule.id, n);
+      placeholder = `[REDACTED_${rule.id.toUpperCase().replace(/-/g, "_")}_${n}]`;
+      placeholders.set(key, placeholder);
+    }
+    return placeholder;
+  };
+
+  const record = (rule: RedactionRule, placeholder: string, path: string) => {
+    const finding = findings.get(placeholder) ?? {
+      ruleId: rule.id,
+      label: rule.label,
+      action: rule.action,
+      placeholder,
+      paths: [],
+      count: 0,
+    };
+    finding.count++;
+    if (!finding.paths.includes(path)) finding.paths.push(path);
+    findings.set(placeholder, finding);
+  };
+
+  return {
+    /** `source` names where the text came from; diffs are attributed per file. */
+    redact(text: string, source?: string): string {
+      return rules.reduce((current, rule) => {
+        const pattern = new RegExp(rule.pattern, `g${rule.flags ?? ""}`);
+        return current.replace(pattern, (...args) => {
+          const match = args[0] as string;
+          const offset = args.find((a) => typeof a === "number") as number;
+          const value = rule.group ? (args[rule.group] as string) : match;
+          if (
+            !value ||
+            PLACEHOLDER.test(value) ||
+            config.allow.some((a) => a && value.includes(a)) ||
+            (rule.minEntropy && shannonEntropy(value) < rule.minEntropy)
+          ) {
+            return match;
+          }
+          const placeholder = placeholderFor(rule, value);
+          record(rule, placeholder, source ?? diffPathAt(current, offset));
+          return match.replace(value, replacementFor(value, placeholder));
+        });
+      }, text);
+    },
+    findings(): RedactionFinding[] {
+      return Array.from(findings.values());
+    },
+  };
+}
+
+export interface RedactedPullRequest {
+  title: string;
+  body: string;
+  issues: string;
+  diff: string;
+  findings: RedactionFinding[];
+  // Findings of blocking rules; nothing may be sent when there are any
+  blocked: RedactionFinding[];
+}
+
+export function redactPullRequest(
+  pr: {
+    title: string;
+    body?: string | null;
+    issues?: string;
+    diff: string;
+  },
+  config: RedactionConfig
+): RedactedPullRequest {
+  const redactor = createRedactor(config);
+  const title = redactor.redact(pr.title, "(title)");
+  const body = redactor.redact(pr.body ?? "", "(description)");
+  const issues = redactor.redact(pr.issues ?? "", "(linked issues)");
+  const diff = redactor.redact(pr.diff);
+  const findings = redactor.findings();
+  return {
+    title,
+    body,
+    issues,
+    diff,
+    findings,
+    blocked: findings.filter((f) => f.action === "block"),
+  };
+}
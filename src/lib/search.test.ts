@@ -0,0 +1,71 @@
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  RepositoryRef,
+  db,
+  openingRepository,
+  touchRepository,
+} from "@/lib/db";
+import {
+  EMPTY_FILTERS,
+  filtersFromQueryString,
+  filtersToQueryString,
+  repositoryFromQueryString,
+  repositoryToQueryString,
+} from "@/lib/search";
+
+describe("repository query string", () => {
+  it("round-trips the repository next to the filters", () => {
+    const ref = { provider: "gitlab" as const, owner: "acme/web", repo: "app" };
+    const search = filtersToQueryString(
+      { ...EMPTY_FILTERS, author: "ann" },
+      repositoryToQueryString(ref, "?utm=1")
+    );
+
+    expect(repositoryFromQueryString(search)).toEqual(ref);
+    expect(filtersFromQueryString(search).author).toBe("ann");
+    expect(new URLSearchParams(search).get("utm")).toBe("1");
+  });
+
+  it("ignores incomplete repositories and unknown providers", () => {
+    expect(repositoryFromQueryString("?owner=acme&repo=sdk")).toBeNull();
+    expect(repositoryFromQueryString("?provider=github&repo=sdk")).toBeNull();
+    expect(
+      repositoryFromQueryString("?provider=svn&owner=acme&repo=sdk")
+    ).toBeNull();
+  });
+});
+
+describe("openingRepository", () => {
+  beforeEach(() => db.repositories.clear());
+  afterEach(() => vi.restoreAllMocks());
+
+  // Uses each repository at its own time
+  const useAt = (time: number, ref: RepositoryRef) => {
+    vi.spyOn(Date, "now").mockReturnValue(time);
+    return touchRepository(ref);
+  };
+
+  it("reopens the last used repository without a bookmark", async () => {
+    const sdk = { provider: "github" as const, owner: "acme", repo: "sdk" };
+    await useAt(2, sdk);
+    await useAt(1, { ...sdk, repo: "web" });
+
+    const search = filtersToQueryString({ ...EMPTY_FILTERS, author: "ann" });
+    const opened = await openingRepository(repositoryFromQueryString(search));
+    expect(opened).toMatchObject(sdk);
+  });
+
+  it("opens and remembers a bookmarked repository", async () => {
+    await useAt(1, { provider: "github", owner: "acme", repo: "sdk" });
+    vi.spyOn(Date, "now").mockReturnValue(2);
+    const search = "?provider=gitea&owner=acme&repo=hooks";
+
+    const opened = await openingRepository(repositoryFromQueryString(search));
+    expect(opened).toMatchObject({ slug: "gitea:acme/hooks" });
+    expect(await openingRepository(null)).toMatchObject({
+      slug: "gitea:acme/hooks",
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import type { RepositoryRef } from "@/lib/db";
+import { isSourceProvider } from "@/lib/sources/types";
+
+export type SearchField = "title" | "body" | "paths" | "notes" | "diff";
+
+// The text of one cached PR per field; paths and notes one per line
+export type SearchDocument = { id: string } & Partial<
+  Record<SearchField, string>
+>;
+
+const FIELDS: SearchField[] = ["title", "paths", "body", "notes", "diff"];
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  title: "Title",
+  paths: "Files",
+  body: "Description",
+  notes: "Notes",
+  diff: "Diff",
+};
+
+export type PullRequestState =
+  | "summarized"
+  | "not-summarized"
+  | "needs-review"
+  | "approved"
+  | "excluded"
+  | "failed";
+
+export const PULL_REQUEST_STATES: Record<PullRequestState, string> = {
+  summarized: "Summarized",
+  "not-summarized": "Not summarized",
+  "needs-review": "Needs review",
+  approved: "Approved",
+  excluded: "Excluded",
+  failed: "Generation failed",
+};
+
+export interface SearchFilters {
+  q: string;
+  author: string;
+  label: string;
+  // yyyy-mm-dd, inclusive
+  from: string;
+  to: string;
+  state: PullRequestState | "";
+  // Matches PRs touching a file under this path
+  path: string;
+}
+
+export const EMPTY_FILTERS: SearchFilters = {
+  q: "",
+  author: "",
+  label: "",
+  from: "",
+  to: "",
+  state: "",
+  path: "",
+};
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 8,
+  paths: 4,
+  body: 3,
+  notes: 3,
+  diff: 1,
+};
+
+// Keeps the index small for huge generated diffs
+const MAX_INDEXED_DIFF_CHARS = 200_000;
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(TOKEN_PATTERN) ?? []).filter(
+    (t) => t.length > 1
+  );
+}
+
+// token -> PR id -> summed field weight
+export type SearchIndex = Map<string, Map<string, number>>;
+
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const index: SearchIndex = new Map();
+  documents.forEach((doc) => {
+    FIELDS.forEach((field) => {
+      const text = doc[field]?.slice(0, MAX_INDEXED_DIFF_CHARS) ?? "";
+      new Set(tokenize(text)).forEach((token) => {
+        let postings = index.get(token);
+        if (!postings) index.set(token, (postings = new Map()));
+        postings.set(
+          doc.id,
+          (postings.get(doc.id) ?? 0) + FIELD_WEIGHTS[field]
+        );
+      });
+    });
+  });
+  return index;
+}
+
+/**
+ * Scores of the PRs containing every query term in any of `indexes`; a term
+ * also matches longer tokens it is the start of, so results show up while
+ * typing.
+ */
+export function searchIndexes(
+  indexes: SearchIndex[],
+  query: string
+): Map<string, number> {
+  const terms = Array.from(new Set(tokenize(query)));
+  let scores: Map<string, number> | null = null;
+  for (const term of terms) {
+    const matches = new Map<string, number>();
+    indexes.forEach((index) =>
+      index.forEach((postings, token) => {
+        if (!token.startsWith(term)) return;
+        // Exact tokens count more than prefix matches
+        const boost = token === term ? 2 : 1;
+        postings.forEach((weight, id) =>
+          matches.set(id, Math.max(matches.get(id) ?? 0, weight * boost))
+        );
+      })
+    );
+    const previous: Map<string, number> | null = scores;
+    scores = new Map();
+    matches.forEach((score, id) => {
+      if (!previous) scores!.set(id, score);
+      else if (previous.has(id)) scores!.set(id, previous.get(id)! + score);
+    });
+    if (!scores.size) break;
+  }
+  return scores ?? new Map();
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/** Splits `text` around words starting with one of the query's terms. */
+export function highlight(text: string, query: string): HighlightSegment[] {
+  const terms = tokenize(query);
+  if (!terms.length || !text) return [{ text, match: false }];
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const m of text.matchAll(TOKEN_PATTERN)) {
+    const word = m[0].toLowerCase();
+    if (!terms.some((t) => word.startsWith(t))) continue;
+    const start = m.index ?? 0;
+    if (start > last) {
+      segments.push({ text: text.slice(last, start), match: false });
+    }
+    segments.push({ text: m[0], match: true });
+    last = start + m[0].length;
+  }
+  if (last < text.length) {
+    segments.push({ text: text.slice(last), match: false });
+  }
+  return segments;
+}
+
+/**
+ * The line of the first field (after the title) that matches the query, for
+ * showing why a PR was found. Null when only the title matched.
+ */
+export function matchSnippet(
+  doc: SearchDocument,
+  query: string,
+  maxLength = 160
+): { field: SearchField; text: string } | null {
+  const terms = tokenize(query);
+  if (!terms.length) return null;
+  const matches = (line: string) =>
+    tokenize(line).some((w) => terms.some((t) => w.startsWith(t)));
+  for (const field of FIELDS) {
+    if (field === "title") continue;
+    const text = doc[field]?.slice(0, MAX_INDEXED_DIFF_CHARS) ?? "";
+    const line = text.split("\n").find(matches);
+    if (line) {
+      const trimmed = line.trim();
+      return {
+        field,
+        text:
+          trimmed.length > maxLength
+            ? `${trimmed.slice(0, maxLength - 1)}…`
+            : trimmed,
+      };
+    }
+  }
+  return null;
+}
+
+// The facets of one PR that filters apply to
+export interface FilterablePullRequest {
+  author?: string | null;
+  labels?: string[];
+  mergedAt?: string | null;
+  paths: string[];
+  states: PullRequestState[];
+}
+
+export function matchesFilters(
+  pr: FilterablePullRequest,
+  filters: SearchFilters
+): boolean {
+  if (filters.author && pr.author !== filters.author) return false;
+  if (filters.label && !pr.labels?.includes(filters.label)) return false;
+  if (filters.state && !pr.states.includes(filters.state)) return false;
+  // ISO dates compare correctly as strings
+  const mergedOn = pr.mergedAt?.slice(0, 10);
+  if (filters.from && (!mergedOn || mergedOn < filters.from)) return false;
+  if (filters.to && (!mergedOn || mergedOn > filters.to)) return false;
+  const prefix = filters.path.trim().replace(/^\/+/, "");
+  if (prefix && !pr.paths.some((p) => p.startsWith(prefix))) return false;
+  return true;
+}
+
+export function hasActiveFilters(filters: SearchFilters): boolean {
+  return (Object.keys(EMPTY_FILTERS) as (keyof SearchFilters)[]).some(
+    (key) => filters[key].trim() !== ""
+  );
+}
+
+export function filtersFromQueryString(search: string): SearchFilters {
+  const params = new URLSearchParams(search);
+  const state = params.get("state") ?? "";
+  return {
+    q: params.get("q") ?? "",
+    author: params.get("author") ?? "",
+    label: params.get("label") ?? "",
+    from: params.get("from") ?? "",
+    to: params.get("to") ?? "",
+    state: Object.hasOwn(PULL_REQUEST_STATES, state)
+      ? (state as PullRequestState)
+      : "",
+    path: params.get("path") ?? "",
+  };
+}
+
+/** Sets the filter parameters of `search`, keeping unrelated ones. */
+export function filtersToQueryString(
+  filters: SearchFilters,
+  search = ""
+): string {
+  const params = new URLSearchParams(search);
+  (Object.keys(EMPTY_FILTERS) as (keyof SearchFilters)[]).forEach((key) => {
+    const value = filters[key].trim();
+    if (value) params.set(key, value);
+    else params.delete(key);
+  });
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+/** The repository a bookmarked view was made in, if the URL names one. */
+export function repositoryFromQueryString(
+  search: string
+): RepositoryRef | null {
+  const params = new URLSearchParams(search);
+  const provider = params.get("provider");
+  const owner = params.get("owner")?.trim();
+  const repo = params.get("repo")?.trim();
+  if (!isSourceProvider(provider) || !owner || !repo) return null;
+  return { provider, owner, repo };
+}
+
+/** Sets the repository parameters of `search`, keeping unrelated ones. */
+export function repositoryToQueryString(
+  ref: RepositoryRef,
+  search = ""
+): string {
+  const params = new URLSearchParams(search);
+  params.set("provider", ref.provider);
+  params.set("owner", ref.owner);
+  params.set("repo", ref.repo);
+  return `?${params.toString()}`;
+}
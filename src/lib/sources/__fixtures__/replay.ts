@@ -0,0 +1,71 @@
+import { LIST_PAGE_SIZE } from "@/lib/sources/paging";
+
+// A response as the host sent it: JSON bodies are objects, diffs strings
+export interface RecordedResponse {
+  status?: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+// Picks the recorded response by the request, e.g. by a GraphQL variable
+export type RecordedHandler = (
+  request: Request
+) => RecordedResponse | Promise<RecordedResponse>;
+
+/**
+ * A `fetch` that answers from recorded responses instead of the network.
+ * Keys are a path with an optional query; a request matches the first key
+ * whose path is the request's and whose query parameters it all has.
+ * Unmatched requests get a 404, and every request is kept in `requests`.
+ */
+export function replayFetch(
+  responses: Record<string, RecordedResponse | RecordedHandler>
+) {
+  const requests: Request[] = [];
+  const routes = Object.entries(responses).map(([key, response]) => ({
+    url: new URL(key, "http://replay"),
+    response,
+  }));
+
+  const fetchImpl = async (
+    input: RequestInfo | URL,
+    init?: RequestInit
+  ): Promise<Response> => {
+    const request = new Request(input, init);
+    requests.push(request.clone());
+    const url = new URL(request.url);
+    const route = routes.find(
+      (r) =>
+        r.url.pathname === url.pathname &&
+        Array.from(r.url.searchParams).every(
+          ([name, value]) => url.searchParams.get(name) === value
+        )
+    );
+    if (!route) {
+      return Response.json({ message: "Not Found" }, { status: 404 });
+    }
+    const { status = 200, body, headers = {} } =
+      typeof route.response === "function"
+        ? await route.response(request)
+        : route.response;
+    return typeof body === "string"
+      ? new Response(body, {
+          status,
+          headers: { "content-type": "text/plain; charset=utf-8", ...headers },
+        })
+      : Response.json(body, { status, headers });
+  };
+
+  return { fetch: fetchImpl as typeof fetch, requests };
+}
+
+// A full list page, so paging continues past it
+export function fullPage<T>(
+  template: T,
+  item: (index: number) => Partial<T>
+): T[] {
+  return Array.from({ length: LIST_PAGE_SIZE }, (_, i) => ({
+    ...template,
+    ...item(i),
+  }));
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+
+import recorded from "@/lib/sources/__fixtures__/bitbucket.json";
+import { replayFetch } from "@/lib/sources/__fixtures__/replay";
+import {
+  bitbucketApiUrl,
+  createBitbucketSource,
+} from "@/lib/sources/bitbucket";
+import { SourceRequestError } from "@/lib/sources/types";
+
+const REPO = "/2.0/repositories/acme/hooks";
+
+function source(options: { token?: string; username?: string } = {}) {
+  const replay = replayFetch({
+    [`${REPO}/pullrequests`]: { body: recorded.pullRequests },
+    [`${REPO}/pullrequests/7/diff`]: { body: recorded.diffs["7"] },
+    [`${REPO}/pullrequests/5/diff`]: { body: recorded.diffs["5"] },
+    "/2.0/repositories/acme/missing/pullrequests": {
+      status: 404,
+      body: recorded.notFound,
+    },
+  });
+  return {
+    ...replay,
+    source: createBitbucketSource({
+      baseUrl: "https://bitbucket.org",
+      fetch: replay.fetch,
+      ...options,
+    }),
+  };
+}
+
+const options = { owner: "acme", repo: "hooks", perPage: 10 };
+
+describe("createBitbucketSource", () => {
+  it("lists merged pull requests from the API host", async () => {
+    const { source: bitbucket, requests } = source();
+    const { changes, nextCursor } = await bitbucket.listMergedChanges(options);
+
+    expect(changes.map((c) => c.number)).toEqual([7, 5]);
+    expect(nextCursor).toBeNull();
+    const list = new URL(requests[0].url);
+    expect(list.host).toBe("api.bitbucket.org");
+    expect(list.searchParams.get("state")).toBe("MERGED");
+    expect(changes[0]).toMatchObject({
+      title: "Validate webhook signatures",
+      author: "ann",
+      url: "https://bitbucket.org/acme/hooks/pull-requests/7",
+      mergedAt: "2026-10-04T16:45:12.345678+00:00",
+      labels: [],
+      baseBranch: "main",
+      additions: 2,
+      linkedIssues: [
+        {
+          number: 3,
+          title: null,
+          url: "https://bitbucket.org/acme/hooks/issues/3",
+        },
+      ],
+    });
+    // Without a nickname the display name stands in
+    expect(changes[1].author).toBe("Bo Lee");
+  });
+
+  it("continues from the cursor within a page", async () => {
+    const { source: bitbucket } = source();
+    const first = await bitbucket.listMergedChanges({ ...options, perPage: 1 });
+    const second = await bitbucket.listMergedChanges({
+      ...options,
+      perPage: 1,
+      cursor: first.nextCursor!,
+    });
+    expect(first.changes.map((c) => c.number)).toEqual([7]);
+    expect(second.changes.map((c) => c.number)).toEqual([5]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("sends an access token as a bearer token", async () => {
+    const { source: bitbucket, requests } = source({ token: "bb-token" });
+    await bitbucket.listMergedChanges(options);
+    expect(requests[0].headers.get("authorization")).toBe("Bearer bb-token");
+  });
+
+  it("sends an app password with its username as basic auth", async () => {
+    const { source: bitbucket, requests } = source({
+      token: "app-password",
+      username: "ann",
+    });
+    await bitbucket.listMergedChanges(options);
+    expect(requests[0].headers.get("authorization")).toBe(
+      `Basic ${Buffer.from("ann:app-password").toString("base64")}`
+    );
+  });
+
+  it("sends no authorization without a token", async () => {
+    const { source: bitbucket, requests } = source({ username: "ann" });
+    await bitbucket.listMergedChanges(options);
+    expect(requests[0].headers.has("authorization")).toBe(false);
+  });
+
+  it("throws the status and the message nested in error", async () => {
+    const { source: bitbucket } = source();
+    const error = await bitbucket
+      .listMergedChanges({ ...options, repo: "missing" })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(SourceRequestError);
+    expect(error).toMatchObject({
+      status: 404,
+      message: "Repository acme/missing not found",
+    });
+  });
+
+  it("serves self-hosted instances under /api", () => {
+    expect(bitbucketApiUrl("https://bitbucket.example.com")).toBe(
+      "https://bitbucket.example.com/api/2.0"
+    );
+  });
+});
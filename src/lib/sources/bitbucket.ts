@@ -0,0 +1,98 @@
+import { detailsFromDiff } from "@/lib/github";
+import { createSourceClient, mapDiffs } from "@/lib/sources/http";
+import { collectPages, LIST_PAGE_SIZE } from "@/lib/sources/paging";
+import {
+  DEFAULT_BASE_URLS,
+  SourceAdapter,
+  SourceOptions,
+} from "@/lib/sources/types";
+
+// Fields of Bitbucket's pull request response this adapter reads
+interface BitbucketPullRequest {
+  id: number;
+  title: string;
+  description: string | null;
+  author: { display_name?: string; nickname?: string } | null;
+  links: { html: { href: string } };
+  updated_on: string | null;
+  destination: { branch: { name: string } };
+}
+
+interface BitbucketPage<T> {
+  values: T[];
+}
+
+// bitbucket.org has its own API host; other addresses serve it under /api
+export function bitbucketApiUrl(baseUrl: string): string {
+  return baseUrl === DEFAULT_BASE_URLS.bitbucket
+    ? "https://api.bitbucket.org/2.0"
+    : `${baseUrl}/api/2.0`;
+}
+
+/**
+ * Merged pull requests of Bitbucket Cloud. `token` is an access token, or
+ * an app password when `username` is set. Bitbucket has no labels and
+ * doesn't report when a PR was merged, so the last update stands in.
+ */
+export function createBitbucketSource(
+  options: SourceOptions & { username?: string }
+): SourceAdapter {
+  const authorization = !options.token
+    ? null
+    : options.username
+      ? `Basic ${Buffer.from(`${options.username}:${options.token}`).toString("base64")}`
+      : `Bearer ${options.token}`;
+  const client = createSourceClient(
+    bitbucketApiUrl(options.baseUrl),
+    authorization ? { authorization } : {},
+    options.fetch
+  );
+
+  return {
+    provider: "bitbucket",
+    baseUrl: options.baseUrl,
+    async listMergedChanges({ owner, repo, perPage, cursor }) {
+      const path = `/repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+      const { items, nextCursor } = await collectPages(
+        async (page) =>
+          (
+            await client.json<BitbucketPage<BitbucketPullRequest>>(
+              `${path}/pullrequests`,
+              {
+                state: "MERGED",
+                sort: "-updated_on",
+                pagelen: LIST_PAGE_SIZE,
+                page,
+              }
+            )
+          ).values,
+        () => true,
+        { perPage, cursor }
+      );
+      const changes = await mapDiffs(
+        items,
+        // Answered with a redirect to the diff of the merge's commits
+        (pr) => client.text(`${path}/pullrequests/${pr.id}/diff`),
+        (pr, diff) => ({
+          number: pr.id,
+          title: pr.title,
+          author: pr.author?.nickname ?? pr.author?.display_name ?? null,
+          url: pr.links.html.href,
+          diff,
+          mergedAt: pr.updated_on,
+          labels: [],
+          ...detailsFromDiff(
+            diff,
+            {
+              body: pr.description,
+              base: { ref: pr.destination.branch.name },
+            },
+            (n) => `${options.baseUrl}/${owner}/${repo}/issues/${n}`
+          ),
+        }),
+        (pr) => `PR #${pr.id}`
+      );
+      return { changes, nextCursor };
+    },
+  };
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+
+import recorded from "@/lib/sources/__fixtures__/gitea.json";
+import {
+  RecordedResponse,
+  fullPage,
+  replayFetch,
+} from "@/lib/sources/__fixtures__/replay";
+import { createGiteaSource } from "@/lib/sources/gitea";
+import { SourceRequestError } from "@/lib/sources/types";
+
+const REPO = "/api/v1/repos/acme/site";
+
+function source(responses: Record<string, RecordedResponse>) {
+  const replay = replayFetch(responses);
+  return {
+    ...replay,
+    source: createGiteaSource({
+      baseUrl: "https://git.example.com",
+      token: "gitea-test",
+      fetch: replay.fetch,
+    }),
+  };
+}
+
+const recordedResponses = {
+  [`${REPO}/pulls`]: { body: recorded.pulls },
+  [`${REPO}/pulls/42.diff`]: { body: recorded.diffs["42"] },
+  [`${REPO}/pulls/38.diff`]: { body: recorded.diffs["38"] },
+};
+
+const options = { owner: "acme", repo: "site", perPage: 10 };
+
+describe("createGiteaSource", () => {
+  it("keeps only merged pull requests", async () => {
+    const { source: gitea, requests } = source(recordedResponses);
+    const { changes, nextCursor } = await gitea.listMergedChanges(options);
+
+    expect(changes.map((c) => c.number)).toEqual([42, 38]);
+    expect(nextCursor).toBeNull();
+    const list = new URL(requests[0].url);
+    expect(list.searchParams.get("state")).toBe("closed");
+    expect(requests[0].headers.get("authorization")).toBe("token gitea-test");
+    // Unmerged PRs don't cost a diff request
+    expect(requests.map((r) => new URL(r.url).pathname)).not.toContain(
+      `${REPO}/pulls/41.diff`
+    );
+    expect(changes[0]).toMatchObject({
+      title: "Cache the avatar lookups",
+      author: "ann",
+      url: "https://git.example.com/acme/site/pulls/42",
+      diff: recorded.diffs["42"],
+      mergedAt: "2026-10-03T12:00:00+02:00",
+      labels: ["performance"],
+      baseBranch: "main",
+      additions: 4,
+      deletions: 1,
+      files: [{ path: "src/avatar.ts", additions: 4, deletions: 1 }],
+    });
+    expect(changes[0].linkedIssues.map((i) => i.url)).toEqual([
+      "https://git.example.com/acme/site/issues/40",
+      "https://git.example.com/acme/site/issues/41",
+    ]);
+    expect(changes[1]).toMatchObject({ author: null, labels: [], body: null });
+  });
+
+  it("continues from the cursor on the next page", async () => {
+    const [template] = recorded.pulls;
+    // Every other PR of the full first page was closed without merging
+    const firstPage = fullPage(template, (i) => ({
+      number: 200 - i,
+      merged: i % 2 === 0,
+    }));
+    const secondPage = [150, 149, 148].map((number) => ({
+      ...template,
+      number,
+      merged: number !== 149,
+    }));
+    const diffs = Object.fromEntries(
+      [...firstPage, ...secondPage].map((pr) => [
+        `${REPO}/pulls/${pr.number}.diff`,
+        { body: recorded.diffs["42"] },
+      ])
+    );
+    const { source: gitea, requests } = source({
+      [`${REPO}/pulls?page=1`]: { body: firstPage },
+      [`${REPO}/pulls?page=2`]: { body: secondPage },
+      ...diffs,
+    });
+
+    const first = await gitea.listMergedChanges({ ...options, perPage: 26 });
+    expect(first.changes).toHaveLength(26);
+    expect(first.changes.at(-1)!.number).toBe(150);
+
+    const second = await gitea.listMergedChanges({
+      ...options,
+      perPage: 26,
+      cursor: first.nextCursor!,
+    });
+    expect(second.changes.map((c) => c.number)).toEqual([148]);
+    expect(second.nextCursor).toBeNull();
+    const pages = requests
+      .map((r) => new URL(r.url))
+      .filter((url) => url.pathname === `${REPO}/pulls`)
+      .map((url) => url.searchParams.get("page"));
+    expect(pages).toEqual(["1", "2", "2"]);
+  });
+
+  it("throws the host's status and message", async () => {
+    const { source: gitea } = source({
+      [`${REPO}/pulls`]: {
+        status: 403,
+        body: { message: "user does not have permission", url: "" },
+      },
+    });
+    const error = await gitea.listMergedChanges(options).catch((e) => e);
+    expect(error).toBeInstanceOf(SourceRequestError);
+    expect(error).toMatchObject({
+      status: 403,
+      message: "user does not have permission",
+    });
+  });
+});
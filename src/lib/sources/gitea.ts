@@ -0,0 +1,69 @@
+import { detailsFromDiff } from "@/lib/github";
+import { createSourceClient, mapDiffs } from "@/lib/sources/http";
+import { collectPages, LIST_PAGE_SIZE } from "@/lib/sources/paging";
+import { SourceAdapter, SourceOptions } from "@/lib/sources/types";
+
+// Fields of Gitea's pull request response this adapter reads
+interface GiteaPullRequest {
+  number: number;
+  title: string;
+  body: string | null;
+  user: { login: string } | null;
+  html_url: string;
+  merged: boolean;
+  merged_at: string | null;
+  labels: { name: string }[] | null;
+  base: { ref: string };
+}
+
+/**
+ * Merged pull requests of Gitea or Forgejo. The list has no merged filter,
+ * so closed PRs are paged through like on GitHub. Instances whose maximum
+ * page size is below 50 end the history after the first page.
+ */
+export function createGiteaSource(options: SourceOptions): SourceAdapter {
+  const client = createSourceClient(
+    `${options.baseUrl}/api/v1`,
+    options.token ? { authorization: `token ${options.token}` } : {},
+    options.fetch
+  );
+
+  return {
+    provider: "gitea",
+    baseUrl: options.baseUrl,
+    async listMergedChanges({ owner, repo, perPage, cursor }) {
+      const path = `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+      const { items, nextCursor } = await collectPages(
+        (page) =>
+          client.json<GiteaPullRequest[]>(`${path}/pulls`, {
+            state: "closed",
+            sort: "recentupdate",
+            limit: LIST_PAGE_SIZE,
+            page,
+          }),
+        (pr) => pr.merged,
+        { perPage, cursor }
+      );
+      const changes = await mapDiffs(
+        items,
+        (pr) => client.text(`${path}/pulls/${pr.number}.diff`),
+        (pr, diff) => ({
+          number: pr.number,
+          title: pr.title,
+          author: pr.user?.login ?? null,
+          url: pr.html_url,
+          diff,
+          mergedAt: pr.merged_at,
+          labels: (pr.labels ?? []).map((label) => label.name),
+          ...detailsFromDiff(
+            diff,
+            pr,
+            (n) => `${options.baseUrl}/${owner}/${repo}/issues/${n}`
+          ),
+        }),
+        (pr) => `PR #${pr.number}`
+      );
+      return { changes, nextCursor };
+    },
+  };
+}
@@ -0,0 +1,207 @@
+import { describe, expect, it } from "vitest";
+
+import recorded from "@/lib/sources/__fixtures__/github.json";
+import {
+  RecordedHandler,
+  RecordedResponse,
+  replayFetch,
+} from "@/lib/sources/__fixtures__/replay";
+import { createGitHubSource } from "@/lib/sources/github";
+import { PullRequestFetcher } from "@/lib/github";
+import { SourceRequestError } from "@/lib/sources/types";
+
+const REPO = "/repos/acme/sdk";
+
+// Answers the merged PR query by its variables
+const graphql: RecordedHandler = async (request) => {
+  const { variables } = await request.json();
+  if (variables.repo !== "sdk") return { body: recorded.graphqlNotFound };
+  if (variables.first > 1) return { body: recorded.mergedAll };
+  return { body: recorded.mergedPages[variables.after ? 1 : 0] };
+};
+
+function source(
+  fetcher: PullRequestFetcher,
+  responses: Record<string, RecordedResponse> = {}
+) {
+  const replay = replayFetch({
+    [`${REPO}/pulls`]: { body: recorded.pulls },
+    [`${REPO}/pulls/1534`]: { body: recorded.diffs["1534"] },
+    [`${REPO}/pulls/1530`]: { body: recorded.diffs["1530"] },
+    "/graphql": graphql,
+    ...responses,
+  });
+  return {
+    ...replay,
+    source: createGitHubSource({
+      baseUrl: "https://github.com",
+      token: "ghp_test",
+      fetcher,
+      fetch: replay.fetch,
+    }),
+  };
+}
+
+const options = { owner: "acme", repo: "sdk", perPage: 10 };
+
+describe("createGitHubSource", () => {
+  it("keeps only merged pull requests of the REST list", async () => {
+    const { source: github, requests } = source("rest");
+    const { changes, nextCursor } = await github.listMergedChanges(options);
+
+    expect(changes.map((c) => c.number)).toEqual([1534, 1530]);
+    expect(nextCursor).toBeNull();
+    const list = new URL(requests[0].url);
+    expect(list.host).toBe("api.github.com");
+    expect(list.searchParams.get("state")).toBe("closed");
+    expect(requests[0].headers.get("authorization")).toBe("token ghp_test");
+    const diffRequest = requests.find((r) => r.url.endsWith("/pulls/1534"));
+    expect(diffRequest?.headers.get("accept")).toContain("diff");
+    expect(changes[0]).toMatchObject({
+      title: "feat(client): add a timeout option to streams",
+      author: "ann",
+      url: "https://github.com/acme/sdk/pull/1534",
+      diff: recorded.diffs["1534"],
+      mergedAt: "2026-10-05T11:20:30Z",
+      labels: ["enhancement"],
+      baseBranch: "main",
+      additions: 4,
+      deletions: 1,
+      linkedIssues: [
+        {
+          number: 1501,
+          title: null,
+          url: "https://github.com/acme/sdk/issues/1501",
+        },
+      ],
+    });
+    expect(changes[1]).toMatchObject({ author: null, baseBranch: "v1" });
+  });
+
+  it("lists merged pull requests with their details in one query", async () => {
+    const { source: github, requests } = source("graphql");
+    const { changes, nextCursor } = await github.listMergedChanges(options);
+
+    expect(nextCursor).toBeNull();
+    // One query for the list and the details, then only the diffs
+    expect(requests.map((r) => new URL(r.url).pathname)).toEqual([
+      "/graphql",
+      `${REPO}/pulls/1534`,
+      `${REPO}/pulls/1530`,
+    ]);
+    const { variables } = await requests[0].json();
+    expect(variables).toEqual({
+      owner: "acme",
+      repo: "sdk",
+      first: 10,
+      after: null,
+    });
+    expect(changes[0]).toMatchObject({
+      number: 1534,
+      title: "feat(client): add a timeout option to streams",
+      author: "ann",
+      url: "https://github.com/acme/sdk/pull/1534",
+      diff: recorded.diffs["1534"],
+      mergedAt: "2026-10-05T11:20:30Z",
+      labels: ["enhancement"],
+      baseBranch: "main",
+      linkedIssues: [
+        {
+          number: 1501,
+          title: "Streams hang forever",
+          url: "https://github.com/acme/sdk/issues/1501",
+        },
+      ],
+    });
+    expect(changes[1]).toMatchObject({
+      author: null,
+      body: null,
+      baseBranch: "v1",
+      files: [{ path: "README.md", additions: 1, deletions: 1 }],
+    });
+  });
+
+  it("continues from GraphQL's cursor", async () => {
+    const { source: github, requests } = source("graphql");
+    const first = await github.listMergedChanges({ ...options, perPage: 1 });
+    const second = await github.listMergedChanges({
+      ...options,
+      perPage: 1,
+      cursor: first.nextCursor!,
+    });
+
+    expect(first.changes.map((c) => c.number)).toEqual([1534]);
+    expect(second.changes.map((c) => c.number)).toEqual([1530]);
+    expect(second.nextCursor).toBeNull();
+    const queries = requests.filter((r) => r.url.endsWith("/graphql"));
+    const { variables } = await queries[1].json();
+    expect(variables.after).toBe(
+      recorded.mergedPages[0].data.repository.pullRequests.pageInfo.endCursor
+    );
+  });
+
+  it("throws a 404 for repositories GraphQL can't resolve", async () => {
+    const { source: github } = source("graphql");
+    const error = await github
+      .listMergedChanges({ ...options, repo: "missing" })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(SourceRequestError);
+    expect(error).toMatchObject({
+      status: 404,
+      message: expect.stringContaining("Could not resolve to a Repository"),
+    });
+  });
+
+  it("rejects a REST cursor instead of starting over", async () => {
+    const { source: rest } = source("rest");
+    const { nextCursor } = await rest.listMergedChanges({
+      ...options,
+      perPage: 1,
+    });
+    const { source: github, requests } = source("graphql");
+    const error = await github
+      .listMergedChanges({ ...options, cursor: nextCursor! })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(SourceRequestError);
+    expect(error.status).toBe(400);
+    expect(requests).toHaveLength(0);
+  });
+
+  it("continues from the cursor within a REST page", async () => {
+    const { source: github } = source("rest");
+    const first = await github.listMergedChanges({ ...options, perPage: 1 });
+    const second = await github.listMergedChanges({
+      ...options,
+      perPage: 1,
+      cursor: first.nextCursor!,
+    });
+    expect(first.changes.map((c) => c.number)).toEqual([1534]);
+    expect(second.changes.map((c) => c.number)).toEqual([1530]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("throws a rate limited diff instead of leaving the PR out", async () => {
+    const { source: github } = source("graphql", {
+      [`${REPO}/pulls/1530`]: {
+        status: 403,
+        body: { message: "API rate limit exceeded for 203.0.113.7." },
+      },
+    });
+    const error = await github.listMergedChanges(options).catch((e) => e);
+    expect(error).toBeInstanceOf(SourceRequestError);
+    expect(error).toMatchObject({
+      status: 403,
+      message: expect.stringContaining("rate limit exceeded"),
+    });
+  });
+
+  it("throws the host's status as a SourceRequestError", async () => {
+    const { source: github } = source("rest", {
+      [`${REPO}/pulls`]: { status: 404, body: recorded.notFound },
+    });
+    const error = await github.listMergedChanges(options).catch((e) => e);
+    expect(error).toBeInstanceOf(SourceRequestError);
+    expect(error.status).toBe(404);
+    expect(error.message).toContain("Not Found");
+  });
+});
@@ -0,0 +1,128 @@
+import { Octokit } from "@octokit/rest";
+
+import {
+  MergedPullRequest,
+  PullRequestDetails,
+  PullRequestFetcher,
+  detailsFromDiff,
+  listMergedPullRequests,
+  listMergedPullRequestsGraphQL,
+} from "@/lib/github";
+import { mapDiffs } from "@/lib/sources/http";
+import {
+  DEFAULT_BASE_URLS,
+  ListMergedOptions,
+  SourceAdapter,
+  SourceOptions,
+  SourceRequestError,
+} from "@/lib/sources/types";
+
+// github.com has its own API host; GitHub Enterprise serves it under /api/v3
+export function gitHubApiUrl(baseUrl: string): string {
+  return baseUrl === DEFAULT_BASE_URLS.github
+    ? "https://api.github.com"
+    : `${baseUrl}/api/v3`;
+}
+
+// A listed PR and how to describe it once its diff is read
+interface Listed {
+  pr: Omit<MergedPullRequest, "details">;
+  describe: (diff: string) => PullRequestDetails;
+}
+
+// Octokit's errors carry the status as well; rethrown like the other hosts'
+function sourceError(err: unknown): unknown {
+  const status = (err as { status?: unknown } | null)?.status;
+  return err instanceof Error && typeof status === "number"
+    ? new SourceRequestError(err.message, status)
+    : err;
+}
+
+/**
+ * Merged pull requests of GitHub or GitHub Enterprise. With the "graphql"
+ * fetcher one query lists a page of them with their details; the "rest"
+ * fetcher pages through closed PRs and reads the details from the diffs.
+ * GraphQL has no diffs, so either way each PR's diff is one more REST
+ * request; with the response cache, unchanged diffs come back as 304s that
+ * don't count against the rate limit.
+ */
+export function createGitHubSource(
+  options: SourceOptions & { fetcher?: PullRequestFetcher }
+): SourceAdapter {
+  const octokit = new Octokit({
+    auth: options.token,
+    baseUrl: gitHubApiUrl(options.baseUrl),
+    request: { fetch: options.fetch ?? fetch },
+  });
+  const fetcher = options.fetcher ?? "rest";
+
+  const listMerged = async (
+    list: ListMergedOptions
+  ): Promise<{ pulls: Listed[]; nextCursor: string | null }> => {
+    if (fetcher === "graphql") {
+      const { pulls, nextCursor } = await listMergedPullRequestsGraphQL(
+        octokit,
+        list
+      );
+      return {
+        pulls: pulls.map(({ details, ...pr }) => ({
+          pr,
+          describe: () => details,
+        })),
+        nextCursor,
+      };
+    }
+    const { pulls, nextCursor } = await listMergedPullRequests(octokit, list);
+    return {
+      pulls: pulls.map((pr) => ({
+        pr: {
+          number: pr.number,
+          title: pr.title,
+          author: pr.user?.login ?? null,
+          url: pr.html_url,
+          mergedAt: pr.merged_at,
+          labels: pr.labels.map((label) => label.name),
+        },
+        describe: (diff) =>
+          detailsFromDiff(
+            diff,
+            pr,
+            (n) => `${options.baseUrl}/${list.owner}/${list.repo}/issues/${n}`
+          ),
+      })),
+      nextCursor,
+    };
+  };
+
+  return {
+    provider: "github",
+    baseUrl: options.baseUrl,
+    async listMergedChanges(list) {
+      const { owner, repo } = list;
+      const { pulls, nextCursor } = await listMerged(list).catch((err) => {
+        throw sourceError(err);
+      });
+
+      const changes = await mapDiffs(
+        pulls,
+        async ({ pr }) => {
+          const response = await octokit.pulls
+            .get({
+              owner,
+              repo,
+              pull_number: pr.number,
+              mediaType: { format: "diff" },
+            })
+            .catch((err) => {
+              throw sourceError(err);
+            });
+          // Octokit types the data as JSON even for the diff media type
+          return response.data as unknown as string;
+        },
+        ({ pr, describe }, diff) => ({ ...pr, diff, ...describe(diff) }),
+        ({ pr }) => `PR #${pr.number}`
+      );
+      return { changes, nextCursor };
+    },
+  };
+}
@@ -0,0 +1,182 @@
+import { describe, expect, it, vi } from "vitest";
+
+import recorded from "@/lib/sources/__fixtures__/gitlab.json";
+import {
+  RecordedResponse,
+  replayFetch,
+} from "@/lib/sources/__fixtures__/replay";
+import { createGitLabSource } from "@/lib/sources/gitlab";
+import { SourceRequestError } from "@/lib/sources/types";
+
+const BASE_URL = "https://gitlab.example.com";
+const PROJECT = "/api/v4/projects/group%2Fsub%2Fapp";
+
+function source(responses: Record<string, RecordedResponse> = {}) {
+  const replay = replayFetch({
+    [`${PROJECT}/merge_requests`]: { body: recorded.mergeRequests },
+    ...Object.fromEntries(
+      Object.entries(recorded.diffs).map(([iid, body]) => [
+        `${PROJECT}/merge_requests/${iid}/diffs`,
+        { body },
+      ])
+    ),
+    ...responses,
+  });
+  return {
+    ...replay,
+    source: createGitLabSource({
+      baseUrl: BASE_URL,
+      token: "glpat-test",
+      fetch: replay.fetch,
+    }),
+  };
+}
+
+const options = { owner: "group/sub", repo: "app", perPage: 10 };
+
+describe("createGitLabSource", () => {
+  it("lists merged merge requests of a nested project", async () => {
+    const { source: gitlab, requests } = source();
+    const { changes, nextCursor } = await gitlab.listMergedChanges(options);
+
+    expect(changes.map((c) => c.number)).toEqual([12, 11, 10]);
+    expect(nextCursor).toBeNull();
+    const list = new URL(requests[0].url);
+    expect(list.pathname).toBe(`${PROJECT}/merge_requests`);
+    expect(list.searchParams.get("state")).toBe("merged");
+    expect(requests[0].headers.get("private-token")).toBe("glpat-test");
+    expect(changes[0]).toMatchObject({
+      title: "Rename the config loader and drop the legacy parser",
+      author: "ann",
+      url: "https://gitlab.example.com/group/sub/app/-/merge_requests/12",
+      mergedAt: "2026-10-02T14:03:09.870Z",
+      labels: ["refactor"],
+      baseBranch: "main",
+      linkedIssues: [
+        {
+          number: 7,
+          title: null,
+          url: "https://gitlab.example.com/group/sub/app/-/issues/7",
+        },
+      ],
+    });
+    expect(changes[2].author).toBeNull();
+  });
+
+  it("rebuilds the git headers of renamed, deleted and new files", async () => {
+    const { source: gitlab } = source();
+    const [renamed, binary] = (await gitlab.listMergedChanges(options))
+      .changes;
+
+    expect(renamed.diff).toBe(
+      [
+        "diff --git a/src/loader.ts b/src/config/load.ts",
+        "rename from src/loader.ts",
+        "rename to src/config/load.ts",
+        "--- a/src/loader.ts",
+        "+++ b/src/config/load.ts",
+        "@@ -1,3 +1,3 @@",
+        "-export function load() {",
+        "+export function loadConfig() {",
+        "   return {};",
+        " }",
+        "diff --git a/src/legacy.ts b/src/legacy.ts",
+        "deleted file mode 100644",
+        "--- a/src/legacy.ts",
+        "+++ /dev/null",
+        "@@ -1,2 +0,0 @@",
+        "-// Old parser",
+        "-export const legacy = true;",
+        "diff --git a/src/config/index.ts b/src/config/index.ts",
+        "new file mode 100644",
+        "--- /dev/null",
+        "+++ b/src/config/index.ts",
+        "@@ -0,0 +1 @@",
+        '+export * from "./load";',
+        "",
+      ].join("\n")
+    );
+    expect(renamed.files.map((f) => f.path)).toEqual([
+      "src/config/load.ts",
+      "src/legacy.ts",
+      "src/config/index.ts",
+    ]);
+    expect([renamed.additions, renamed.deletions]).toEqual([2, 3]);
+    // Binary files come without hunks
+    expect(binary.diff).toBe(
+      "diff --git a/public/logo.png b/public/logo.png\nnew file mode 100644\n"
+    );
+  });
+
+  it("continues from the cursor within a page", async () => {
+    const { source: gitlab, requests } = source();
+    const first = await gitlab.listMergedChanges({ ...options, perPage: 2 });
+    expect(first.changes.map((c) => c.number)).toEqual([12, 11]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await gitlab.listMergedChanges({
+      ...options,
+      perPage: 2,
+      cursor: first.nextCursor!,
+    });
+    expect(second.changes.map((c) => c.number)).toEqual([10]);
+    expect(second.nextCursor).toBeNull();
+    const lists = requests
+      .map((r) => new URL(r.url))
+      .filter((url) => url.pathname.endsWith("/merge_requests"));
+    expect(lists.map((url) => url.searchParams.get("page"))).toEqual([
+      "1",
+      "1",
+    ]);
+  });
+
+  it("throws the host's status and message", async () => {
+    const { source: gitlab } = source({
+      [`${PROJECT}/merge_requests`]: {
+        status: 404,
+        body: { message: "404 Project Not Found" },
+      },
+    });
+    const error = await gitlab.listMergedChanges(options).catch((e) => e);
+    expect(error).toBeInstanceOf(SourceRequestError);
+    expect(error).toMatchObject({
+      status: 404,
+      message: "404 Project Not Found",
+    });
+  });
+
+  it("marks merge requests whose diff fails", async () => {
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+    const { source: gitlab } = source({
+      [`${PROJECT}/merge_requests/11/diffs`]: {
+        status: 500,
+        body: { message: "500 Internal Server Error" },
+      },
+    });
+    const { changes } = await gitlab.listMergedChanges(options);
+    // Still listed, so the cursor doesn't move past it unseen
+    expect(changes.map((c) => c.number)).toEqual([12, 11, 10]);
+    expect(changes[1]).toMatchObject({
+      diff: "",
+      diffError: "500 Internal Server Error",
+      files: [],
+    });
+    expect(changes[0].diffError).toBeUndefined();
+    expect(log).toHaveBeenCalledOnce();
+    log.mockRestore();
+  });
+
+  it("throws rate limit and authorization errors of a diff", async () => {
+    for (const status of [401, 403, 429]) {
+      const { source: gitlab } = source({
+        [`${PROJECT}/merge_requests/11/diffs`]: {
+          status,
+          body: { message: "Retry later" },
+        },
+      });
+      const error = await gitlab.listMergedChanges(options).catch((e) => e);
+      expect(error).toBeInstanceOf(SourceRequestError);
+      expect(error.status).toBe(status);
+    }
+  });
+});
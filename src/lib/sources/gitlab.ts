@@ -0,0 +1,117 @@
+import { detailsFromDiff } from "@/lib/github";
+import { createSourceClient, mapDiffs } from "@/lib/sources/http";
+import { collectPages, LIST_PAGE_SIZE } from "@/lib/sources/paging";
+import { SourceAdapter, SourceOptions } from "@/lib/sources/types";
+
+// Fields of GitLab's merge request and diff responses this adapter reads
+interface GitLabMergeRequest {
+  iid: number;
+  title: string;
+  description: string | null;
+  author: { username: string } | null;
+  web_url: string;
+  merged_at: string | null;
+  labels: string[];
+  target_branch: string;
+}
+
+interface GitLabFileDiff {
+  old_path: string;
+  new_path: string;
+  a_mode: string;
+  b_mode: string;
+  diff: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+}
+
+const DIFF_PAGE_SIZE = 100;
+// Files beyond 1000 are left out of very large merge requests
+const MAX_DIFF_PAGES = 10;
+
+// GitLab returns the hunks of each file; the git headers are rebuilt so the
+// result parses like any other diff
+function gitLabFileDiff(file: GitLabFileDiff): string {
+  const lines = [`diff --git a/${file.old_path} b/${file.new_path}`];
+  if (file.new_file) lines.push(`new file mode ${file.b_mode}`);
+  if (file.deleted_file) lines.push(`deleted file mode ${file.a_mode}`);
+  if (file.renamed_file) {
+    lines.push(`rename from ${file.old_path}`, `rename to ${file.new_path}`);
+  }
+  if (file.diff.startsWith("@@")) {
+    lines.push(
+      `--- ${file.new_file ? "/dev/null" : `a/${file.old_path}`}`,
+      `+++ ${file.deleted_file ? "/dev/null" : `b/${file.new_path}`}`
+    );
+  }
+  const header = lines.join("\n");
+  if (!file.diff) return `${header}\n`;
+  return `${header}\n${file.diff.endsWith("\n") ? file.diff : `${file.diff}\n`}`;
+}
+
+/** Merged merge requests of gitlab.com or a self-hosted GitLab. */
+export function createGitLabSource(options: SourceOptions): SourceAdapter {
+  const client = createSourceClient(
+    `${options.baseUrl}/api/v4`,
+    options.token ? { "PRIVATE-TOKEN": options.token } : {},
+    options.fetch
+  );
+
+  const fetchDiff = async (project: string, iid: number) => {
+    const files: GitLabFileDiff[] = [];
+    for (let page = 1; page <= MAX_DIFF_PAGES; page++) {
+      const data = await client.json<GitLabFileDiff[]>(
+        `/projects/${project}/merge_requests/${iid}/diffs`,
+        { page, per_page: DIFF_PAGE_SIZE }
+      );
+      files.push(...data);
+      if (data.length < DIFF_PAGE_SIZE) break;
+    }
+    return files.map(gitLabFileDiff).join("");
+  };
+
+  return {
+    provider: "gitlab",
+    baseUrl: options.baseUrl,
+    async listMergedChanges({ owner, repo, perPage, cursor }) {
+      // Project paths may contain subgroups; the API takes them URL-encoded
+      const project = encodeURIComponent(`${owner}/${repo}`);
+      const { items, nextCursor } = await collectPages(
+        (page) =>
+          client.json<GitLabMergeRequest[]>(
+            `/projects/${project}/merge_requests`,
+            {
+              state: "merged",
+              order_by: "updated_at",
+              sort: "desc",
+              per_page: LIST_PAGE_SIZE,
+              page,
+            }
+          ),
+        () => true,
+        { perPage, cursor }
+      );
+      const changes = await mapDiffs(
+        items,
+        (mr) => fetchDiff(project, mr.iid),
+        (mr, diff) => ({
+          number: mr.iid,
+          title: mr.title,
+          author: mr.author?.username ?? null,
+          url: mr.web_url,
+          diff,
+          mergedAt: mr.merged_at,
+          labels: mr.labels,
+          ...detailsFromDiff(
+            diff,
+            { body: mr.description, base: { ref: mr.target_branch } },
+            (n) => `${options.baseUrl}/${owner}/${repo}/-/issues/${n}`
+          ),
+        }),
+        (mr) => `merge request !${mr.iid}`
+      );
+      return { changes, nextCursor };
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import { MergedChange, SourceRequestError } from "@/lib/sources/types";
+
+type Query = Record<string, string | number>;
+
+// Hosts put the reason in "message" (GitHub, GitLab, Gitea) or in
+// "error.message" (Bitbucket)
+async function errorMessage(response: Response): Promise<string> {
+  const fallback = `${response.status} ${response.statusText}`.trim();
+  try {
+    const data = await response.json();
+    const message = data?.message ?? data?.error?.message ?? data?.error;
+    return typeof message === "string" && message ? message : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Minimal REST client for the non-GitHub hosts. Responses that aren't 2xx
+ * throw a SourceRequestError with the host's status and message.
+ */
+export function createSourceClient(
+  apiUrl: string,
+  headers: Record<string, string>,
+  fetchImpl: typeof fetch = fetch
+) {
+  const request = async (path: string, accept: string, query: Query = {}) => {
+    const url = new URL(`${apiUrl}${path}`);
+    Object.entries(query).forEach(([name, value]) =>
+      url.searchParams.set(name, String(value))
+    );
+    const response = await fetchImpl(url, {
+      headers: { ...headers, accept },
+    });
+    if (!response.ok) {
+      throw new SourceRequestError(
+        await errorMessage(response),
+        response.status
+      );
+    }
+    return response;
+  };
+
+  return {
+    async json<T>(path: string, query?: Query): Promise<T> {
+      return (await request(path, "application/json", query)).json();
+    },
+    async text(path: string, query?: Query): Promise<string> {
+      return (await request(path, "text/plain", query)).text();
+    },
+  };
+}
+
+// Failures every other request of the page would run into as well
+function isFatal(err: unknown): boolean {
+  const status = (err as { status?: unknown } | null)?.status;
+  return status === 401 || status === 403 || status === 429;
+}
+
+/**
+ * Reads the diff of every item in parallel and builds its change. A diff
+ * that can't be read leaves the change with an empty diff and `diffError`,
+ * so one unreadable diff doesn't fail the whole page and the cursor doesn't
+ * skip the PR unseen. Rate limit and authorization errors are thrown.
+ */
+export async function mapDiffs<T>(
+  items: T[],
+  readDiff: (item: T) => Promise<string>,
+  toChange: (item: T, diff: string) => MergedChange,
+  describe: (item: T) => string
+): Promise<MergedChange[]> {
+  return Promise.all(
+    items.map(async (item) => {
+      let diff: string;
+      try {
+        diff = await readDiff(item);
+      } catch (err) {
+        if (isFatal(err)) throw err;
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`Failed to fetch diff for ${describe(item)}:`, message);
+        return { ...toChange(item, ""), diffError: message };
+      }
+      return toChange(item, diff);
+    })
+  );
+}
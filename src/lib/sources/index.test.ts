@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { replayFetch } from "@/lib/sources/__fixtures__/replay";
+import { createSource, isAllowedBaseUrl } from "@/lib/sources";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("isAllowedBaseUrl", () => {
+  it("allows the hosted service, the configured instance and listed ones", () => {
+    vi.stubEnv("GITLAB_BASE_URL", "https://gitlab.corp.example");
+    vi.stubEnv(
+      "ALLOWED_BASE_URLS",
+      " https://git.example.org/ , https://gitlab.example.com"
+    );
+
+    expect(isAllowedBaseUrl("gitlab", "https://gitlab.com")).toBe(true);
+    expect(isAllowedBaseUrl("gitlab", "https://gitlab.corp.example")).toBe(
+      true
+    );
+    expect(isAllowedBaseUrl("gitea", "https://git.example.org")).toBe(true);
+    expect(isAllowedBaseUrl("gitlab", "https://gitlab.example.com")).toBe(
+      true
+    );
+    expect(isAllowedBaseUrl("gitlab", "http://169.254.169.254")).toBe(false);
+    expect(isAllowedBaseUrl("gitea", "https://gitlab.corp.example")).toBe(
+      false
+    );
+  });
+});
+
+describe("createSource", () => {
+  it("rejects instances that aren't allowed without requesting them", () => {
+    const { fetch, requests } = replayFetch({});
+    expect(() => createSource("gitea", "http://localhost:8080", fetch)).toThrow(
+      expect.objectContaining({ name: "SourceRequestError", status: 400 })
+    );
+    expect(requests).toHaveLength(0);
+  });
+
+  it("sends tokens only to the configured instance", async () => {
+    vi.stubEnv("GITEA_TOKEN", "gitea-secret");
+    vi.stubEnv("GITEA_BASE_URL", "https://gitea.corp.example");
+    vi.stubEnv("ALLOWED_BASE_URLS", "https://git.example.org");
+    const { fetch, requests } = replayFetch({
+      "/api/v1/repos/acme/site/pulls": { body: [] },
+    });
+    const options = { owner: "acme", repo: "site", perPage: 10 };
+
+    await createSource("gitea", undefined, fetch).listMergedChanges(options);
+    await createSource(
+      "gitea",
+      "https://git.example.org",
+      fetch
+    ).listMergedChanges(options);
+
+    expect(new URL(requests[0].url).host).toBe("gitea.corp.example");
+    expect(requests[0].headers.get("authorization")).toBe(
+      "token gitea-secret"
+    );
+    expect(new URL(requests[1].url).host).toBe("git.example.org");
+    expect(requests[1].headers.has("authorization")).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+import { fetcherFromEnv } from "@/lib/github";
+import { createBitbucketSource } from "@/lib/sources/bitbucket";
+import { createGiteaSource } from "@/lib/sources/gitea";
+import { createGitHubSource } from "@/lib/sources/github";
+import { createGitLabSource } from "@/lib/sources/gitlab";
+import { createLocalSource } from "@/lib/sources/local";
+import {
+  DEFAULT_BASE_URLS,
+  ForgeProvider,
+  SOURCE_PROVIDER_LABELS,
+  SourceAdapter,
+  SourceProvider,
+  SourceRequestError,
+  normalizeBaseUrl,
+} from "@/lib/sources/types";
+
+export * from "@/lib/sources/types";
+export { decodeCursor } from "@/lib/sources/paging";
+export { isRevisionRange } from "@/lib/sources/local";
+
+const env = process.env;
+
+const BASE_URL_VARIABLES: Record<ForgeProvider, string> = {
+  github: "GITHUB_BASE_URL",
+  gitlab: "GITLAB_BASE_URL",
+  gitea: "GITEA_BASE_URL",
+  bitbucket: "BITBUCKET_BASE_URL",
+};
+
+/** The instance the server's credentials are for. */
+export function configuredBaseUrl(provider: ForgeProvider): string {
+  const configured = env[BASE_URL_VARIABLES[provider]];
+  return (
+    (configured && normalizeBaseUrl(configured)) || DEFAULT_BASE_URLS[provider]
+  );
+}
+
+/**
+ * Instances the server may be sent to: the hosted service, the configured
+ * instance and those listed in ALLOWED_BASE_URLS. Any other address would let
+ * callers make the server request hosts of their choosing, internal ones
+ * included.
+ */
+export function isAllowedBaseUrl(
+  provider: ForgeProvider,
+  baseUrl: string
+): boolean {
+  const listed = (env.ALLOWED_BASE_URLS ?? "")
+    .split(",")
+    .map((value) => value.trim() && normalizeBaseUrl(value));
+  return (
+    baseUrl === DEFAULT_BASE_URLS[provider] ||
+    baseUrl === configuredBaseUrl(provider) ||
+    listed.includes(baseUrl)
+  );
+}
+
+/**
+ * Builds the adapter for a repository. `baseUrl` comes from the workspace and
+ * defaults to the configured instance; it must be an allowed instance, and
+ * credentials from the environment are only sent to the configured one, so a
+ * workspace can't point them elsewhere. Local checkouts are only read below
+ * LOCAL_GIT_ROOT.
+ */
+export function createSource(
+  provider: SourceProvider,
+  baseUrl?: string,
+  fetchImpl?: typeof fetch
+): SourceAdapter {
+  if (provider === "local") {
+    if (!env.LOCAL_GIT_ROOT) {
+      throw new SourceRequestError(
+        "Local repositories need LOCAL_GIT_ROOT on the server.",
+        400
+      );
+    }
+    return createLocalSource({ root: env.LOCAL_GIT_ROOT });
+  }
+  const configured = configuredBaseUrl(provider);
+  const url = baseUrl ?? configured;
+  if (!isAllowedBaseUrl(provider, url)) {
+    throw new SourceRequestError(
+      `${url} is not an allowed ${SOURCE_PROVIDER_LABELS[provider]} instance. Add it to ALLOWED_BASE_URLS on the server.`,
+      400
+    );
+  }
+  const trusted = url === configured;
+  const options = { baseUrl: url, fetch: fetchImpl };
+
+  switch (provider) {
+    case "github":
+      return createGitHubSource({
+        ...options,
+        token: trusted ? env.GITHUB_TOKEN : undefined,
+        // GitHub's GraphQL API always needs a token
+        fetcher: trusted && env.GITHUB_TOKEN ? fetcherFromEnv() : "rest",
+      });
+    case "gitlab":
+      return createGitLabSource({
+        ...options,
+        token: trusted ? env.GITLAB_TOKEN : undefined,
+      });
+    case "gitea":
+      return createGiteaSource({
+        ...options,
+        token: trusted ? env.GITEA_TOKEN : undefined,
+      });
+    case "bitbucket":
+      return createBitbucketSource({
+        ...options,
+        token: trusted
+          ? env.BITBUCKET_TOKEN || env.BITBUCKET_APP_PASSWORD
+          : undefined,
+        username:
+          trusted && !env.BITBUCKET_TOKEN ? env.BITBUCKET_USERNAME : undefined,
+      });
+  }
+}
@@ -0,0 +1,173 @@
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { GitRunner, createLocalSource } from "@/lib/sources/local";
+import { SourceRequestError } from "@/lib/sources/types";
+
+// Recorded from a checkout with one merged pull request and one plain commit
+const MERGE = [
+  "9866a939e97836dc33923fe05a4f1214d8993425",
+  "9866a93",
+  "Ann",
+  "2026-10-19T11:07:43+00:00",
+  "Merge pull request #12 from ann/feat\n\nAdd y to a\n\nFixes #3\n",
+];
+const COMMIT = [
+  "33a3739c4d1e8f2a6b5c7d9e0f1a2b3c4d5e6f70",
+  "33a3739",
+  "Bo",
+  "2026-10-19T11:09:02+00:00",
+  "docs: readme\n",
+];
+const DIFFS: Record<string, string> = {
+  [MERGE[0]]:
+    "diff --git a/a.ts b/a.ts\nindex 9d70386..56745a2 100644\n--- a/a.ts\n+++ b/a.ts\n@@ -1 +1 @@\n-export function a(x) {}\n+export function a(x, y) {}\n",
+  [COMMIT[0]]:
+    "diff --git a/README.md b/README.md\nindex e69de29..3b18e51 100644\n--- a/README.md\n+++ b/README.md\n@@ -0,0 +1 @@\n+hello world\n",
+};
+
+// `git log --format=...` output: fields end in \x1f, records in \x1e
+function logOutput(commits: string[][]): string {
+  return commits.map((fields) => `${fields.join("\x1f")}\x1e\n`).join("");
+}
+
+let root: string;
+
+beforeAll(async () => {
+  root = await mkdtemp(path.join(tmpdir(), "local-source-"));
+  await mkdir(path.join(root, "demo"));
+});
+
+afterAll(() => rm(root, { recursive: true, force: true }));
+
+function source(run?: GitRunner) {
+  const calls: { args: string[]; cwd: string }[] = [];
+  const recorded: GitRunner = async (args, cwd) => {
+    calls.push({ args, cwd });
+    if (args[0] === "log") {
+      const commits = args.includes("--merges") ? [MERGE] : [COMMIT, MERGE];
+      return args.includes("--skip=0") ? logOutput(commits) : "";
+    }
+    return DIFFS[args.at(-1)!];
+  };
+  return { calls, source: createLocalSource({ root, run: run ?? recorded }) };
+}
+
+const options = { owner: "local", repo: "demo", perPage: 10 };
+
+describe("createLocalSource", () => {
+  it("lists the merge commits of HEAD's first-parent history", async () => {
+    const { source: local, calls } = source();
+    const { changes, nextCursor } = await local.listMergedChanges(options);
+
+    expect(nextCursor).toBeNull();
+    expect(calls[0].cwd).toBe(path.join(root, "demo"));
+    expect(calls[0].args).toEqual(
+      expect.arrayContaining(["--first-parent", "--merges", "HEAD"])
+    );
+    expect(calls[0].args.indexOf("--end-of-options")).toBeLessThan(
+      calls[0].args.indexOf("HEAD")
+    );
+    expect(changes).toHaveLength(1);
+    // The PR title of a forge merge is the first line of the body
+    expect(changes[0]).toMatchObject({
+      number: parseInt(MERGE[0].slice(0, 13), 16),
+      commit: "9866a93",
+      title: "Add y to a",
+      body: "Fixes #3",
+      author: "Ann",
+      url: "",
+      mergedAt: "2026-10-19T11:07:43+00:00",
+      diff: DIFFS[MERGE[0]],
+      additions: 1,
+      deletions: 1,
+      linkedIssues: [{ number: 3, title: null, url: "" }],
+    });
+  });
+
+  it("lists every first-parent commit of a range", async () => {
+    const { source: local, calls } = source();
+    const { changes } = await local.listMergedChanges({
+      ...options,
+      range: "v1.0.0..HEAD",
+    });
+
+    expect(calls[0].args).not.toContain("--merges");
+    expect(calls[0].args.at(-2)).toBe("v1.0.0..HEAD");
+    expect(changes.map((c) => c.commit)).toEqual(["33a3739", "9866a93"]);
+    expect(changes[0]).toMatchObject({ title: "docs: readme", body: null });
+    const diffTree = calls.find((c) => c.args[0] === "diff-tree")!;
+    expect(diffTree.args).toEqual(
+      expect.arrayContaining(["--root", "-m", "--first-parent"])
+    );
+  });
+
+  it("continues from the cursor within a page", async () => {
+    const { source: local } = source();
+    const range = "v1.0.0..HEAD";
+    const first = await local.listMergedChanges({
+      ...options,
+      range,
+      perPage: 1,
+    });
+    const second = await local.listMergedChanges({
+      ...options,
+      range,
+      perPage: 1,
+      cursor: first.nextCursor!,
+    });
+    expect(first.changes.map((c) => c.commit)).toEqual(["33a3739"]);
+    expect(second.changes.map((c) => c.commit)).toEqual(["9866a93"]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("maps git's failures to request errors", async () => {
+    const failing = (stderr: string): GitRunner => async () => {
+      throw Object.assign(new Error("Command failed"), { stderr });
+    };
+
+    const notRepository = await source(
+      failing("fatal: not a git repository (or any of the parent directories)")
+    )
+      .source.listMergedChanges(options)
+      .catch((e) => e);
+    expect(notRepository).toBeInstanceOf(SourceRequestError);
+    expect(notRepository.status).toBe(404);
+
+    const unknownRevision = await source(
+      failing("fatal: bad revision 'v9..HEAD'")
+    )
+      .source.listMergedChanges({ ...options, range: "v9..HEAD" })
+      .catch((e) => e);
+    expect(unknownRevision).toMatchObject({
+      status: 400,
+      message: "fatal: bad revision 'v9..HEAD'",
+    });
+
+    const other = await source(failing("fatal: unable to read tree"))
+      .source.listMergedChanges(options)
+      .catch((e) => e);
+    expect(other.status).toBe(500);
+  });
+
+  it("rejects repositories outside the root and option-like ranges", async () => {
+    const { source: local, calls } = source();
+    const outside = await local
+      .listMergedChanges({ ...options, repo: "../etc" })
+      .catch((e) => e);
+    expect(outside).toMatchObject({ status: 400 });
+
+    const missing = await local
+      .listMergedChanges({ ...options, repo: "missing" })
+      .catch((e) => e);
+    expect(missing).toMatchObject({ status: 404 });
+
+    const option = await local
+      .listMergedChanges({ ...options, range: "--output=/tmp/x" })
+      .catch((e) => e);
+    expect(option).toMatchObject({ status: 400 });
+    expect(calls).toHaveLength(0);
+  });
+});
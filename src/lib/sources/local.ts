@@ -0,0 +1,175 @@
+import { execFile } from "node:child_process";
+import { stat } from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+
+import { detailsFromDiff } from "@/lib/github";
+import { mapDiffs } from "@/lib/sources/http";
+import { collectPages, LIST_PAGE_SIZE } from "@/lib/sources/paging";
+import { SourceAdapter, SourceRequestError } from "@/lib/sources/types";
+
+// Runs git with `args` in `cwd` and resolves to its output; injectable so
+// the source can run against recorded output
+export type GitRunner = (args: string[], cwd: string) => Promise<string>;
+
+const execFileAsync = promisify(execFile);
+// Diffs of large merges run into megabytes
+const MAX_OUTPUT = 64 * 1024 * 1024;
+
+export const runGit: GitRunner = async (args, cwd) => {
+  const { stdout } = await execFileAsync("git", args, {
+    cwd,
+    maxBuffer: MAX_OUTPUT,
+  });
+  return stdout;
+};
+
+// Revisions and ranges such as "v1.2.0..HEAD", "main~5...feature" or "@{u}.."
+const REVISION = "[\\w./@{}^~-]*";
+const RANGE_PATTERN = new RegExp(`^${REVISION}(?:\\.\\.\\.?${REVISION})?$`);
+
+/** Whether `value` is a revision or range the local source accepts. */
+export function isRevisionRange(value: string): boolean {
+  return (
+    value.length <= 200 &&
+    /\w/.test(value) &&
+    !value.startsWith("-") &&
+    RANGE_PATTERN.test(value)
+  );
+}
+
+// Hash, abbreviated hash, author, committer date and message; records end
+// in a record separator, fields in a unit separator
+const LOG_FORMAT = "%H%x1f%h%x1f%an%x1f%cI%x1f%B%x1e";
+
+// Merges of a forge put the PR title on the first line of the body
+const MERGE_SUBJECT =
+  /^Merge (?:pull request|branch|remote-tracking branch|merge request) /;
+
+interface Commit {
+  hash: string;
+  abbreviated: string;
+  author: string;
+  date: string;
+  title: string;
+  body: string;
+}
+
+function parseLog(output: string): Commit[] {
+  return output
+    .split("\x1e")
+    .map((record) => record.replace(/^\n/, ""))
+    .filter(Boolean)
+    .map((record) => {
+      const [hash, abbreviated, author, date, message] = record.split("\x1f");
+      let [title, ...rest] = message.trim().split("\n");
+      let body = rest.join("\n").trim();
+      if (MERGE_SUBJECT.test(title) && body) {
+        [title, ...rest] = body.split("\n");
+        body = rest.join("\n").trim();
+      }
+      return { hash, abbreviated, author, date, title: title.trim(), body };
+    });
+}
+
+function gitError(err: unknown): SourceRequestError {
+  const stderr = (err as { stderr?: string }).stderr?.trim();
+  const message = stderr || (err as Error).message;
+  if (/not a git repository/i.test(message)) {
+    return new SourceRequestError(message, 404);
+  }
+  if (/unknown revision|bad revision|ambiguous argument/i.test(message)) {
+    return new SourceRequestError(message, 400);
+  }
+  return new SourceRequestError(message, 500);
+}
+
+/**
+ * Commits of a git checkout in `root`, read with the git binary and no
+ * network. Without a range these are the merge commits on HEAD's first-parent
+ * history; with one, every first-parent commit of the range. Each commit's
+ * diff is against its first parent, so a merge shows what it brought in.
+ */
+export function createLocalSource(options: {
+  root: string;
+  run?: GitRunner;
+}): SourceAdapter {
+  const run = options.run ?? runGit;
+  const git = (args: string[], cwd: string) =>
+    run(args, cwd).catch((err) => {
+      throw gitError(err);
+    });
+
+  return {
+    provider: "local",
+    baseUrl: null,
+    async listMergedChanges({ repo, perPage, cursor, range }) {
+      const root = path.resolve(options.root);
+      const directory = path.resolve(root, repo);
+      if (path.dirname(directory) !== root) {
+        throw new SourceRequestError(`Invalid repository: ${repo}`, 400);
+      }
+      const found = await stat(directory).catch(() => null);
+      if (!found?.isDirectory()) {
+        throw new SourceRequestError(`Repository not found: ${repo}`, 404);
+      }
+      if (range !== undefined && !isRevisionRange(range)) {
+        throw new SourceRequestError(`Invalid range: ${range}`, 400);
+      }
+
+      const { items, nextCursor } = await collectPages(
+        async (page) =>
+          parseLog(
+            await git(
+              [
+                "log",
+                "--first-parent",
+                ...(range ? [] : ["--merges"]),
+                `--format=${LOG_FORMAT}`,
+                `--skip=${(page - 1) * LIST_PAGE_SIZE}`,
+                `--max-count=${LIST_PAGE_SIZE}`,
+                "--end-of-options",
+                range || "HEAD",
+                "--",
+              ],
+              directory
+            )
+          ),
+        () => true,
+        { perPage, cursor }
+      );
+      const changes = await mapDiffs(
+        items,
+        (commit) =>
+          git(
+            [
+              "diff-tree",
+              "-p",
+              "-M",
+              "--root",
+              "-m",
+              "--first-parent",
+              "--no-commit-id",
+              commit.hash,
+            ],
+            directory
+          ),
+        (commit, diff) => ({
+          // Numeric like PR numbers, and stable: the hash's first 52 bits
+          number: parseInt(commit.hash.slice(0, 13), 16),
+          title: commit.title,
+          author: commit.author,
+          // No web page to link to
+          url: "",
+          diff,
+          mergedAt: commit.date,
+          labels: [],
+          commit: commit.abbreviated,
+          ...detailsFromDiff(diff, { body: commit.body || null }, () => ""),
+        }),
+        (commit) => `commit ${commit.abbreviated}`
+      );
+      return { changes, nextCursor };
+    },
+  };
+}
@@ -0,0 +1,68 @@
+// Position in a host's list of changes: the page and the index on that page
+// of the first change not returned yet, or the host's own cursor for lists
+// it pages itself (GitHub's GraphQL API)
+export interface ListCursor {
+  page: number;
+  offset: number;
+  after?: string;
+}
+
+// Large list pages, so few requests are needed to skip unmerged changes
+export const LIST_PAGE_SIZE = 50;
+// Bounds one call for repositories that close many changes without merging
+const MAX_LIST_PAGES = 10;
+
+export function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/** Null for anything that isn't a cursor this module produced. */
+export function decodeCursor(value: string): ListCursor | null {
+  try {
+    const { page, offset, after } = JSON.parse(
+      Buffer.from(value, "base64url").toString("utf8")
+    );
+    if (!Number.isInteger(page) || page < 1) return null;
+    if (!Number.isInteger(offset) || offset < 0) return null;
+    if (after !== undefined && typeof after !== "string") return null;
+    return after === undefined ? { page, offset } : { page, offset, after };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Collects up to `perPage` items that pass `keep`, reading pages of
+ * LIST_PAGE_SIZE items from `fetchPage` (1-based) as needed. A page shorter
+ * than that ends the history.
+ */
+export async function collectPages<T>(
+  fetchPage: (page: number) => Promise<T[]>,
+  keep: (item: T) => boolean,
+  options: { perPage: number; cursor?: string }
+): Promise<{ items: T[]; nextCursor: string | null }> {
+  const start = options.cursor ? decodeCursor(options.cursor) : null;
+  let page = start?.page ?? 1;
+  let offset = start?.offset ?? 0;
+  const items: T[] = [];
+  for (let requests = 0; requests < MAX_LIST_PAGES; requests++) {
+    const data = await fetchPage(page);
+    for (let i = offset; i < data.length; i++) {
+      if (keep(data[i])) items.push(data[i]);
+      if (items.length === options.perPage) {
+        let next: ListCursor | null = { page, offset: i + 1 };
+        if (i + 1 === data.length) {
+          // A short page was the last one
+          next =
+            data.length < LIST_PAGE_SIZE ? null : { page: page + 1, offset: 0 };
+        }
+        return { items, nextCursor: next && encodeCursor(next) };
+      }
+    }
+    if (data.length < LIST_PAGE_SIZE) return { items, nextCursor: null };
+    page++;
+    offset = 0;
+  }
+  // Gave up early; the next call continues where this one stopped
+  return { items, nextCursor: encodeCursor({ page, offset }) };
+}
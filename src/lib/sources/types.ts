@@ -0,0 +1,114 @@
+import type { PullRequestDetails } from "@/lib/github";
+
+// Hosts with a web API
+export type ForgeProvider = "github" | "gitlab" | "gitea" | "bitbucket";
+
+// "local" reads a git checkout on the server
+export type SourceProvider = ForgeProvider | "local";
+
+export const SOURCE_PROVIDERS: SourceProvider[] = [
+  "github",
+  "gitlab",
+  "gitea",
+  "bitbucket",
+  "local",
+];
+
+export const SOURCE_PROVIDER_LABELS: Record<SourceProvider, string> = {
+  github: "GitHub",
+  gitlab: "GitLab",
+  gitea: "Gitea",
+  bitbucket: "Bitbucket",
+  local: "Local git",
+};
+
+// Owner of every local checkout; the repository is its directory name
+export const LOCAL_OWNER = "local";
+
+// Web address of the hosted services; self-hosted instances set their own
+export const DEFAULT_BASE_URLS: Record<ForgeProvider, string> = {
+  github: "https://github.com",
+  gitlab: "https://gitlab.com",
+  gitea: "https://gitea.com",
+  bitbucket: "https://bitbucket.org",
+};
+
+// Pull requests, merge requests: merged changes of any host in one shape
+export interface MergedChange extends PullRequestDetails {
+  number: number;
+  title: string;
+  author: string | null;
+  url: string;
+  diff: string;
+  mergedAt: string | null;
+  labels: string[];
+  // Abbreviated hash of changes that are commits rather than PRs
+  commit?: string;
+  // Why the diff couldn't be read; `diff` is empty then
+  diffError?: string;
+}
+
+export interface ListMergedOptions {
+  // GitLab owners may be nested groups, e.g. "group/subgroup"
+  owner: string;
+  repo: string;
+  perPage: number;
+  // From an earlier page of the same adapter
+  cursor?: string;
+  // Revision range such as "v1.2.0..HEAD"; only read by the local source
+  range?: string;
+}
+
+export interface MergedChangePage {
+  changes: MergedChange[];
+  // Null once the history ran out
+  nextCursor: string | null;
+}
+
+export interface SourceAdapter {
+  provider: SourceProvider;
+  // Web address of the instance, without a trailing slash; null for local
+  // checkouts
+  baseUrl: string | null;
+  /** Merged changes, most recently updated first. */
+  listMergedChanges(options: ListMergedOptions): Promise<MergedChangePage>;
+}
+
+// Everything an adapter needs besides the repository; `fetch` is injectable
+// so adapters can run against recorded responses
+export interface SourceOptions {
+  baseUrl: string;
+  token?: string;
+  fetch?: typeof fetch;
+}
+
+// Thrown for failed requests to the host, with the HTTP status it answered
+export class SourceRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "SourceRequestError";
+  }
+}
+
+export function isSourceProvider(value: unknown): value is SourceProvider {
+  return SOURCE_PROVIDERS.includes(value as SourceProvider);
+}
+
+export function isForgeProvider(value: unknown): value is ForgeProvider {
+  return isSourceProvider(value) && value !== "local";
+}
+
+/** "https://host/path" without a trailing slash, or null for anything else. */
+export function normalizeBaseUrl(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+    if (url.username || url.password || url.search || url.hash) return null;
+    return `${url.origin}${url.pathname}`.replace(/\/+$/, "");
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import { readServerSentEvents } from "@/lib/sse";
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+async function read(chunks: string[]) {
+  const events = [];
+  for await (const event of readServerSentEvents(streamOf(chunks))) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("readServerSentEvents", () => {
+  it("joins multi-line data and skips comments", async () => {
+    expect(
+      await read([": ping\n\nevent: note\ndata: a\ndata: b\n\ndata: c\n\n"])
+    ).toEqual([
+      { event: "note", data: "a\nb" },
+      { event: "message", data: "c" },
+    ]);
+  });
+
+  it("reads a CRLF split across chunks as one line break", async () => {
+    expect(await read(["event: a\r", "\ndata: 1\r\n\r\n"])).toEqual([
+      { event: "a", data: "1" },
+    ]);
+  });
+
+  it("reads lone CRs as line breaks", async () => {
+    expect(await read(["event: a\r", "data: 1\r", "\r"])).toEqual([
+      { event: "a", data: "1" },
+    ]);
+  });
+
+  it("ends an event the stream ends without a blank line", async () => {
+    expect(await read(["data: last\r"])).toEqual([
+      { event: "message", data: "last" },
+    ]);
+  });
+});
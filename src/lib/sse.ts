@@ -0,0 +1,67 @@
+export interface ServerSentEvent {
+  // "message" when the event has no "event:" field
+  event: string;
+  data: string;
+}
+
+const LINE_END = /\r\n|\r|\n/;
+
+/**
+ * Parses a text/event-stream body into events. Multi-line `data:` fields are
+ * joined with "\n"; comments and `id:`/`retry:` fields are ignored.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncIterable<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event = "";
+  let data: string[] = [];
+
+  // Returns the finished event when `line` is the blank line ending one
+  const handleLine = (line: string): ServerSentEvent | null => {
+    if (line === "") {
+      const result = data.length
+        ? { event: event || "message", data: data.join("\n") }
+        : null;
+      event = "";
+      data = [];
+      return result;
+    }
+    if (line.startsWith(":")) return null;
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+    if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+    return null;
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      // A trailing "\r" may be the first half of a "\r\n" split across chunks,
+      // so it waits for the next chunk
+      const held = buffer.endsWith("\r") ? "\r" : "";
+      const lines = buffer
+        .slice(0, buffer.length - held.length)
+        .split(LINE_END);
+      buffer = (lines.pop() ?? "") + held;
+      for (const line of lines) {
+        const next = handleLine(line);
+        if (next) yield next;
+      }
+    }
+    // A stream may end without the final blank line
+    for (const line of [...buffer.split(LINE_END), ""]) {
+      const next = handleLine(line);
+      if (next) yield next;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,71 @@
+import type { ReleaseCategory } from "@/lib/categories";
+import { readServerSentEvents } from "@/lib/sse";
+
+/**
+ * Events of the release-note stream sent by /api/ai-generated-diff as
+ * text/event-stream. Each SSE message has `event: <type>` and the JSON
+ * encoded event as `data`.
+ */
+export type StreamEvent =
+  // Next piece of a field's text, already unescaped
+  | { type: "field-delta"; field: string; text: string }
+  // Final value of a field; replaces the concatenated deltas
+  | { type: "field-complete"; field: string; value: string }
+  // Tokens of the whole generation, chunk summaries included
+  | {
+      type: "usage";
+      promptTokens: number;
+      completionTokens: number;
+      estimated: boolean;
+    }
+  // Only when the request asked to classify the PR
+  | { type: "category"; category: ReleaseCategory }
+  | { type: "warning"; message: string }
+  // Terminal: generation failed, no "done" follows
+  | { type: "error"; message: string }
+  // Terminal: generation finished
+  | { type: "done" };
+
+export type StreamEventType = StreamEvent["type"];
+
+export const STREAM_EVENT_TYPES: StreamEventType[] = [
+  "field-delta",
+  "field-complete",
+  "usage",
+  "category",
+  "warning",
+  "error",
+  "done",
+];
+
+export const EVENT_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+};
+
+const encoder = new TextEncoder();
+
+export function encodeStreamEvent(event: StreamEvent): Uint8Array {
+  return encoder.encode(
+    `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+  );
+}
+
+// Client side: typed events from a response body; unknown events are skipped
+export async function* readStreamEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncIterable<StreamEvent> {
+  for await (const message of readServerSentEvents(body)) {
+    if (!STREAM_EVENT_TYPES.includes(message.event as StreamEventType)) {
+      continue;
+    }
+    let event: StreamEvent;
+    try {
+      event = JSON.parse(message.data);
+    } catch {
+      throw new Error(`Malformed "${message.event}" event in AI stream.`);
+    }
+    yield event;
+  }
+}
@@ -0,0 +1,132 @@
+import { DiffChunk, estimateTokens, planDiff } from "@/lib/chunking";
+import type { LLMProvider } from "@/lib/llm";
+import { GenerationUsage, addUsage, estimateUsage } from "@/lib/usage";
+
+// Token budgets for the prompt; the model's context is larger, this leaves
+// room for the system prompt and the completion.
+export const SINGLE_PASS_TOKENS = 12000;
+export const CHUNK_TOKENS = 6000;
+export const MAX_CHUNKS = 16;
+const MAP_CONCURRENCY = 4;
+const MAP_MAX_TOKENS = 300;
+// Roughly 4 characters per token and 5-6 characters per English word
+const TOKENS_PER_WORD = 1.4;
+
+const mapSystemPrompt =
+  "You summarize one part of a larger pull request diff for a release-notes writer. Return 2-4 terse plain-text bullet points describing what changed in this part, referencing code entities exactly as named in the diff. State only what the diff shows; do not guess at the rest of the pull request. No introduction or closing text.";
+
+export interface ChunkSummary {
+  files: string[];
+  summary: string;
+  usage: GenerationUsage;
+}
+
+async function summarizeChunk(
+  provider: LLMProvider,
+  description: string,
+  chunk: DiffChunk,
+  index: number,
+  total: number,
+  signal?: AbortSignal
+): Promise<ChunkSummary> {
+  const request = {
+    system: mapSystemPrompt,
+    user: `Pull request: ${description}\nPart ${index + 1} of ${total}:\n${chunk.text}`,
+    temperature: 0.2,
+    maxTokens: MAP_MAX_TOKENS,
+    signal,
+  };
+  const { text, usage } = await provider.complete(request);
+  return {
+    files: chunk.files,
+    summary: text,
+    usage: usage
+      ? { ...usage, estimated: false }
+      : estimateUsage(request.system + request.user, text),
+  };
+}
+
+/**
+ * Map step: summarizes every chunk, at most MAP_CONCURRENCY at a time. Results
+ * keep the order of `chunks`.
+ */
+export async function summarizeChunks(
+  provider: LLMProvider,
+  description: string,
+  chunks: DiffChunk[],
+  signal?: AbortSignal
+): Promise<ChunkSummary[]> {
+  const results: ChunkSummary[] = new Array(chunks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length && !signal?.aborted) {
+      const index = next++;
+      results[index] = await summarizeChunk(
+        provider,
+        description,
+        chunks[index],
+        index,
+        chunks.length,
+        signal
+      );
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(MAP_CONCURRENCY, chunks.length) }, worker)
+  );
+  return results;
+}
+
+// Reduce step input: replaces the raw diff in the final prompt
+export function formatChunkSummaries(summaries: ChunkSummary[]): string {
+  return summaries
+    .map(
+      (s, i) =>
+        `Part ${i + 1} (${s.files.join(", ") || "various files"}):\n${s.summary}`
+    )
+    .join("\n\n");
+}
+
+/**
+ * Estimates the tokens one generation will use before it runs, following the
+ * same single-pass or map-reduce plan as the route. `promptText` is the
+ * rendered prompt without the diff; chunk summaries are counted at their
+ * token limit, so large diffs are rather overestimated.
+ */
+export function estimateGenerationUsage(
+  diff: string,
+  promptText: string,
+  maxWords: number[]
+): GenerationUsage {
+  const { chunks, coverage } = planDiff(diff, {
+    singlePassTokens: SINGLE_PASS_TOKENS,
+    chunkTokens: CHUNK_TOKENS,
+    maxChunks: MAX_CHUNKS,
+  });
+  const notes: GenerationUsage = {
+    promptTokens: estimateTokens(promptText),
+    // Each note plus its JSON field name and quotes
+    completionTokens: maxWords.reduce(
+      (sum, words) => sum + Math.ceil(words * TOKENS_PER_WORD) + 10,
+      0
+    ),
+    estimated: true,
+  };
+  if (coverage.strategy === "single") {
+    return {
+      ...notes,
+      promptTokens: notes.promptTokens + coverage.totalTokens,
+    };
+  }
+  const mapPrompt = estimateTokens(mapSystemPrompt) + 30;
+  return chunks.reduce(
+    (total, chunk) =>
+      addUsage(total, {
+        // The chunk's summary is read again by the final prompt
+        promptTokens: mapPrompt + chunk.tokens + MAP_MAX_TOKENS,
+        completionTokens: MAP_MAX_TOKENS,
+        estimated: true,
+      }),
+    notes
+  );
+}
@@ -0,0 +1,106 @@
+import { estimateTokens } from "@/lib/chunking";
+import type { TokenUsage } from "@/lib/llm/types";
+
+export interface GenerationUsage extends TokenUsage {
+  // Part of the counts is estimated because the provider did not report it
+  estimated: boolean;
+}
+
+// USD per million tokens; `model` also matches longer names it is a prefix of
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: "gpt-4.1", inputPerMillion: 2, outputPerMillion: 8 },
+  { model: "gpt-4.1-mini", inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  { model: "gpt-4.1-nano", inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  { model: "gpt-4o", inputPerMillion: 2.5, outputPerMillion: 10 },
+  { model: "gpt-4o-mini", inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { model: "claude-3-5-haiku", inputPerMillion: 0.8, outputPerMillion: 4 },
+  { model: "claude-3-5-sonnet", inputPerMillion: 3, outputPerMillion: 15 },
+  { model: "claude-sonnet-4", inputPerMillion: 3, outputPerMillion: 15 },
+  { model: "mock-1", inputPerMillion: 0, outputPerMillion: 0 },
+];
+
+export const EMPTY_USAGE: GenerationUsage = {
+  promptTokens: 0,
+  completionTokens: 0,
+  estimated: false,
+};
+
+export function estimateUsage(
+  prompt: string,
+  completion: string
+): GenerationUsage {
+  return {
+    promptTokens: estimateTokens(prompt),
+    completionTokens: estimateTokens(completion),
+    estimated: true,
+  };
+}
+
+export function addUsage(
+  a: GenerationUsage,
+  b: GenerationUsage
+): GenerationUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    estimated: a.estimated || b.estimated,
+  };
+}
+
+/** Exact match first, otherwise the longest price whose model is a prefix. */
+export function findPrice(
+  prices: ModelPrice[],
+  model: string
+): ModelPrice | undefined {
+  const exact = prices.find((p) => p.model === model);
+  if (exact) return exact;
+  return prices
+    .filter((p) => p.model && model.startsWith(p.model))
+    .sort((a, b) => b.model.length - a.model.length)[0];
+}
+
+export function usageCost(usage: TokenUsage, price: ModelPrice): number {
+  return (
+    (usage.promptTokens * price.inputPerMillion +
+      usage.completionTokens * price.outputPerMillion) /
+    1_000_000
+  );
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return "$0";
+  if (usd < 0.01) return "<$0.01";
+  return `$${usd.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1_000_000).toFixed(2)}M`;
+}
+
+// Drops rows without a model name or with negative prices
+export function normalizePrices(value: unknown): ModelPrice[] {
+  if (!Array.isArray(value)) return DEFAULT_MODEL_PRICES;
+  return value.flatMap((row) => {
+    const { model, inputPerMillion, outputPerMillion } = (row ??
+      {}) as Partial<ModelPrice>;
+    if (typeof model !== "string" || !model.trim()) return [];
+    if (!(Number(inputPerMillion) >= 0 && Number(outputPerMillion) >= 0)) {
+      return [];
+    }
+    return [
+      {
+        model: model.trim(),
+        inputPerMillion: Number(inputPerMillion),
+        outputPerMillion: Number(outputPerMillion),
+      },
+    ];
+  });
+}
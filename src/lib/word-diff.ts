@@ -0,0 +1,63 @@
+export interface WordDiffSegment {
+  type: "equal" | "add" | "remove";
+  text: string;
+}
+
+// Beyond this many tokens per side the texts are shown as one replacement
+const MAX_TOKENS = 2000;
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+/**
+ * Word-level diff of two notes via longest common subsequence. Whitespace is
+ * kept as separate tokens so the segments join back to the original texts.
+ */
+export function diffWords(before: string, after: string): WordDiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length > MAX_TOKENS || b.length > MAX_TOKENS) {
+    const replaced: WordDiffSegment[] = [
+      { type: "remove", text: before },
+      { type: "add", text: after },
+    ];
+    return replaced.filter((s) => s.text);
+  }
+
+  // lengths[i][j]: LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: WordDiffSegment[] = [];
+  const push = (type: WordDiffSegment["type"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += text;
+    else segments.push({ type, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("equal", a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("remove", a[i++]);
+    } else {
+      push("add", b[j++]);
+    }
+  }
+  while (i < a.length) push("remove", a[i++]);
+  while (j < b.length) push("add", b[j++]);
+  return segments;
+}